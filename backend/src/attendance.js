@@ -0,0 +1,66 @@
+import { isGuestUserId } from './shareLinks.js';
+
+const COLUMNS = [
+  'session_started',
+  'session_ended',
+  'user_id',
+  'display_name',
+  'guest',
+  'joined_at',
+  'left_at',
+  'minutes_present',
+  'leave_reason',
+];
+
+function toIso(value) {
+  return value ? new Date(value).toISOString() : '';
+}
+
+/**
+ * RFC 4180 quoting. Display names are typed by participants, so anything a spreadsheet would
+ * run as a formula gets a leading apostrophe.
+ */
+function escapeCell(value) {
+  let text = String(value ?? '');
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Minutes between joining and leaving; people still in the call count up to now */
+function minutesPresent(row, now = new Date()) {
+  const end = row.left_at ? new Date(row.left_at) : now;
+  return Math.max(0, Math.round((end - new Date(row.joined_at)) / 60000));
+}
+
+/** One line per stint in the call, oldest session first */
+export function toAttendanceCsv(sessions) {
+  const now = new Date();
+  const lines = [COLUMNS.join(',')];
+  for (const session of [...sessions].reverse()) {
+    for (const row of session.attendance) {
+      lines.push(
+        [
+          toIso(session.started_at),
+          toIso(session.ended_at),
+          row.user_id,
+          row.display_name,
+          isGuestUserId(row.user_id) ? 'yes' : 'no',
+          toIso(row.joined_at),
+          toIso(row.left_at),
+          minutesPresent(row, now),
+          row.leave_reason ?? (row.left_at ? '' : 'in-call'),
+        ]
+          .map(escapeCell)
+          .join(',')
+      );
+    }
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function sendAttendanceCsv(res, sessions, { fileName }) {
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.setHeader('Cache-Control', 'private, no-store');
+  res.send(toAttendanceCsv(sessions));
+}
@@ -0,0 +1,31 @@
+import { clerkMiddleware, clerkClient } from '@clerk/express';
+import { verifyToken } from '@clerk/backend';
+
+/** Accounts, sessions and email verification all live in Clerk */
+export function createClerkProvider({ secretKey }) {
+  return {
+    id: 'clerk',
+    canIssueTokens: false,
+
+    middleware() {
+      return clerkMiddleware({ secretKey });
+    },
+
+    async verifyToken(token) {
+      const verified = await verifyToken(token, { secretKey });
+      return verified.sub;
+    },
+
+    async getVerifiedEmails(userId) {
+      const user = await clerkClient.users.getUser(userId);
+      return user.emailAddresses
+        .filter((e) => e.verification?.status === 'verified')
+        .map((e) => e.emailAddress.toLowerCase());
+    },
+
+    async findUserIdByEmail(email) {
+      const { data } = await clerkClient.users.getUserList({ emailAddress: [email], limit: 1 });
+      return data[0]?.id ?? null;
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import { verifyGuestToken } from '../shareLinks.js';
+import { createClerkProvider } from './clerkProvider.js';
+import { createLocalProvider } from './localProvider.js';
+
+export const AUTH_PROVIDERS = ['clerk', 'local'];
+
+/**
+ * AUTH_PROVIDER=clerk (default) signs people in through Clerk. AUTH_PROVIDER=local keeps
+ * accounts in Postgres and verifies JWTs with a configured key, so nothing has to reach Clerk
+ * (air-gapped installs, integration tests). User ids come from the provider either way.
+ */
+export const AUTH_PROVIDER = process.env.AUTH_PROVIDER || 'clerk';
+if (!AUTH_PROVIDERS.includes(AUTH_PROVIDER)) {
+  throw new Error(`AUTH_PROVIDER must be one of ${AUTH_PROVIDERS.join(', ')}`);
+}
+
+function createAuthProvider() {
+  if (AUTH_PROVIDER === 'local') {
+    return createLocalProvider({
+      secret: process.env.AUTH_JWT_SECRET,
+      privateKey: process.env.AUTH_JWT_PRIVATE_KEY,
+      publicKey: process.env.AUTH_JWT_PUBLIC_KEY,
+      issuer: process.env.AUTH_JWT_ISSUER || 'meet',
+      audience: process.env.AUTH_JWT_AUDIENCE || undefined,
+      tokenTtlSeconds: parseInt(process.env.AUTH_TOKEN_TTL_SECONDS || '43200', 10),
+    });
+  }
+  return createClerkProvider({ secretKey: process.env.CLERK_SECRET_KEY });
+}
+
+const provider = createAuthProvider();
+
+const PUBLIC_PATHS = ['/health'];
+
+function isPublicRoute(path) {
+  return PUBLIC_PATHS.some((p) => path === p || path.startsWith(p + '/'));
+}
+
+/** Sets req.auth.userId for requests with a valid session token */
+export function setupAuth(app) {
+  app.use(provider.middleware());
+}
+
+/** Whether this provider signs its own tokens (local username/password sign-in) */
+export function canIssueTokens() {
+  return provider.canIssueTokens;
+}
+
+export function issueToken(account) {
+  return provider.issueToken(account);
+}
+
+/** User id for a session token (sockets send it in the handshake); rejects invalid tokens */
+export function verifyAuthToken(token) {
+  return provider.verifyToken(token);
+}
+
+/**
+ * Signed-in users only, unless `allowGuest(req, guest)` lets a guest pass (see signGuestToken)
+ * through for this request; guests end up on req.guest.
+ */
+export function requireAuth({ allowGuest } = {}) {
+  return (req, res, next) => {
+    if (isPublicRoute(req.path)) return next();
+    if (req.auth?.userId) return next();
+    const guest = allowGuest && verifyGuestToken(req.headers.authorization?.replace(/^Bearer\s+/i, ''));
+    if (guest && allowGuest(req, guest)) {
+      req.guest = guest;
+      return next();
+    }
+    return res.status(401).json({ error: 'Unauthorized' });
+  };
+}
+
+export function getUserId(req) {
+  return req.auth?.userId ?? req.guest?.userId ?? null;
+}
+
+/** A user's verified email addresses, lowercased */
+export async function getVerifiedEmails(userId) {
+  return provider.getVerifiedEmails(userId);
+}
+
+/** Verified email domains for a user, used by room domain allowlists */
+export async function getVerifiedEmailDomains(userId) {
+  return (await getVerifiedEmails(userId)).map((email) => email.split('@').pop());
+}
+
+/** User id for an email address, or null if nobody has signed up with it */
+export async function findUserIdByEmail(email) {
+  return provider.findUserIdByEmail(email);
+}
@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+
+export const JWT_ALGORITHMS = ['HS256', 'RS256'];
+
+function encodeJson(value) {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeJson(part) {
+  try {
+    return JSON.parse(Buffer.from(part, 'base64url').toString('utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+function hmac(secret, input) {
+  return crypto.createHmac('sha256', secret).update(input).digest();
+}
+
+/** Compact JWS for `claims`; key is the shared secret (HS256) or a private KeyObject (RS256) */
+export function signJwt(claims, { algorithm, key }) {
+  const input = `${encodeJson({ alg: algorithm, typ: 'JWT' })}.${encodeJson(claims)}`;
+  const signature = algorithm === 'HS256' ? hmac(key, input) : crypto.sign('sha256', Buffer.from(input), key);
+  return `${input}.${signature.toString('base64url')}`;
+}
+
+function signatureValid(algorithm, key, input, signature) {
+  if (algorithm === 'HS256') {
+    const expected = hmac(key, input);
+    return expected.length === signature.length && crypto.timingSafeEqual(expected, signature);
+  }
+  return crypto.verify('sha256', Buffer.from(input), key, signature);
+}
+
+/**
+ * Claims of a well-signed, current token with a subject, otherwise null. Only the configured
+ * algorithm is accepted, so a token can't downgrade itself to "none" or to HS256 keyed with
+ * the public key. `issuer` and `audience` are checked when given.
+ */
+export function verifyJwt(token, { algorithm, key, issuer, audience, clockToleranceSeconds = 30 }) {
+  if (typeof token !== 'string') return null;
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  const [headerPart, claimsPart, signaturePart] = parts;
+  const header = decodeJson(headerPart);
+  const claims = decodeJson(claimsPart);
+  if (header?.alg !== algorithm || !claims || typeof claims !== 'object') return null;
+  if (!signatureValid(algorithm, key, `${headerPart}.${claimsPart}`, Buffer.from(signaturePart, 'base64url'))) {
+    return null;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp + clockToleranceSeconds <= now) return null;
+  if (typeof claims.nbf === 'number' && claims.nbf - clockToleranceSeconds > now) return null;
+  if (issuer && claims.iss !== issuer) return null;
+  if (audience && !(Array.isArray(claims.aud) ? claims.aud.includes(audience) : claims.aud === audience)) return null;
+  if (typeof claims.sub !== 'string' || !claims.sub) return null;
+  return claims;
+}
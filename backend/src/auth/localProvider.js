@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+import { getLocalAccount, findLocalAccountByEmail } from '../db/index.js';
+import { signJwt, verifyJwt } from './jwt.js';
+
+// PEM keys usually arrive through a single-line env var with escaped newlines
+function readPem(value) {
+  return value?.replace(/\\n/g, '\n');
+}
+
+/**
+ * Accounts in the local_accounts table, signed in with a username and password, and JWTs
+ * signed by this backend: HS256 with `secret`, or RS256 with `privateKey`/`publicKey`.
+ * With only a public key, tokens from an external issuer (an OIDC provider or gateway signing
+ * with that key) are accepted instead and password sign-in is off; `sub` is the user id.
+ */
+export function createLocalProvider({ secret, privateKey, publicKey, issuer, audience, tokenTtlSeconds }) {
+  if (!secret && !publicKey) {
+    throw new Error('AUTH_PROVIDER=local needs AUTH_JWT_SECRET or AUTH_JWT_PUBLIC_KEY');
+  }
+  const algorithm = secret ? 'HS256' : 'RS256';
+  const verifyKey = secret || crypto.createPublicKey(readPem(publicKey));
+  const signKey = secret || (privateKey ? crypto.createPrivateKey(readPem(privateKey)) : null);
+
+  const verify = (token) => verifyJwt(token, { algorithm, key: verifyKey, issuer, audience });
+
+  return {
+    id: 'local',
+    canIssueTokens: !!signKey,
+
+    middleware() {
+      return (req, res, next) => {
+        const claims = verify(req.headers.authorization?.replace(/^Bearer\s+/i, ''));
+        req.auth = claims ? { userId: claims.sub } : null;
+        next();
+      };
+    },
+
+    async verifyToken(token) {
+      const claims = verify(token);
+      if (!claims) throw new Error('Invalid token');
+      return claims.sub;
+    },
+
+    /** Returns { token, expiresAt } for a local account */
+    issueToken(account) {
+      if (!signKey) throw new Error('No signing key configured');
+      const now = Math.floor(Date.now() / 1000);
+      const claims = {
+        sub: account.id,
+        iss: issuer,
+        iat: now,
+        exp: now + tokenTtlSeconds,
+        preferred_username: account.username,
+        name: account.display_name ?? undefined,
+        email: account.email ?? undefined,
+      };
+      if (audience) claims.aud = audience;
+      return { token: signJwt(claims, { algorithm, key: signKey }), expiresAt: new Date(claims.exp * 1000) };
+    },
+
+    // Externally issued users have no local account, so no verified emails either
+    async getVerifiedEmails(userId) {
+      const account = await getLocalAccount(userId);
+      return account?.email && account.email_verified ? [account.email.toLowerCase()] : [];
+    },
+
+    async findUserIdByEmail(email) {
+      return (await findLocalAccountByEmail(email))?.id ?? null;
+    },
+  };
+}
@@ -0,0 +1,187 @@
+import { toZonedParts, fromZonedParts, zoneOffsetMs, parseRecurrenceRule } from './schedule.js';
+
+// Normalize FRONTEND_URL: strip trailing slash so join links don't end up with "//room"
+const FRONTEND_URL = process.env.FRONTEND_URL?.replace(/\/+$/, '') || null;
+
+/** Link people follow to join a room, or null when FRONTEND_URL isn't configured */
+export function roomJoinUrl(room) {
+  return FRONTEND_URL ? `${FRONTEND_URL}/room/${room.id}` : null;
+}
+
+function escapeText(value) {
+  return String(value).replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** RFC 5545 lines are at most 75 octets; longer ones continue on lines starting with a space */
+function foldLine(line) {
+  const bytes = Buffer.from(line, 'utf-8');
+  if (bytes.length <= 75) return line;
+  const chunks = [];
+  let current = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char, 'utf-8') > limit) {
+      chunks.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+const pad = (n) => String(n).padStart(2, '0');
+
+function formatUtc(date) {
+  const d = new Date(date);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+}
+
+function formatLocal(date, timeZone) {
+  const p = toZonedParts(new Date(date), timeZone);
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How far past today the zone's offset changes are spelled out; later ones reuse the last offset
+const TIME_ZONE_YEARS_AHEAD = 10;
+
+function formatOffset(ms) {
+  const minutes = Math.round(Math.abs(ms) / 60000);
+  return `${ms < 0 ? '-' : '+'}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+}
+
+// Wall-clock time that an instant shows at a given offset, as a VTIMEZONE DTSTART
+function formatAtOffset(instant, offsetMs) {
+  return formatUtc(instant + offsetMs).slice(0, -1);
+}
+
+/** Instants from `from` to `to` at which timeZone's UTC offset changes, to the minute */
+function offsetChanges(timeZone, from, to) {
+  const changes = [];
+  let previous = zoneOffsetMs(new Date(from), timeZone);
+  for (let t = from + DAY_MS; t <= to; t += DAY_MS) {
+    const offset = zoneOffsetMs(new Date(t), timeZone);
+    if (offset === previous) continue;
+    let low = t - DAY_MS;
+    let high = t;
+    while (high - low > 60000) {
+      const mid = low + Math.floor((high - low) / 120000) * 60000;
+      if (zoneOffsetMs(new Date(mid), timeZone) === previous) low = mid;
+      else high = mid;
+    }
+    changes.push({ at: high, from: previous, to: offset });
+    previous = offset;
+  }
+  return changes;
+}
+
+const timeZoneComponents = new Map();
+
+/**
+ * RFC 5545 needs a VTIMEZONE for every TZID an event uses. The zone's rules are spelled out
+ * as the actual offset changes (from Intl) between the earliest start and some years ahead,
+ * grouped into one observance per kind of change with the later ones as RDATEs.
+ */
+function timeZoneComponent(timeZone, since) {
+  // Working out the changes takes thousands of lookups, and subscribed calendars poll the feed
+  const key = `${timeZone} ${new Date(since).getUTCFullYear()} ${new Date().getUTCFullYear()}`;
+  if (!timeZoneComponents.has(key)) timeZoneComponents.set(key, buildTimeZoneComponent(timeZone, since));
+  return timeZoneComponents.get(key);
+}
+
+function buildTimeZoneComponent(timeZone, since) {
+  const year = new Date(since).getUTCFullYear();
+  const to = Date.UTC(Math.max(year, new Date().getUTCFullYear()) + TIME_ZONE_YEARS_AHEAD, 0, 1);
+  // Local midnight on January 1st of the year the first meeting is in
+  const initial = zoneOffsetMs(new Date(Date.UTC(year, 0, 1)), timeZone);
+  const from = Date.UTC(year, 0, 1) - initial;
+  const observances = new Map();
+  const observe = (kind, at, fromOffset, toOffset) => {
+    const key = `${kind}${fromOffset}${toOffset}`;
+    const dtstart = formatAtOffset(at, fromOffset);
+    if (observances.has(key)) observances.get(key).rdates.push(dtstart);
+    else observances.set(key, { kind, dtstart, fromOffset, toOffset, rdates: [] });
+  };
+  // Daylight saving time: the clock is ahead of where it will be at some point in the coming year
+  const kindAt = (at, offset) =>
+    [...Array(12).keys()].some((m) => zoneOffsetMs(new Date(at + (m + 1) * 31 * DAY_MS), timeZone) < offset)
+      ? 'DAYLIGHT'
+      : 'STANDARD';
+  observe(kindAt(from, initial), from, initial, initial);
+  for (const change of offsetChanges(timeZone, from, to)) {
+    observe(kindAt(change.at, change.to), change.at, change.from, change.to);
+  }
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  for (const o of observances.values()) {
+    lines.push(
+      `BEGIN:${o.kind}`,
+      `DTSTART:${o.dtstart}`,
+      ...(o.rdates.length ? [`RDATE:${o.rdates.join(',')}`] : []),
+      `TZOFFSETFROM:${formatOffset(o.fromOffset)}`,
+      `TZOFFSETTO:${formatOffset(o.toOffset)}`,
+      `END:${o.kind}`
+    );
+  }
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * The stored RRULE with UNTIL as a UTC date-time, which RFC 5545 requires once DTSTART has a
+ * time. A date-only UNTIL includes that whole day in the room's time zone.
+ */
+function exportedRecurrenceRule(room) {
+  const parsed = parseRecurrenceRule(room.recurrence_rule);
+  if (!parsed.rule?.until) return room.recurrence_rule;
+  const { date, instant } = parsed.rule.until;
+  const until = instant ?? fromZonedParts({ ...date, hour: 23, minute: 59, second: 59 }, room.time_zone);
+  return parsed.text.replace(/UNTIL=[^;]*/, `UNTIL=${formatUtc(until)}`);
+}
+
+function roomEvent(room, now) {
+  const joinUrl = roomJoinUrl(room);
+  const description = [joinUrl && `Join: ${joinUrl}`, room.room_code && `Room code: ${room.room_code}`]
+    .filter(Boolean)
+    .join('\n');
+  // TZID refers to the VTIMEZONE emitted alongside, so recurrences follow the zone's DST changes
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${room.id}@meet`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART;TZID=${room.time_zone}:${formatLocal(room.scheduled_start, room.time_zone)}`,
+    `DURATION:PT${room.duration_minutes}M`,
+    `SUMMARY:${escapeText(room.name)}`,
+  ];
+  if (room.recurrence_rule) lines.push(`RRULE:${exportedRecurrenceRule(room)}`);
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  if (joinUrl) lines.push(`URL:${joinUrl}`, `LOCATION:${escapeText(joinUrl)}`);
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/** An iCalendar document with one event per scheduled room */
+export function toICalendar(rooms, { name } = {}) {
+  const now = new Date();
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Meet//Meetings//EN', 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+  if (name) lines.push(`X-WR-CALNAME:${escapeText(name)}`);
+  const scheduled = rooms.filter((room) => room.scheduled_start);
+  // Each zone once, covering its earliest meeting
+  const earliestByZone = new Map();
+  for (const room of scheduled) {
+    const start = new Date(room.scheduled_start).getTime();
+    earliestByZone.set(room.time_zone, Math.min(earliestByZone.get(room.time_zone) ?? start, start));
+  }
+  for (const [timeZone, since] of earliestByZone) lines.push(...timeZoneComponent(timeZone, since));
+  for (const room of scheduled) lines.push(...roomEvent(room, now));
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function sendICalendar(res, rooms, { name, fileName }) {
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  // Subscribed calendars poll the feed, so it must never be served stale
+  res.setHeader('Cache-Control', 'private, no-cache');
+  res.send(toICalendar(rooms, { name }));
+}
@@ -47,6 +47,12 @@ export async function ensureUser(clerkUserId) {
   return existing.rows[0];
 }
 
+// passcode_hash is never selected here; callers only learn whether one is set
+const ROOM_COLUMNS = `id, name, room_code, created_by, created_at,
+  absent_host_policy, lobby_timeout_seconds, promote_on_host_leave,
+  admission_policy, allowed_domains, passcode_hash IS NOT NULL AS has_passcode, recording_retention_days,
+  recording_requires_approval, scheduled_start, duration_minutes, time_zone, recurrence_rule`;
+
 function generateRoomCode() {
   const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
   let code = '';
@@ -64,10 +70,15 @@ export async function createRoom(name, clerkUserId) {
     try {
       const res = await pool.query(
         `INSERT INTO rooms (name, room_code, created_by) VALUES ($1, $2, $3)
-         RETURNING id, name, room_code, created_by, created_at`,
+         RETURNING ${ROOM_COLUMNS}`,
         [name, roomCode, clerkUserId]
       );
       room = res.rows[0];
+      await pool.query(
+        `INSERT INTO room_members (room_id, user_id, role) VALUES ($1, $2, 'owner')
+         ON CONFLICT (room_id, user_id) DO UPDATE SET role = 'owner'`,
+        [room.id, clerkUserId]
+      );
       break;
     } catch (err) {
       if (err.code === '23505') continue;
@@ -80,7 +91,7 @@ export async function createRoom(name, clerkUserId) {
 
 export async function getRoom(roomId) {
   const res = await pool.query(
-    'SELECT id, name, room_code, created_by, created_at FROM rooms WHERE id = $1',
+    `SELECT ${ROOM_COLUMNS} FROM rooms WHERE id = $1`,
     [roomId]
   );
   return res.rows[0] || null;
@@ -88,7 +99,7 @@ export async function getRoom(roomId) {
 
 export async function getRoomByCode(roomCode) {
   const res = await pool.query(
-    'SELECT id, name, room_code, created_by, created_at FROM rooms WHERE upper(room_code) = upper($1)',
+    `SELECT ${ROOM_COLUMNS} FROM rooms WHERE upper(room_code) = upper($1)`,
     [String(roomCode).trim()]
   );
   return res.rows[0] || null;
@@ -96,31 +107,356 @@ export async function getRoomByCode(roomCode) {
 
 export async function listRooms() {
   const res = await pool.query(
-    'SELECT id, name, room_code, created_by, created_at FROM rooms ORDER BY created_at DESC'
+    `SELECT ${ROOM_COLUMNS} FROM rooms ORDER BY created_at DESC`
+  );
+  return res.rows;
+}
+
+// Columns the owner may change through PATCH /api/rooms/:roomId
+const ROOM_SETTINGS = [
+  'name',
+  'absent_host_policy',
+  'lobby_timeout_seconds',
+  'promote_on_host_leave',
+  'admission_policy',
+  'allowed_domains',
+  'passcode_hash',
+  'recording_retention_days',
+  'recording_requires_approval',
+];
+
+/** Set (or with null, clear) a room's schedule */
+export async function updateRoomSchedule(roomId, schedule) {
+  const res = await pool.query(
+    `UPDATE rooms SET scheduled_start = $2, duration_minutes = $3, time_zone = $4, recurrence_rule = $5
+     WHERE id = $1
+     RETURNING ${ROOM_COLUMNS}`,
+    [
+      roomId,
+      schedule?.scheduledStart ?? null,
+      schedule?.durationMinutes ?? null,
+      schedule?.timeZone ?? null,
+      schedule?.recurrenceRule ?? null,
+    ]
+  );
+  return res.rows[0] || null;
+}
+
+/** Scheduled rooms the user has a role in or is invited to; these make up their calendar */
+export async function listScheduledRoomsForUser(clerkUserId) {
+  const res = await pool.query(
+    `SELECT ${ROOM_COLUMNS} FROM rooms
+     WHERE scheduled_start IS NOT NULL
+       AND (
+         id IN (SELECT room_id FROM room_members WHERE user_id = $1)
+         OR id IN (SELECT room_id FROM room_invites WHERE user_id = $1)
+       )
+     ORDER BY scheduled_start`,
+    [clerkUserId]
   );
   return res.rows;
 }
 
+/** The user's calendar feed token, created on first use */
+export async function getCalendarToken(clerkUserId, newToken) {
+  await ensureUser(clerkUserId);
+  const res = await pool.query(
+    `UPDATE users SET calendar_token = COALESCE(calendar_token, $2)
+     WHERE clerk_user_id = $1
+     RETURNING calendar_token`,
+    [clerkUserId, newToken]
+  );
+  return res.rows[0]?.calendar_token ?? null;
+}
+
+/** Replace the user's calendar feed token, so the old feed URL stops working */
+export async function resetCalendarToken(clerkUserId, newToken) {
+  await ensureUser(clerkUserId);
+  const res = await pool.query(
+    'UPDATE users SET calendar_token = $2 WHERE clerk_user_id = $1 RETURNING calendar_token',
+    [clerkUserId, newToken]
+  );
+  return res.rows[0]?.calendar_token ?? null;
+}
+
+export async function getUserIdByCalendarToken(token) {
+  const res = await pool.query('SELECT clerk_user_id FROM users WHERE calendar_token = $1', [token]);
+  return res.rows[0]?.clerk_user_id ?? null;
+}
+
+// password_hash is only selected for sign-in
+const LOCAL_ACCOUNT_COLUMNS = 'id, username, email, email_verified, display_name, created_at';
+
+export async function createLocalAccount({ id, username, email, emailVerified, passwordHash, displayName }) {
+  const res = await pool.query(
+    `INSERT INTO local_accounts (id, username, email, email_verified, password_hash, display_name)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING ${LOCAL_ACCOUNT_COLUMNS}`,
+    [id, username, email, emailVerified, passwordHash, displayName]
+  );
+  return res.rows[0];
+}
+
+export async function getLocalAccount(id) {
+  const res = await pool.query(`SELECT ${LOCAL_ACCOUNT_COLUMNS} FROM local_accounts WHERE id = $1`, [id]);
+  return res.rows[0] || null;
+}
+
+/** Account plus password_hash, for checking a sign-in */
+export async function getLocalAccountForSignIn(username) {
+  const res = await pool.query(
+    `SELECT ${LOCAL_ACCOUNT_COLUMNS}, password_hash FROM local_accounts WHERE username = $1`,
+    [username]
+  );
+  return res.rows[0] || null;
+}
+
+/** Only accounts whose email is verified, like Clerk's email lookup */
+export async function findLocalAccountByEmail(email) {
+  const res = await pool.query(
+    `SELECT ${LOCAL_ACCOUNT_COLUMNS} FROM local_accounts WHERE LOWER(email) = LOWER($1) AND email_verified`,
+    [email]
+  );
+  return res.rows[0] || null;
+}
+
+export async function updateRoomSettings(roomId, settings) {
+  const fields = ROOM_SETTINGS.filter((key) => settings[key] !== undefined);
+  if (fields.length === 0) return getRoom(roomId);
+  const assignments = fields.map((key, i) => `${key} = $${i + 2}`).join(', ');
+  const res = await pool.query(
+    `UPDATE rooms SET ${assignments} WHERE id = $1 RETURNING ${ROOM_COLUMNS}`,
+    [roomId, ...fields.map((key) => settings[key])]
+  );
+  return res.rows[0] || null;
+}
+
+export async function getRoomPasscodeHash(roomId) {
+  const res = await pool.query('SELECT passcode_hash FROM rooms WHERE id = $1', [roomId]);
+  return res.rows[0]?.passcode_hash ?? null;
+}
+
+/** Hand the room to another user; the previous owner is kept on as co-host */
+export async function transferRoomOwnership(roomId, fromUserId, toUserId) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('UPDATE rooms SET created_by = $2 WHERE id = $1', [roomId, toUserId]);
+    await client.query(
+      `INSERT INTO room_members (room_id, user_id, role, granted_by) VALUES ($1, $2, 'owner', $3)
+       ON CONFLICT (room_id, user_id) DO UPDATE SET role = 'owner', granted_by = EXCLUDED.granted_by`,
+      [roomId, toUserId, fromUserId]
+    );
+    await client.query(
+      `UPDATE room_members SET role = 'co-host', granted_by = $3 WHERE room_id = $1 AND user_id = $2`,
+      [roomId, fromUserId, toUserId]
+    );
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
 export async function deleteRoom(roomId, clerkUserId) {
   const res = await pool.query(
-    'DELETE FROM rooms WHERE id = $1 AND created_by = $2 RETURNING id',
+    `DELETE FROM rooms WHERE id = $1 AND EXISTS (
+       SELECT 1 FROM room_members WHERE room_id = $1 AND user_id = $2 AND role = 'owner'
+     ) RETURNING id`,
     [roomId, clerkUserId]
   );
   return res.rowCount > 0;
 }
 
-export async function createRecording(data) {
+export async function getMemberRole(roomId, clerkUserId) {
   const res = await pool.query(
-    `INSERT INTO recordings (user_id, room_id, file_path, duration_seconds, started_at, ended_at)
-     VALUES ($1, $2, $3, $4, $5, $6)
-     RETURNING id, user_id, room_id, file_path, duration_seconds, started_at, ended_at, created_at`,
+    'SELECT role FROM room_members WHERE room_id = $1 AND user_id = $2',
+    [roomId, clerkUserId]
+  );
+  return res.rows[0]?.role ?? null;
+}
+
+export async function listRoomMembers(roomId) {
+  const res = await pool.query(
+    `SELECT room_id, user_id, role, granted_by, created_at FROM room_members
+     WHERE room_id = $1 ORDER BY created_at ASC`,
+    [roomId]
+  );
+  return res.rows;
+}
+
+export async function setMemberRole(roomId, clerkUserId, role, grantedBy) {
+  const res = await pool.query(
+    `INSERT INTO room_members (room_id, user_id, role, granted_by) VALUES ($1, $2, $3, $4)
+     ON CONFLICT (room_id, user_id) DO UPDATE SET role = EXCLUDED.role, granted_by = EXCLUDED.granted_by
+     RETURNING room_id, user_id, role, granted_by, created_at`,
+    [roomId, clerkUserId, role, grantedBy]
+  );
+  return res.rows[0];
+}
+
+export async function removeMember(roomId, clerkUserId) {
+  const res = await pool.query(
+    'DELETE FROM room_members WHERE room_id = $1 AND user_id = $2 RETURNING user_id',
+    [roomId, clerkUserId]
+  );
+  return res.rowCount > 0;
+}
+
+const INVITE_COLUMNS = 'id, room_id, user_id, email, token, max_uses, use_count, expires_at, created_by, created_at';
+
+/** People invited to the room and links that still work (not used up or expired) */
+export async function listRoomInvites(roomId) {
+  const res = await pool.query(
+    `SELECT ${INVITE_COLUMNS} FROM room_invites
+     WHERE room_id = $1
+       AND (token IS NULL OR ((max_uses IS NULL OR use_count < max_uses) AND (expires_at IS NULL OR expires_at > NOW())))
+     ORDER BY created_at`,
+    [roomId]
+  );
+  return res.rows;
+}
+
+/** Invite a person by user id and/or email; inviting the same person again returns the existing row */
+export async function addRoomInvite(roomId, { userId, email }, createdBy) {
+  const conflict = userId
+    ? '(room_id, user_id) WHERE user_id IS NOT NULL'
+    : '(room_id, email) WHERE user_id IS NULL AND email IS NOT NULL';
+  const res = await pool.query(
+    `INSERT INTO room_invites (room_id, user_id, email, created_by) VALUES ($1, $2, $3, $4)
+     ON CONFLICT ${conflict} DO UPDATE SET email = COALESCE(EXCLUDED.email, room_invites.email)
+     RETURNING ${INVITE_COLUMNS}`,
+    [roomId, userId ?? null, email ?? null, createdBy]
+  );
+  return res.rows[0];
+}
+
+export async function createRoomInviteLink(roomId, { token, maxUses, expiresAt }, createdBy) {
+  const res = await pool.query(
+    `INSERT INTO room_invites (room_id, token, max_uses, expires_at, created_by) VALUES ($1, $2, $3, $4, $5)
+     RETURNING ${INVITE_COLUMNS}`,
+    [roomId, token, maxUses, expiresAt, createdBy]
+  );
+  return res.rows[0];
+}
+
+/** Withdraw a personal invite or revoke a link */
+export async function removeRoomInvite(roomId, inviteId) {
+  const res = await pool.query('DELETE FROM room_invites WHERE id = $1 AND room_id = $2', [inviteId, roomId]);
+  return res.rowCount > 0;
+}
+
+/**
+ * Use up one go of an invite link for this user and record them as invited; returns the room id,
+ * or null if the link is unknown, used up or expired. Opening a link again costs nothing.
+ */
+export async function redeemRoomInviteLink(token, clerkUserId) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const link = await client.query(
+      `SELECT id, room_id, max_uses, use_count, created_by FROM room_invites
+       WHERE token = $1 AND (expires_at IS NULL OR expires_at > NOW())
+       FOR UPDATE`,
+      [token]
+    );
+    const invite = link.rows[0];
+    if (!invite) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    const existing = await client.query('SELECT 1 FROM room_invites WHERE room_id = $1 AND user_id = $2', [
+      invite.room_id,
+      clerkUserId,
+    ]);
+    if (existing.rowCount === 0) {
+      if (invite.max_uses !== null && invite.use_count >= invite.max_uses) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+      await client.query('UPDATE room_invites SET use_count = use_count + 1 WHERE id = $1', [invite.id]);
+      await client.query('INSERT INTO room_invites (room_id, user_id, created_by) VALUES ($1, $2, $3)', [
+        invite.room_id,
+        clerkUserId,
+        invite.created_by,
+      ]);
+    }
+    await client.query('COMMIT');
+    return invite.room_id;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+export async function isUserInvited(roomId, clerkUserId) {
+  const res = await pool.query('SELECT 1 FROM room_invites WHERE room_id = $1 AND user_id = $2', [
+    roomId,
+    clerkUserId,
+  ]);
+  return res.rowCount > 0;
+}
+
+/** Emails invited before anyone had signed up with them */
+export async function listPendingEmailInvites(roomId) {
+  const res = await pool.query(
+    'SELECT email FROM room_invites WHERE room_id = $1 AND user_id IS NULL AND email IS NOT NULL',
+    [roomId]
+  );
+  return res.rows.map((r) => r.email);
+}
+
+/** Tie an email invite to the account that turned up with that email */
+export async function claimEmailInvite(roomId, email, clerkUserId) {
+  await pool.query(
+    `UPDATE room_invites SET user_id = $3
+     WHERE room_id = $1 AND email = $2 AND user_id IS NULL
+       AND NOT EXISTS (SELECT 1 FROM room_invites WHERE room_id = $1 AND user_id = $3)`,
+    [roomId, email, clerkUserId]
+  );
+}
+
+// mode: 'local' (the recorder's own camera and mic) or 'composite' (the whole meeting)
+const RECORDING_COLUMNS = `id, user_id, room_id, storage_driver, storage_key, duration_seconds, started_at, ended_at, created_at, mode,
+  processing_status, processing_error, mp4_path, thumbnail_path, title, description, size_bytes::float8 AS size_bytes`;
+
+export async function createRecording(data) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const recording = await insertRecording(client, data);
+    await claimRecordingMarkers(client, recording);
+    await client.query('COMMIT');
+    return recording;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+async function insertRecording(client, data) {
+  const res = await client.query(
+    `INSERT INTO recordings
+       (user_id, room_id, storage_driver, storage_key, duration_seconds, started_at, ended_at, mode, size_bytes,
+        processing_status)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'pending')
+     RETURNING ${RECORDING_COLUMNS}`,
     [
       data.userId,
       data.roomId,
-      data.filePath,
+      data.storageDriver,
+      data.storageKey,
       data.durationSeconds,
       data.startedAt,
       data.endedAt,
+      data.mode ?? 'local',
+      data.sizeBytes ?? 0,
     ]
   );
   return res.rows[0];
@@ -128,29 +464,557 @@ export async function createRecording(data) {
 
 export async function getRecordingById(recordingId) {
   const res = await pool.query(
-    `SELECT id, user_id, room_id, file_path, duration_seconds, started_at, ended_at, created_at
+    `SELECT ${RECORDING_COLUMNS}
      FROM recordings WHERE id = $1`,
     [recordingId]
   );
   return res.rows[0] || null;
 }
 
-export async function getRecordingsByRoom(roomId) {
+/** Recordings in a room that the user may see: their own, shares, and all of them for anyone who belongs to the room */
+export async function getRecordingsByRoom(roomId, clerkUserId) {
   const res = await pool.query(
-    `SELECT id, user_id, room_id, file_path, duration_seconds, started_at, ended_at, created_at
-     FROM recordings WHERE room_id = $1 ORDER BY created_at DESC`,
-    [roomId]
+    `SELECT ${RECORDING_COLUMNS}
+     FROM recordings r
+     WHERE r.room_id = $1 AND (
+       r.user_id = $2
+       OR EXISTS (SELECT 1 FROM recording_shares s WHERE s.recording_id = r.id AND s.user_id = $2)
+       OR EXISTS (SELECT 1 FROM rooms ro WHERE ro.id = r.room_id AND ro.created_by = $2)
+       OR EXISTS (SELECT 1 FROM room_members m WHERE m.room_id = r.room_id AND m.user_id = $2)
+       OR EXISTS (SELECT 1 FROM room_invites i WHERE i.room_id = r.room_id AND i.user_id = $2)
+       OR EXISTS (
+         SELECT 1 FROM attendance a JOIN meeting_sessions ms ON ms.id = a.session_id
+         WHERE ms.room_id = r.room_id AND a.user_id = $2
+       )
+     )
+     ORDER BY r.created_at DESC`,
+    [roomId, clerkUserId]
   );
   return res.rows;
 }
 
 export async function getRecordingsByUser(clerkUserId) {
   const res = await pool.query(
-    `SELECT id, user_id, room_id, file_path, duration_seconds, started_at, ended_at, created_at
+    `SELECT ${RECORDING_COLUMNS}
      FROM recordings WHERE user_id = $1 ORDER BY created_at DESC`,
     [clerkUserId]
   );
   return res.rows;
 }
 
+// Columns the post-processing job may set
+const RECORDING_PROCESSING_FIELDS = ['processing_status', 'processing_error', 'mp4_path', 'thumbnail_path', 'size_bytes'];
+
+export async function updateRecordingProcessing(recordingId, fields) {
+  const entries = Object.entries(fields).filter(([k]) => RECORDING_PROCESSING_FIELDS.includes(k));
+  if (entries.length === 0) return getRecordingById(recordingId);
+  const sets = entries.map(([k], i) => `${k} = $${i + 2}`).join(', ');
+  const res = await pool.query(
+    `UPDATE recordings SET ${sets} WHERE id = $1 RETURNING ${RECORDING_COLUMNS}`,
+    [recordingId, ...entries.map(([, v]) => v)]
+  );
+  return res.rows[0] || null;
+}
+
+export async function updateRecordingDetails(recordingId, { title, description }) {
+  const res = await pool.query(
+    `UPDATE recordings SET title = $2, description = $3 WHERE id = $1 RETURNING ${RECORDING_COLUMNS}`,
+    [recordingId, title, description]
+  );
+  return res.rows[0] || null;
+}
+
+/** Deletes the row and returns the files it referenced, for the caller to remove */
+export async function deleteRecording(recordingId) {
+  const res = await pool.query(
+    'DELETE FROM recordings WHERE id = $1 RETURNING storage_driver, storage_key, mp4_path, thumbnail_path',
+    [recordingId]
+  );
+  return res.rows[0] || null;
+}
+
+/** Stored files of a room's recordings, plus the ids of its unfinished uploads (staged locally) */
+export async function getRoomRecordingFiles(roomId) {
+  const [recordings, uploads] = await Promise.all([
+    pool.query('SELECT storage_driver, storage_key, mp4_path, thumbnail_path FROM recordings WHERE room_id = $1', [
+      roomId,
+    ]),
+    pool.query('SELECT id FROM recording_uploads WHERE room_id = $1', [roomId]),
+  ]);
+  return { recordings: recordings.rows, uploadIds: uploads.rows.map((r) => r.id) };
+}
+
+/** Bytes a user has stored (finished recordings plus uploads in progress) and their quota override */
+export async function getStorageUsage(clerkUserId) {
+  const res = await pool.query(
+    `SELECT
+       (SELECT COALESCE(SUM(size_bytes), 0) FROM recordings WHERE user_id = $1)
+       + (SELECT COALESCE(SUM(bytes_received), 0) FROM recording_uploads WHERE user_id = $1) AS used_bytes,
+       (SELECT recording_quota_bytes FROM users WHERE clerk_user_id = $1) AS quota_bytes`,
+    [clerkUserId]
+  );
+  const row = res.rows[0];
+  return { usedBytes: Number(row.used_bytes), quotaBytes: row.quota_bytes == null ? null : Number(row.quota_bytes) };
+}
+
+/** Recordings past their room's retention period; deletes them and returns their files */
+export async function deleteExpiredRecordings() {
+  const res = await pool.query(
+    `DELETE FROM recordings r USING rooms
+     WHERE rooms.id = r.room_id AND rooms.recording_retention_days IS NOT NULL
+       AND r.created_at < NOW() - make_interval(days => rooms.recording_retention_days)
+     RETURNING r.id, r.room_id, r.user_id, r.storage_driver, r.storage_key, r.mp4_path, r.thumbnail_path`
+  );
+  return res.rows;
+}
+
+/** Upload sessions nobody has touched for a while; returns their ids so the .part files can go */
+export async function deleteAbandonedUploads(olderThanHours) {
+  const res = await pool.query(
+    `DELETE FROM recording_uploads WHERE updated_at < NOW() - make_interval(hours => $1) RETURNING id`,
+    [olderThanHours]
+  );
+  return res.rows.map((r) => r.id);
+}
+
+/** Every key in a storage driver that a recording still points at */
+export async function listReferencedFiles(storageDriver) {
+  const res = await pool.query(
+    `SELECT storage_key AS key FROM recordings WHERE storage_driver = $1
+     UNION ALL SELECT mp4_path FROM recordings WHERE storage_driver = $1 AND mp4_path IS NOT NULL
+     UNION ALL SELECT thumbnail_path FROM recordings WHERE storage_driver = $1 AND thumbnail_path IS NOT NULL`,
+    [storageDriver]
+  );
+  return new Set(res.rows.map((r) => r.key));
+}
+
+export async function listRecordingUploadIds() {
+  const res = await pool.query('SELECT id FROM recording_uploads');
+  return new Set(res.rows.map((r) => r.id));
+}
+
+/** Run fn only if no other instance holds the lock; returns false when skipped */
+export async function withAdvisoryLock(key, fn) {
+  const client = await pool.connect();
+  try {
+    const { rows } = await client.query('SELECT pg_try_advisory_lock(hashtext($1)) AS locked', [key]);
+    if (!rows[0].locked) return false;
+    try {
+      await fn();
+    } finally {
+      await client.query('SELECT pg_advisory_unlock(hashtext($1))', [key]);
+    }
+    return true;
+  } finally {
+    client.release();
+  }
+}
+
+export async function isRecordingSharedWith(recordingId, clerkUserId) {
+  const res = await pool.query(
+    'SELECT 1 FROM recording_shares WHERE recording_id = $1 AND user_id = $2',
+    [recordingId, clerkUserId]
+  );
+  return res.rowCount > 0;
+}
+
+export async function listRecordingShares(recordingId) {
+  const res = await pool.query(
+    `SELECT user_id, email, granted_by, created_at FROM recording_shares
+     WHERE recording_id = $1 ORDER BY created_at`,
+    [recordingId]
+  );
+  return res.rows;
+}
+
+export async function addRecordingShare(recordingId, clerkUserId, email, grantedBy) {
+  const res = await pool.query(
+    `INSERT INTO recording_shares (recording_id, user_id, email, granted_by) VALUES ($1, $2, $3, $4)
+     ON CONFLICT (recording_id, user_id) DO UPDATE SET email = EXCLUDED.email
+     RETURNING user_id, email, granted_by, created_at`,
+    [recordingId, clerkUserId, email, grantedBy]
+  );
+  return res.rows[0];
+}
+
+export async function removeRecordingShare(recordingId, clerkUserId) {
+  const res = await pool.query(
+    'DELETE FROM recording_shares WHERE recording_id = $1 AND user_id = $2',
+    [recordingId, clerkUserId]
+  );
+  return res.rowCount > 0;
+}
+
+const SHARE_LINK_COLUMNS = 'id, recording_id, created_by, expires_at, revoked_at, created_at';
+
+export async function createRecordingShareLink(recordingId, createdBy, expiresAt) {
+  const res = await pool.query(
+    `INSERT INTO recording_share_links (recording_id, created_by, expires_at) VALUES ($1, $2, $3)
+     RETURNING ${SHARE_LINK_COLUMNS}`,
+    [recordingId, createdBy, expiresAt]
+  );
+  return res.rows[0];
+}
+
+/** Links that still work (not revoked or expired) */
+export async function listRecordingShareLinks(recordingId) {
+  const res = await pool.query(
+    `SELECT ${SHARE_LINK_COLUMNS} FROM recording_share_links
+     WHERE recording_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+     ORDER BY created_at`,
+    [recordingId]
+  );
+  return res.rows;
+}
+
+export async function getRecordingShareLink(linkId) {
+  const res = await pool.query(`SELECT ${SHARE_LINK_COLUMNS} FROM recording_share_links WHERE id = $1`, [linkId]);
+  return res.rows[0] || null;
+}
+
+export async function revokeRecordingShareLink(recordingId, linkId) {
+  const res = await pool.query(
+    `UPDATE recording_share_links SET revoked_at = NOW()
+     WHERE id = $1 AND recording_id = $2 AND revoked_at IS NULL`,
+    [linkId, recordingId]
+  );
+  return res.rowCount > 0;
+}
+
+// bytes_received is BIGINT, which pg returns as a string
+const UPLOAD_COLUMNS = `id, user_id, room_id, mode, file_ext, next_chunk, bytes_received::float8 AS bytes_received,
+  created_at, updated_at`;
+
+export async function createRecordingUpload(data) {
+  const res = await pool.query(
+    `INSERT INTO recording_uploads (user_id, room_id, mode, file_ext)
+     VALUES ($1, $2, $3, $4)
+     RETURNING ${UPLOAD_COLUMNS}`,
+    [data.userId, data.roomId, data.mode, data.fileExt]
+  );
+  return res.rows[0];
+}
+
+export async function getRecordingUpload(uploadId) {
+  const res = await pool.query(`SELECT ${UPLOAD_COLUMNS} FROM recording_uploads WHERE id = $1`, [uploadId]);
+  return res.rows[0] || null;
+}
+
+/** Records chunk `index` as stored; null if another request got there first */
+export async function advanceRecordingUpload(uploadId, index, bytesReceived) {
+  const res = await pool.query(
+    `UPDATE recording_uploads
+     SET next_chunk = next_chunk + 1, bytes_received = $3, updated_at = NOW()
+     WHERE id = $1 AND next_chunk = $2
+     RETURNING ${UPLOAD_COLUMNS}`,
+    [uploadId, index, bytesReceived]
+  );
+  return res.rows[0] || null;
+}
+
+/** Turns a finished upload session into a recording; null if the session is already gone */
+export async function completeRecordingUpload(uploadId, data) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const upload = await client.query('SELECT id FROM recording_uploads WHERE id = $1 FOR UPDATE', [uploadId]);
+    if (upload.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    const recording = await insertRecording(client, data);
+    await claimRecordingMarkers(client, recording, uploadId);
+    await client.query('DELETE FROM recording_uploads WHERE id = $1', [uploadId]);
+    await client.query('COMMIT');
+    return recording;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Bookmark whatever each of `recorderIds` (the people recording right now) is recording in the
+ * room; the marker waits until that recording is saved. Returns how many recordings were marked.
+ */
+export async function addRecordingMarkers({ roomId, recorderIds, userId, displayName, label }) {
+  const res = await pool.query(
+    `INSERT INTO recording_markers (room_id, recorder_id, user_id, display_name, label)
+     SELECT $1, recorder_id, $3, $4, $5 FROM unnest($2::text[]) AS recorder_id`,
+    [roomId, recorderIds, userId, displayName, label]
+  );
+  return res.rowCount;
+}
+
+/**
+ * Give a just-saved recording the markers dropped while it was being made: those for its
+ * recorder in its room between its start and end, plus any left on its upload session by an
+ * older version. Offsets compare the server's marker times with the recorder's clock, which is
+ * close enough to land on the right moment.
+ */
+async function claimRecordingMarkers(client, recording, uploadId = null) {
+  await client.query(
+    `UPDATE recording_markers
+     SET recording_id = $1, upload_id = NULL,
+         offset_ms = LEAST(
+           GREATEST(0, ROUND(EXTRACT(EPOCH FROM marked_at - $4::timestamptz) * 1000)),
+           $6::bigint * 1000
+         )
+     WHERE recording_id IS NULL AND (
+       (room_id = $2 AND recorder_id = $3 AND marked_at BETWEEN $4 AND $5)
+       OR upload_id = $7
+     )`,
+    [
+      recording.id,
+      recording.room_id,
+      recording.user_id,
+      recording.started_at,
+      recording.ended_at,
+      recording.duration_seconds,
+      uploadId,
+    ]
+  );
+}
+
+/** Markers no recording claimed, because it was never saved */
+export async function deleteUnclaimedMarkers(olderThanHours) {
+  const res = await pool.query(
+    `DELETE FROM recording_markers
+     WHERE recording_id IS NULL AND marked_at < NOW() - make_interval(hours => $1)`,
+    [olderThanHours]
+  );
+  return res.rowCount;
+}
+
+export async function getRecordingMarkers(recordingId) {
+  const res = await pool.query(
+    `SELECT id, recording_id, user_id, display_name, label, offset_ms, marked_at
+     FROM recording_markers WHERE recording_id = $1
+     ORDER BY offset_ms, marked_at`,
+    [recordingId]
+  );
+  return res.rows;
+}
+
+export async function deleteRecordingUpload(uploadId) {
+  const res = await pool.query('DELETE FROM recording_uploads WHERE id = $1 RETURNING id', [uploadId]);
+  return res.rowCount > 0;
+}
+
+export async function enqueueJob(type, payload, options = {}) {
+  const res = await pool.query(
+    `INSERT INTO jobs (type, payload, max_attempts) VALUES ($1, $2, $3) RETURNING id`,
+    [type, JSON.stringify(payload), options.maxAttempts ?? 3]
+  );
+  return res.rows[0].id;
+}
+
+/** Lock the oldest due job for this worker; SKIP LOCKED keeps concurrent workers apart */
+export async function claimNextJob(workerId) {
+  const res = await pool.query(
+    `UPDATE jobs SET status = 'running', attempts = attempts + 1, locked_by = $1, locked_at = NOW(), updated_at = NOW()
+     WHERE id = (
+       SELECT id FROM jobs WHERE status = 'queued' AND run_at <= NOW()
+       ORDER BY run_at FOR UPDATE SKIP LOCKED LIMIT 1
+     )
+     RETURNING id, type, payload, attempts, max_attempts`,
+    [workerId]
+  );
+  return res.rows[0] || null;
+}
+
+export async function completeJob(jobId) {
+  await pool.query(
+    `UPDATE jobs SET status = 'done', locked_by = NULL, locked_at = NULL, updated_at = NOW() WHERE id = $1`,
+    [jobId]
+  );
+}
+
+/** Requeue with a delay, or mark failed once attempts run out. Returns true if it will be retried. */
+export async function failJob(jobId, error, retryDelaySeconds) {
+  const res = await pool.query(
+    `UPDATE jobs SET
+       status = CASE WHEN attempts < max_attempts THEN 'queued' ELSE 'failed' END,
+       run_at = NOW() + make_interval(secs => $3),
+       last_error = $2, locked_by = NULL, locked_at = NULL, updated_at = NOW()
+     WHERE id = $1
+     RETURNING status`,
+    [jobId, error, retryDelaySeconds]
+  );
+  return res.rows[0]?.status === 'queued';
+}
+
+/** Jobs left 'running' by a worker that crashed or restarted go back on the queue */
+export async function requeueStaleJobs(workerId, staleAfterSeconds) {
+  const res = await pool.query(
+    `UPDATE jobs SET status = 'queued', locked_by = NULL, locked_at = NULL, updated_at = NOW()
+     WHERE status = 'running' AND (locked_by = $1 OR locked_at < NOW() - make_interval(secs => $2))`,
+    [workerId, staleAfterSeconds]
+  );
+  return res.rowCount;
+}
+
+export async function createMessage(data) {
+  const res = await pool.query(
+    `INSERT INTO messages (room_id, user_id, display_name, body)
+     VALUES ($1, $2, $3, $4)
+     RETURNING id, room_id, user_id, display_name, body, created_at`,
+    [data.roomId, data.userId, data.displayName ?? null, data.body]
+  );
+  return res.rows[0];
+}
+
+export async function getMessagesByRoom(roomId, limit = 200) {
+  // Newest `limit` messages, returned oldest first for display
+  const res = await pool.query(
+    `SELECT id, room_id, user_id, display_name, body, created_at FROM (
+       SELECT id, room_id, user_id, display_name, body, created_at
+       FROM messages WHERE room_id = $1 ORDER BY created_at DESC LIMIT $2
+     ) recent ORDER BY created_at ASC`,
+    [roomId, limit]
+  );
+  return res.rows;
+}
+
+/** Ends a session once nobody is left in it; call with the session row locked */
+async function endSessionIfEmpty(client, sessionId) {
+  await client.query(
+    `UPDATE meeting_sessions SET ended_at = NOW()
+     WHERE id = $1 AND ended_at IS NULL
+       AND NOT EXISTS (SELECT 1 FROM attendance WHERE session_id = $1 AND left_at IS NULL)`,
+    [sessionId]
+  );
+}
+
+/**
+ * Record someone entering the call, opening a session if the room has none. Admitting a socket
+ * that is already in keeps its existing row.
+ */
+export async function startAttendance({ roomId, socketId, userId, displayName, nodeId }) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    let session = null;
+    // A second pass covers the open session ending between our insert and our lock
+    for (let attempt = 0; !session && attempt < 2; attempt++) {
+      await client.query(
+        `INSERT INTO meeting_sessions (room_id) VALUES ($1)
+         ON CONFLICT (room_id) WHERE ended_at IS NULL DO NOTHING`,
+        [roomId]
+      );
+      const res = await client.query(
+        'SELECT id FROM meeting_sessions WHERE room_id = $1 AND ended_at IS NULL FOR UPDATE',
+        [roomId]
+      );
+      session = res.rows[0] || null;
+    }
+    if (!session) throw new Error(`Could not open a meeting session for room ${roomId}`);
+    await client.query(
+      `INSERT INTO attendance (session_id, user_id, display_name, socket_id, node_id)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (socket_id) WHERE left_at IS NULL DO NOTHING`,
+      [session.id, userId, displayName ?? null, socketId, nodeId]
+    );
+    await client.query('COMMIT');
+    return session.id;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/** Record a socket leaving the call; the session ends with its last attendee */
+export async function endAttendance(socketId, reason) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const open = await client.query('SELECT session_id FROM attendance WHERE socket_id = $1 AND left_at IS NULL', [
+      socketId,
+    ]);
+    const sessionId = open.rows[0]?.session_id;
+    if (!sessionId) {
+      await client.query('ROLLBACK');
+      return;
+    }
+    // Same lock order as startAttendance: session first, then its attendance
+    await client.query('SELECT id FROM meeting_sessions WHERE id = $1 FOR UPDATE', [sessionId]);
+    await client.query(
+      'UPDATE attendance SET left_at = NOW(), leave_reason = $2 WHERE socket_id = $1 AND left_at IS NULL',
+      [socketId, reason]
+    );
+    await endSessionIfEmpty(client, sessionId);
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/** Close attendance a previous run of this node left open, along with sessions that empties */
+export async function closeNodeAttendance(nodeId) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const res = await client.query(
+      `SELECT DISTINCT session_id FROM attendance WHERE node_id = $1 AND left_at IS NULL`,
+      [nodeId]
+    );
+    const sessionIds = res.rows.map((r) => r.session_id);
+    if (sessionIds.length > 0) {
+      await client.query('SELECT id FROM meeting_sessions WHERE id = ANY($1) ORDER BY id FOR UPDATE', [sessionIds]);
+      await client.query(
+        `UPDATE attendance SET left_at = NOW(), leave_reason = 'server-restart'
+         WHERE node_id = $1 AND left_at IS NULL`,
+        [nodeId]
+      );
+      for (const sessionId of sessionIds) await endSessionIfEmpty(client, sessionId);
+    }
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/** True when the user has been in the room's call at least once (and, with `since`, was still there then) */
+export async function hasAttended(roomId, userId, { since = null } = {}) {
+  const res = await pool.query(
+    `SELECT 1 FROM attendance a JOIN meeting_sessions s ON s.id = a.session_id
+     WHERE s.room_id = $1 AND a.user_id = $2
+       AND ($3::timestamptz IS NULL OR a.left_at IS NULL OR a.left_at >= $3)
+     LIMIT 1`,
+    [roomId, userId, since]
+  );
+  return res.rowCount > 0;
+}
+
+/** A room's sessions, newest first, each with its attendance in join order */
+export async function listMeetingSessions(roomId, { limit = 50, sessionId = null } = {}) {
+  const sessions = await pool.query(
+    `SELECT id, room_id, started_at, ended_at FROM meeting_sessions
+     WHERE room_id = $1 AND ($2::uuid IS NULL OR id = $2)
+     ORDER BY started_at DESC LIMIT $3`,
+    [roomId, sessionId, limit]
+  );
+  if (sessions.rows.length === 0) return [];
+  const attendance = await pool.query(
+    `SELECT id, session_id, user_id, display_name, joined_at, left_at, leave_reason
+     FROM attendance WHERE session_id = ANY($1)
+     ORDER BY joined_at`,
+    [sessions.rows.map((s) => s.id)]
+  );
+  return sessions.rows.map((s) => ({
+    ...s,
+    attendance: attendance.rows.filter((a) => a.session_id === s.id),
+  }));
+}
+
 export { pool };
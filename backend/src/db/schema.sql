@@ -23,7 +23,7 @@ CREATE TABLE IF NOT EXISTS recordings (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   user_id TEXT NOT NULL REFERENCES users(clerk_user_id),
   room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
-  file_path TEXT NOT NULL,
+  storage_key TEXT NOT NULL,
   duration_seconds INTEGER NOT NULL,
   started_at TIMESTAMPTZ NOT NULL,
   ended_at TIMESTAMPTZ NOT NULL,
@@ -32,3 +32,283 @@ CREATE TABLE IF NOT EXISTS recordings (
 
 CREATE INDEX IF NOT EXISTS idx_recordings_room ON recordings(room_id);
 CREATE INDEX IF NOT EXISTS idx_recordings_user ON recordings(user_id);
+
+-- In-meeting chat messages
+CREATE TABLE IF NOT EXISTS messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  display_name TEXT,
+  body TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_room_created ON messages(room_id, created_at);
+
+-- Room membership and roles (owner, co-host, member, viewer)
+CREATE TABLE IF NOT EXISTS room_members (
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'co-host', 'member', 'viewer')),
+  granted_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (room_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_members_user ON room_members(user_id);
+
+-- Migration: every existing room's creator becomes its owner
+INSERT INTO room_members (room_id, user_id, role)
+SELECT id, created_by, 'owner' FROM rooms
+ON CONFLICT (room_id, user_id) DO NOTHING;
+
+-- Absent-host behaviour: what happens to joiners when no owner/co-host is in the call
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS absent_host_policy TEXT NOT NULL DEFAULT 'lobby';
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS lobby_timeout_seconds INTEGER NOT NULL DEFAULT 300;
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS promote_on_host_leave BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Admission policy: open (no lobby), lobby (manual approval), locked (nobody new)
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS admission_policy TEXT NOT NULL DEFAULT 'lobby';
+-- Email domains whose users are admitted without waiting in the lobby
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS allowed_domains TEXT[] NOT NULL DEFAULT '{}';
+-- Optional passcode, stored as scrypt "salt:hash"
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS passcode_hash TEXT;
+
+-- Shared signaling state (STATE_STORE=postgres). Rows belong to the backend node holding
+-- the socket (node_id) so a restarted node can drop what its old sockets left behind.
+CREATE TABLE IF NOT EXISTS signaling_participants (
+  socket_id TEXT PRIMARY KEY,
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  display_name TEXT,
+  role TEXT NOT NULL,
+  is_muted BOOLEAN NOT NULL DEFAULT FALSE,
+  is_video_off BOOLEAN NOT NULL DEFAULT FALSE,
+  is_sharing_screen BOOLEAN NOT NULL DEFAULT FALSE,
+  node_id TEXT NOT NULL,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_signaling_participants_room ON signaling_participants(room_id);
+
+CREATE TABLE IF NOT EXISTS signaling_lobby (
+  socket_id TEXT PRIMARY KEY,
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  display_name TEXT,
+  node_id TEXT NOT NULL,
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_signaling_lobby_room ON signaling_lobby(room_id, requested_at);
+
+-- seq keeps the raise-hand queue in order
+CREATE TABLE IF NOT EXISTS signaling_hands (
+  seq BIGSERIAL,
+  socket_id TEXT PRIMARY KEY,
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  display_name TEXT,
+  node_id TEXT NOT NULL,
+  raised_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_signaling_hands_room ON signaling_hands(room_id, seq);
+
+-- Socket.IO Postgres adapter: payloads too large for NOTIFY
+CREATE TABLE IF NOT EXISTS socket_io_attachments (
+  id BIGSERIAL UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  payload BYTEA
+);
+
+-- Recording mode: 'local' (recorder's own camera/mic) or 'composite' (whole meeting)
+ALTER TABLE recordings ADD COLUMN IF NOT EXISTS mode TEXT NOT NULL DEFAULT 'local';
+
+-- Resumable recording uploads: chunks are appended to a .part file in order
+-- until the client finalizes, which turns the session into a recording
+CREATE TABLE IF NOT EXISTS recording_uploads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES users(clerk_user_id),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  mode TEXT NOT NULL DEFAULT 'local',
+  file_ext TEXT NOT NULL DEFAULT '.webm',
+  next_chunk INTEGER NOT NULL DEFAULT 0,
+  bytes_received BIGINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_recording_uploads_user ON recording_uploads(user_id);
+
+-- Background jobs (recording post-processing). Workers claim with SKIP LOCKED, so any
+-- number of backend instances can share the queue.
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_by TEXT,
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_jobs_queued ON jobs(run_at) WHERE status = 'queued';
+
+-- Post-processing results: status is pending -> processing -> ready | failed.
+-- Recordings from before the pipeline existed are left as they are ('ready').
+ALTER TABLE recordings ADD COLUMN IF NOT EXISTS processing_status TEXT NOT NULL DEFAULT 'ready';
+ALTER TABLE recordings ADD COLUMN IF NOT EXISTS processing_error TEXT;
+ALTER TABLE recordings ADD COLUMN IF NOT EXISTS mp4_path TEXT;
+ALTER TABLE recordings ADD COLUMN IF NOT EXISTS thumbnail_path TEXT;
+
+-- Recording access: besides the uploader and room members, people it was shared with
+CREATE TABLE IF NOT EXISTS recording_shares (
+  recording_id UUID NOT NULL REFERENCES recordings(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  email TEXT,
+  granted_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (recording_id, user_id)
+);
+
+-- Expiring public links; the signed token carries the id and expiry, this row makes it revocable
+CREATE TABLE IF NOT EXISTS recording_share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recording_id UUID NOT NULL REFERENCES recordings(id) ON DELETE CASCADE,
+  created_by TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_recording_share_links_recording ON recording_share_links(recording_id);
+
+-- Recording management: labels, on-disk size (all renditions) for quotas, per-room retention
+ALTER TABLE recordings ADD COLUMN IF NOT EXISTS title TEXT;
+ALTER TABLE recordings ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE recordings ADD COLUMN IF NOT EXISTS size_bytes BIGINT NOT NULL DEFAULT 0;
+CREATE INDEX IF NOT EXISTS idx_recordings_created ON recordings(created_at);
+-- NULL keeps recordings forever
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS recording_retention_days INTEGER;
+-- NULL uses the RECORDING_QUOTA_MB default
+ALTER TABLE users ADD COLUMN IF NOT EXISTS recording_quota_bytes BIGINT;
+
+-- Pluggable storage: a recording is a key within the driver it was stored with (local disk or
+-- S3); mp4_path and thumbnail_path are keys in the same driver
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns WHERE table_name = 'recordings' AND column_name = 'file_path'
+  ) THEN
+    ALTER TABLE recordings RENAME COLUMN file_path TO storage_key;
+  END IF;
+END $$;
+ALTER TABLE recordings ADD COLUMN IF NOT EXISTS storage_driver TEXT NOT NULL DEFAULT 'local';
+
+-- Recording notices: who is recording right now, and rooms that need a host's OK first
+ALTER TABLE signaling_participants ADD COLUMN IF NOT EXISTS is_recording BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE signaling_participants ADD COLUMN IF NOT EXISTS recording_requested BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE signaling_participants ADD COLUMN IF NOT EXISTS recording_approved BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS recording_requires_approval BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Bookmarks dropped during a call. Until the recording is saved a marker has no recording_id;
+-- saving it fills that in along with the marker's offset.
+CREATE TABLE IF NOT EXISTS recording_markers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recording_id UUID REFERENCES recordings(id) ON DELETE CASCADE,
+  upload_id UUID REFERENCES recording_uploads(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  display_name TEXT,
+  label TEXT NOT NULL,
+  marked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Milliseconds from the recording's started_at; set once the recording exists
+  offset_ms INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_recording_markers_recording ON recording_markers(recording_id, offset_ms);
+CREATE INDEX IF NOT EXISTS idx_recording_markers_upload ON recording_markers(upload_id);
+
+-- Scheduled meetings: first start, length and IANA time zone, plus an optional RRULE
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS scheduled_start TIMESTAMPTZ;
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS duration_minutes INTEGER;
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS time_zone TEXT;
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS recurrence_rule TEXT;
+-- Secret in each user's calendar feed URL; calendar apps can't sign in, so the URL is the credential
+ALTER TABLE users ADD COLUMN IF NOT EXISTS calendar_token TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_calendar_token ON users(calendar_token) WHERE calendar_token IS NOT NULL;
+
+-- Invitations that skip the lobby. A row is either a person (user_id, or just email until
+-- someone signs up with it) or a /join/:token link; opening a link adds the person as an invitee.
+CREATE TABLE IF NOT EXISTS room_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id TEXT,
+  email TEXT,
+  token TEXT UNIQUE,
+  -- Links only: NULL means unlimited uses / never expires
+  max_uses INTEGER,
+  use_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_room_invites_user ON room_invites(room_id, user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_room_invites_email ON room_invites(room_id, email) WHERE user_id IS NULL AND email IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_room_invites_invitee ON room_invites(user_id) WHERE user_id IS NOT NULL;
+
+-- Accounts for AUTH_PROVIDER=local; id is the user id stored everywhere else. Nothing sends
+-- mail here, so email_verified is set by an admin (or AUTH_TRUST_EMAILS) and gates domain
+-- allowlists and email invites like a verified Clerk address.
+CREATE TABLE IF NOT EXISTS local_accounts (
+  id TEXT PRIMARY KEY,
+  username TEXT NOT NULL UNIQUE,
+  email TEXT,
+  email_verified BOOLEAN NOT NULL DEFAULT false,
+  password_hash TEXT NOT NULL,
+  display_name TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_local_accounts_email ON local_accounts(LOWER(email)) WHERE email IS NOT NULL;
+
+-- Attendance: a session runs from the first admission into an empty call until the last person
+-- leaves; each stint in the call is one attendance row (rejoining adds another)
+CREATE TABLE IF NOT EXISTS meeting_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ended_at TIMESTAMPTZ
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meeting_sessions_open ON meeting_sessions(room_id) WHERE ended_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_meeting_sessions_room ON meeting_sessions(room_id, started_at DESC);
+
+CREATE TABLE IF NOT EXISTS attendance (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES meeting_sessions(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  display_name TEXT,
+  socket_id TEXT NOT NULL,
+  -- Backend instance holding the socket, so a restarted node can close what it left open
+  node_id TEXT NOT NULL,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  left_at TIMESTAMPTZ,
+  -- left, disconnected, kicked or server-restart
+  leave_reason TEXT
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_open_socket ON attendance(socket_id) WHERE left_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_attendance_session ON attendance(session_id, joined_at);
+
+-- Passcode guesses per room, keyed by user and by client address, counted in a fixed window so
+-- reconnecting or minting new guest passes doesn't reset them (STATE_STORE=postgres)
+CREATE TABLE IF NOT EXISTS signaling_passcode_attempts (
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  attempt_key TEXT NOT NULL,
+  attempts INTEGER NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (room_id, attempt_key)
+);
+
+-- Markers are matched to the recording they fall into by who is recording, where and when, so
+-- they reach recordings from either upload path and never an old or abandoned upload session
+ALTER TABLE recording_markers ADD COLUMN IF NOT EXISTS room_id UUID REFERENCES rooms(id) ON DELETE CASCADE;
+ALTER TABLE recording_markers ADD COLUMN IF NOT EXISTS recorder_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_recording_markers_pending
+  ON recording_markers(room_id, recorder_id, marked_at) WHERE recording_id IS NULL;
@@ -4,11 +4,17 @@ import cors from 'cors';
 import rateLimit from 'express-rate-limit';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { setupClerk } from './auth.js';
+import { setupAuth, AUTH_PROVIDER } from './auth/index.js';
 import { initDb } from './db/index.js';
 import roomsRouter from './routes/rooms.js';
 import recordingsRouter from './routes/recordings.js';
-import { setupSignaling } from './signaling.js';
+import iceServersRouter from './routes/iceServers.js';
+import calendarRouter from './routes/calendar.js';
+import authRouter from './routes/auth.js';
+import { setupSignaling, resetSignalingState } from './signaling.js';
+import { startJobWorker } from './jobs/index.js';
+import { createRecordingProcessor } from './jobs/processRecording.js';
+import { startRetentionSweeper } from './jobs/retention.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const PORT = parseInt(process.env.PORT || '5000', 10);
@@ -26,22 +32,33 @@ const apiLimiter = rateLimit({
   windowMs: 15 * 60 * 1000,
   max: 200,
   standardHeaders: true,
+  // Recording chunks arrive every second and have their own limiter; video players issue a
+  // Range request for every seek on token-authenticated stream and share-link URLs
+  skip: (req) =>
+    (req.method === 'PUT' && req.path.startsWith('/recordings/uploads/')) ||
+    (req.method === 'GET' && /^\/recordings\/(shared\/[^/]+|[^/]+\/stream)$/.test(req.path)),
 });
 app.use('/api', apiLimiter);
 
 app.get('/health', (req, res) => res.json({ status: 'ok' }));
 
-setupClerk(app);
+setupAuth(app);
 
 const io = setupSignaling(httpServer);
 app.set('io', io);
 
 app.use('/api/rooms', roomsRouter);
 app.use('/api/recordings', recordingsRouter);
+app.use('/api/ice-servers', iceServersRouter);
+app.use('/api/calendar', calendarRouter);
+if (AUTH_PROVIDER === 'local') app.use('/api/auth', authRouter);
 
 async function start() {
   try {
     await initDb();
+    await resetSignalingState();
+    startJobWorker({ 'process-recording': createRecordingProcessor(io) });
+    startRetentionSweeper(io);
   } catch (e) {
     console.error('DB init error:', e);
   }
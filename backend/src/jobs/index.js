@@ -0,0 +1,56 @@
+import { claimNextJob, completeJob, failJob, requeueStaleJobs } from '../db/index.js';
+import { NODE_ID } from '../state/index.js';
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000', 10);
+// Longer than any job may run (ffmpeg is capped well below this)
+const STALE_AFTER_SECONDS = 3 * 60 * 60;
+const RETRY_BASE_SECONDS = 30;
+
+/**
+ * Polls the jobs table and runs one job at a time. `handlers` maps a job type to
+ * { run(payload), onFailed?(payload, error) }; onFailed runs once retries are exhausted.
+ * JOB_WORKER=off leaves this instance out of processing (e.g. on signaling-only replicas).
+ */
+export function startJobWorker(handlers) {
+  if (process.env.JOB_WORKER === 'off') return () => {};
+
+  let stopped = false;
+  let timer = null;
+
+  async function runNext() {
+    const job = await claimNextJob(NODE_ID);
+    if (!job) return false;
+    const handler = handlers[job.type];
+    try {
+      if (!handler) throw new Error(`No handler for job type "${job.type}"`);
+      await handler.run(job.payload);
+      await completeJob(job.id);
+    } catch (err) {
+      console.error(`Job ${job.id} (${job.type}) failed, attempt ${job.attempts}/${job.max_attempts}:`, err);
+      const delay = RETRY_BASE_SECONDS * 2 ** (job.attempts - 1);
+      const willRetry = await failJob(job.id, String(err?.message || err), delay);
+      if (!willRetry) await handler?.onFailed?.(job.payload, err);
+    }
+    return true;
+  }
+
+  async function poll() {
+    try {
+      // Drain everything that is due before sleeping again
+      while (!stopped && (await runNext()));
+    } catch (err) {
+      console.error('Job worker error:', err);
+    }
+    if (!stopped) timer = setTimeout(poll, POLL_INTERVAL_MS);
+  }
+
+  requeueStaleJobs(NODE_ID, STALE_AFTER_SECONDS)
+    .then((n) => n > 0 && console.log(`Requeued ${n} interrupted job(s)`))
+    .catch((err) => console.error('Failed to requeue stale jobs:', err))
+    .finally(poll);
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
@@ -0,0 +1,128 @@
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getRecordingById, updateRecordingProcessing } from '../db/index.js';
+import { getStorage, withLocalCopy, contentTypeFor } from '../storage/index.js';
+import { emitToRecordingViewers } from '../recordingAccess.js';
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const FFMPEG_TIMEOUT_MS = parseInt(process.env.FFMPEG_TIMEOUT_MS || String(60 * 60 * 1000), 10);
+const THUMBNAIL_WIDTH = 320;
+
+function ffmpeg(args) {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(FFMPEG_PATH, ['-hide_banner', '-loglevel', 'error', '-y', ...args], {
+      stdio: ['ignore', 'ignore', 'pipe'],
+      timeout: FFMPEG_TIMEOUT_MS,
+    });
+    let stderr = '';
+    proc.stderr.on('data', (d) => {
+      // Keep the tail; that's where ffmpeg reports what went wrong
+      stderr = (stderr + d).slice(-2000);
+    });
+    proc.on('error', reject);
+    proc.on('close', (code, signal) => {
+      if (code === 0) return resolve();
+      reject(new Error(`ffmpeg exited with ${signal || code}: ${stderr.trim()}`));
+    });
+  });
+}
+
+/**
+ * Post-processing for a saved recording:
+ *  - remux the original so it has a duration and cues (MediaRecorder WebM has neither,
+ *    which breaks seeking), moving the moov atom up front for MP4 sources
+ *  - transcode an H.264/AAC MP4 rendition for players and downloads that can't do WebM
+ *  - grab a poster thumbnail
+ * Everything is produced in a scratch directory and only stored once every step succeeded, so
+ * a retry after a failure starts clean and the original stays playable throughout.
+ */
+export function createRecordingProcessor(io) {
+  // Best effort: a missed notification only means viewers see the change on their next refresh
+  const announce = (recording) => {
+    emitToRecordingViewers(io, recording, 'recording-updated').catch((err) =>
+      console.error('Failed to announce recording update:', err)
+    );
+  };
+
+  return {
+    async run({ recordingId }) {
+      const recording = await getRecordingById(recordingId);
+      // Deleted before we got to it
+      if (!recording) return;
+      announce(await updateRecordingProcessing(recordingId, { processing_status: 'processing' }));
+
+      const storage = getStorage(recording.storage_driver);
+      const key = recording.storage_key;
+      const ext = path.extname(key).toLowerCase();
+      const base = key.slice(0, -ext.length);
+      const mp4Key = ext === '.mp4' ? key : `${base}.mp4`;
+      const thumbnailKey = `${base}.jpg`;
+
+      const work = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'recording-'));
+      try {
+        const remuxed = path.join(work, `original${ext}`);
+        const mp4 = path.join(work, 'rendition.mp4');
+        const thumbnail = path.join(work, 'thumbnail.jpg');
+
+        await withLocalCopy(storage, key, (source) =>
+          ffmpeg(['-i', source, '-c', 'copy', ...(ext === '.mp4' ? ['-movflags', '+faststart'] : []), remuxed])
+        );
+
+        if (ext !== '.mp4') {
+          await ffmpeg([
+            '-i', remuxed,
+            '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-pix_fmt', 'yuv420p',
+            // Canvas and camera sizes can be odd; H.264 needs even dimensions
+            '-vf', 'scale=trunc(iw/2)*2:trunc(ih/2)*2',
+            '-c:a', 'aac', '-b:a', '128k',
+            '-movflags', '+faststart',
+            mp4,
+          ]);
+        }
+
+        // A second in skips the black first frame; very short clips use their midpoint
+        const seek = Math.min(1, (recording.duration_seconds || 0) / 2);
+        await ffmpeg([
+          '-ss', String(seek),
+          '-i', remuxed,
+          '-frames:v', '1',
+          '-update', '1',
+          '-vf', `scale=${THUMBNAIL_WIDTH}:-2`,
+          thumbnail,
+        ]);
+
+        // Quotas count every rendition
+        const outputs = ext === '.mp4' ? [remuxed, thumbnail] : [remuxed, mp4, thumbnail];
+        const sizes = await Promise.all(outputs.map((f) => fs.promises.stat(f).then((stat) => stat.size)));
+
+        if (ext !== '.mp4') await storage.putFile(mp4Key, mp4, { contentType: contentTypeFor(mp4Key) });
+        await storage.putFile(thumbnailKey, thumbnail, { contentType: contentTypeFor(thumbnailKey) });
+        await storage.putFile(key, remuxed, { contentType: contentTypeFor(key) });
+
+        announce(
+          await updateRecordingProcessing(recordingId, {
+            processing_status: 'ready',
+            processing_error: null,
+            mp4_path: mp4Key,
+            thumbnail_path: thumbnailKey,
+            size_bytes: sizes.reduce((sum, size) => sum + size, 0),
+          })
+        );
+      } finally {
+        await fs.promises.rm(work, { recursive: true, force: true });
+      }
+    },
+
+    async onFailed({ recordingId }, err) {
+      // The original upload is untouched by a failed step, so it stays playable
+      announce(
+        await updateRecordingProcessing(recordingId, {
+          processing_status: 'failed',
+          processing_error: String(err?.message || err).slice(0, 500),
+        })
+      );
+    },
+  };
+}
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  deleteExpiredRecordings,
+  deleteAbandonedUploads,
+  deleteUnclaimedMarkers,
+  listReferencedFiles,
+  listRecordingUploadIds,
+  withAdvisoryLock,
+} from '../db/index.js';
+import { uploadDir, removeUploads } from '../uploads.js';
+import { getStorage, removeStoredFiles, removeRecordingFiles, STORAGE_DRIVER } from '../storage/index.js';
+import { isRecordingKey } from '../storage/keys.js';
+import { emitToRecordingViewers } from '../recordingAccess.js';
+
+const SWEEP_INTERVAL_MS = parseInt(process.env.RETENTION_SWEEP_INTERVAL_MS || String(60 * 60 * 1000), 10);
+// A client that hasn't sent a chunk in a week isn't coming back for that upload
+const ABANDONED_UPLOAD_HOURS = 7 * 24;
+// Files are stored a moment before the row that points at them is written (and processing
+// can take up to FFMPEG_TIMEOUT_MS), so only files left alone for a day count as orphans
+const ORPHAN_AFTER_MS = 24 * 60 * 60 * 1000;
+
+let warnedUnprefixedBucket = false;
+
+/**
+ * Recording-shaped objects in a storage driver that no recording points at. Other files are
+ * never touched, and a bucket shared without S3_PREFIX isn't swept at all.
+ */
+async function removeOrphanedObjects(driverId) {
+  const storage = getStorage(driverId);
+  if (driverId === 's3' && !storage.prefix) {
+    if (!warnedUnprefixedBucket) {
+      console.warn('Set S3_PREFIX to let the retention sweep remove orphaned recording files from the bucket');
+      warnedUnprefixedBucket = true;
+    }
+    return 0;
+  }
+  const referenced = await listReferencedFiles(driverId);
+  const orphans = [];
+  for await (const { key, mtime } of storage.list()) {
+    if (!isRecordingKey(key) || referenced.has(key)) continue;
+    if (Date.now() - mtime.getTime() > ORPHAN_AFTER_MS) orphans.push(key);
+  }
+  await removeStoredFiles(driverId, orphans);
+  return orphans.length;
+}
+
+/** Staged .part files whose upload session no longer exists */
+async function removeOrphanedParts() {
+  const uploadIds = await listRecordingUploadIds();
+  const orphans = [];
+  for (const name of await fs.promises.readdir(uploadDir)) {
+    if (!name.endsWith('.part') || uploadIds.has(name.slice(0, -'.part'.length))) continue;
+    const stat = await fs.promises.stat(path.join(uploadDir, name)).catch(() => null);
+    if (stat?.isFile() && Date.now() - stat.mtimeMs > ORPHAN_AFTER_MS) orphans.push(name);
+  }
+  await removeUploads(orphans);
+  return orphans.length;
+}
+
+async function sweep(io) {
+  const expired = await deleteExpiredRecordings();
+  await removeRecordingFiles(expired);
+  // Their shares are gone by now; the people who belong to the room still hear about it
+  for (const r of expired) await emitToRecordingViewers(io, r, 'recording-deleted', { id: r.id });
+
+  const abandoned = await deleteAbandonedUploads(ABANDONED_UPLOAD_HOURS);
+  await removeUploads(abandoned.map((id) => `${id}.part`));
+  await deleteUnclaimedMarkers(ABANDONED_UPLOAD_HOURS);
+
+  // Local disk always holds the staged uploads; the configured driver holds new recordings
+  let orphans = await removeOrphanedParts();
+  for (const driverId of new Set(['local', STORAGE_DRIVER])) orphans += await removeOrphanedObjects(driverId);
+  if (expired.length || abandoned.length || orphans) {
+    console.log(
+      `Retention sweep removed ${expired.length} expired recording(s), ${abandoned.length} abandoned upload(s), ${orphans} orphaned file(s)`
+    );
+  }
+}
+
+/**
+ * Periodically deletes recordings past their room's retention period, upload sessions that
+ * were never finished, and files in the upload directory that no row refers to (e.g. left
+ * behind by a crash). An advisory lock keeps replicas from sweeping at the same time;
+ * JOB_WORKER=off opts an instance out, as for the job queue.
+ */
+export function startRetentionSweeper(io) {
+  if (process.env.JOB_WORKER === 'off') return () => {};
+
+  const run = () =>
+    withAdvisoryLock('recording-retention', () => sweep(io)).catch((err) => {
+      console.error('Retention sweep failed:', err);
+    });
+
+  run();
+  const timer = setInterval(run, SWEEP_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,23 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt);
+
+const KEY_LENGTH = 32;
+
+/** Hash a room passcode as "salt:hash" (scrypt); the plain passcode is never stored */
+export function hashPasscode(passcode) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(String(passcode), salt, KEY_LENGTH).toString('hex');
+  return `${salt}:${hash}`;
+}
+
+/** Resolves true when the passcode matches; runs scrypt off the event loop since guesses are cheap to send */
+export async function verifyPasscode(passcode, stored) {
+  if (!stored || typeof passcode !== 'string') return false;
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(passcode, salt, KEY_LENGTH);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,60 @@
+import { getMemberRole, getRoom, isRecordingSharedWith, hasAttended } from './db/index.js';
+import { isModerator } from './roles.js';
+import { belongsToRoom } from './roomAccess.js';
+import { isInCall } from './signaling.js';
+import { isGuestUserId } from './shareLinks.js';
+
+/**
+ * Who may see a recording: the uploader, anyone who belongs to the room (see belongsToRoom),
+ * and people it was shared with. Managing it (sharing, links) is limited to the uploader and the room's owner
+ * and co-hosts; editing and deleting it to the uploader and the owner.
+ */
+export async function getRecordingAccess(recording, userId) {
+  const role = await getMemberRole(recording.room_id, userId);
+  const isUploader = recording.user_id === userId;
+  const canManage = isUploader || isModerator(role);
+  const canEdit = isUploader || role === 'owner';
+  const canView =
+    canManage ||
+    !!role ||
+    (await isRecordingSharedWith(recording.id, userId)) ||
+    (await belongsToRoom(await getRoom(recording.room_id), userId));
+  return { canView, canManage, canEdit };
+}
+
+/**
+ * Who may store a recording in a room, matching what signaling lets start one: anyone with a
+ * role other than viewer, or whoever is in the call. Uploads finished after leaving pass `since`
+ * (when the recording started) and are accepted from someone who was in the call at that time.
+ */
+export async function canRecordIn(roomId, userId, { since = null } = {}) {
+  if (!userId || isGuestUserId(userId)) return false;
+  const role = await getMemberRole(roomId, userId);
+  if (role) return role !== 'viewer';
+  if (await isInCall(roomId, userId)) return true;
+  return !!since && (await hasAttended(roomId, userId, { since }));
+}
+
+/**
+ * The sockets in a recording's room whose user may see the recording; guests and people
+ * without a role are in the same Socket.IO room but must not get its details.
+ */
+export async function findRecordingViewers(io, recording) {
+  if (!io || !recording) return [];
+  const sockets = await io.in(recording.room_id).fetchSockets();
+  const allowed = new Map();
+  const viewers = [];
+  for (const socket of sockets) {
+    const { userId } = socket.data;
+    if (!allowed.has(userId)) {
+      allowed.set(userId, !!userId && (await getRecordingAccess(recording, userId)).canView);
+    }
+    if (allowed.get(userId)) viewers.push(socket);
+  }
+  return viewers;
+}
+
+/** Send a recording event to the people in its room who may see the recording */
+export async function emitToRecordingViewers(io, recording, event, payload = recording) {
+  for (const socket of await findRecordingViewers(io, recording)) socket.emit(event, payload);
+}
@@ -0,0 +1,19 @@
+// Room roles, highest first. Anyone admitted without a membership row is a plain member.
+export const ROLES = ['owner', 'co-host', 'member', 'viewer'];
+export const DEFAULT_ROLE = 'member';
+
+const RANK = { owner: 3, 'co-host': 2, member: 1, viewer: 0 };
+
+export function isValidRole(role) {
+  return ROLES.includes(role);
+}
+
+/** Owners and co-hosts can admit, reject and remove people */
+export function isModerator(role) {
+  return role === 'owner' || role === 'co-host';
+}
+
+/** True when `actorRole` outranks `targetRole` (nobody can act on an equal or higher role) */
+export function outranks(actorRole, targetRole) {
+  return (RANK[actorRole] ?? -1) > (RANK[targetRole ?? DEFAULT_ROLE] ?? -1);
+}
@@ -0,0 +1,14 @@
+import { getMemberRole, isUserInvited, hasAttended } from './db/index.js';
+import { isInCall } from './signaling.js';
+
+/**
+ * The people who belong to a room's meetings: the owner, members, invitees, anyone who has
+ * attended and whoever is in the call now. Plain attendees have no membership row, so the role
+ * alone isn't enough. Guest passes are free to mint, so a guest still in the lobby doesn't count.
+ */
+export async function belongsToRoom(room, userId) {
+  if (!room || !userId) return false;
+  if (room.created_by === userId || (await getMemberRole(room.id, userId))) return true;
+  if (await isInCall(room.id, userId)) return true;
+  return (await isUserInvited(room.id, userId)) || (await hasAttended(room.id, userId));
+}
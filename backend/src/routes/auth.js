@@ -0,0 +1,101 @@
+import { Router } from 'express';
+import crypto from 'crypto';
+import rateLimit from 'express-rate-limit';
+import { canIssueTokens, issueToken } from '../auth/index.js';
+import { createLocalAccount, getLocalAccountForSignIn } from '../db/index.js';
+import { hashPasscode, verifyPasscode } from '../passcode.js';
+
+// Only mounted when AUTH_PROVIDER=local
+const router = Router();
+
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,32}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 200;
+const MAX_DISPLAY_NAME_LENGTH = 50;
+
+// Password guessing gets far fewer attempts than the general API limit
+const signInLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 20,
+  standardHeaders: true,
+});
+
+router.use((req, res, next) => {
+  if (!canIssueTokens()) {
+    return res.status(404).json({ error: 'Sign in through your identity provider instead' });
+  }
+  next();
+});
+
+function toPublicAccount(account) {
+  return {
+    id: account.id,
+    username: account.username,
+    email: account.email,
+    displayName: account.display_name,
+  };
+}
+
+function signedIn(account) {
+  const { token, expiresAt } = issueToken(account);
+  return { token, expiresAt, user: toPublicAccount(account) };
+}
+
+router.post('/register', signInLimiter, async (req, res) => {
+  if (process.env.AUTH_ALLOW_SIGNUP === 'false') {
+    return res.status(403).json({ error: 'Sign-up is disabled; ask an administrator for an account' });
+  }
+  const username = typeof req.body?.username === 'string' ? req.body.username.trim().toLowerCase() : '';
+  const password = req.body?.password;
+  const email = typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+  const displayName = typeof req.body?.displayName === 'string' ? req.body.displayName.trim() : '';
+  if (!USERNAME_PATTERN.test(username)) {
+    return res
+      .status(400)
+      .json({ error: 'Usernames are 3-32 characters: letters, numbers, dots, dashes and underscores' });
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH) {
+    return res.status(400).json({ error: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters` });
+  }
+  if (email && !EMAIL_PATTERN.test(email)) return res.status(400).json({ error: 'Enter a valid email address' });
+  if (displayName.length > MAX_DISPLAY_NAME_LENGTH) {
+    return res.status(400).json({ error: `Names can be at most ${MAX_DISPLAY_NAME_LENGTH} characters` });
+  }
+  try {
+    const account = await createLocalAccount({
+      id: `local_${crypto.randomUUID()}`,
+      username,
+      email: email || null,
+      // Without mail delivery nobody proves they own the address, unless the admin trusts it
+      emailVerified: !!email && process.env.AUTH_TRUST_EMAILS === 'true',
+      passwordHash: hashPasscode(password),
+      displayName: displayName || null,
+    });
+    res.status(201).json(signedIn(account));
+  } catch (err) {
+    if (err.code === '23505') {
+      return res.status(409).json({ error: 'That username or email is already registered' });
+    }
+    console.error(err);
+    res.status(500).json({ error: 'Failed to create account' });
+  }
+});
+
+router.post('/login', signInLimiter, async (req, res) => {
+  const username = typeof req.body?.username === 'string' ? req.body.username.trim().toLowerCase() : '';
+  const password = req.body?.password;
+  try {
+    const account = username ? await getLocalAccountForSignIn(username) : null;
+    // Same answer for unknown users and wrong passwords
+    if (!account || !(await verifyPasscode(password, account.password_hash))) {
+      return res.status(401).json({ error: 'Wrong username or password' });
+    }
+    res.json(signedIn(account));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to sign in' });
+  }
+});
+
+export default router;
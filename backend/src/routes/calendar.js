@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import crypto from 'crypto';
+import {
+  listScheduledRoomsForUser,
+  getCalendarToken,
+  resetCalendarToken,
+  getUserIdByCalendarToken,
+} from '../db/index.js';
+import { requireAuth, getUserId } from '../auth/index.js';
+import { sendICalendar } from '../calendar.js';
+
+const router = Router();
+
+const newToken = () => crypto.randomBytes(24).toString('base64url');
+
+function feedResponse(token) {
+  return { token, path: `/api/calendar/feeds/${token}.ics` };
+}
+
+// Calendar apps subscribe without signing in; the secret token in the URL identifies the user
+router.get('/feeds/:token.ics', async (req, res) => {
+  try {
+    const userId = await getUserIdByCalendarToken(req.params.token);
+    if (!userId) return res.status(404).json({ error: 'Calendar feed not found' });
+    const rooms = await listScheduledRoomsForUser(userId);
+    sendICalendar(res, rooms, { name: 'Meetings', fileName: 'meetings.ics' });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to build calendar feed' });
+  }
+});
+
+router.use(requireAuth());
+
+router.get('/feed', async (req, res) => {
+  try {
+    res.json(feedResponse(await getCalendarToken(getUserId(req), newToken())));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to get calendar feed' });
+  }
+});
+
+// For when the feed URL leaked: subscriptions using the old URL stop updating
+router.post('/feed/reset', async (req, res) => {
+  try {
+    res.json(feedResponse(await resetCalendarToken(getUserId(req), newToken())));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to reset calendar feed' });
+  }
+});
+
+export default router;
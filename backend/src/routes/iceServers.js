@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import crypto from 'crypto';
+import { requireAuth, getUserId } from '../auth/index.js';
+
+const router = Router();
+
+const DEFAULT_STUN_URLS = 'stun:stun.l.google.com:19302,stun:stun1.l.google.com:19302';
+// Credentials live for an hour by default; clients refresh well before expiry
+const DEFAULT_TTL_SECONDS = 3600;
+
+function parseUrls(value) {
+  return (value || '')
+    .split(',')
+    .map((u) => u.trim())
+    .filter(Boolean);
+}
+
+/**
+ * TURN REST API credentials (draft-uberti-behave-turn-rest), as understood by coturn's
+ * `use-auth-secret`: username is "<expiry>:<userId>", password is base64(HMAC-SHA1(secret, username)).
+ */
+function createTurnCredentials(userId, secret, ttlSeconds) {
+  const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const username = `${expiresAt}:${userId}`;
+  const credential = crypto.createHmac('sha1', secret).update(username).digest('base64');
+  return { username, credential, expiresAt };
+}
+
+// Guests need relays too; their TURN username carries their guest id
+router.use(requireAuth({ allowGuest: () => true }));
+
+router.get('/', (req, res) => {
+  const userId = getUserId(req);
+  const stunUrls = parseUrls(process.env.STUN_URLS ?? DEFAULT_STUN_URLS);
+  const turnUrls = parseUrls(process.env.TURN_URLS);
+  const turnSecret = process.env.TURN_SECRET;
+  const ttl = parseInt(process.env.TURN_CREDENTIAL_TTL || String(DEFAULT_TTL_SECONDS), 10);
+
+  const iceServers = [];
+  if (stunUrls.length) iceServers.push({ urls: stunUrls });
+
+  let expiresAt = null;
+  if (turnUrls.length && turnSecret) {
+    const creds = createTurnCredentials(userId, turnSecret, ttl);
+    iceServers.push({ urls: turnUrls, username: creds.username, credential: creds.credential });
+    expiresAt = new Date(creds.expiresAt * 1000).toISOString();
+  } else if (turnUrls.length) {
+    console.warn('TURN_URLS is set but TURN_SECRET is missing; serving STUN only');
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  res.json({ iceServers, ttl, expiresAt });
+});
+
+export default router;
@@ -1,19 +1,98 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import path from 'path';
 import multer from 'multer';
 import fs from 'fs';
-import { createRecording, getRecordingById, getRecordingsByRoom, getRecordingsByUser, getRoom, ensureUser } from '../db/index.js';
-import { requireAuth, getUserId } from '../auth.js';
+import rateLimit from 'express-rate-limit';
+import {
+  createRecording,
+  getRecordingById,
+  getRecordingsByRoom,
+  getRecordingsByUser,
+  getRoom,
+  ensureUser,
+  createRecordingUpload,
+  getRecordingUpload,
+  advanceRecordingUpload,
+  completeRecordingUpload,
+  deleteRecordingUpload,
+  enqueueJob,
+  listRecordingShares,
+  addRecordingShare,
+  removeRecordingShare,
+  createRecordingShareLink,
+  listRecordingShareLinks,
+  getRecordingShareLink,
+  revokeRecordingShareLink,
+  updateRecordingDetails,
+  deleteRecording,
+  getStorageUsage,
+  getRecordingMarkers,
+} from '../db/index.js';
+import { requireAuth, getUserId, findUserIdByEmail } from '../auth/index.js';
+import { getRecordingAccess, canRecordIn, findRecordingViewers, emitToRecordingViewers } from '../recordingAccess.js';
+import { signShareLink, verifyShareLink, signStreamToken, verifyStreamToken } from '../shareLinks.js';
+import { uploadDir, removeUploads } from '../uploads.js';
+import { getStorage, removeRecordingFiles, contentTypeFor, STORAGE_DRIVER } from '../storage/index.js';
 
 const router = Router();
-const uploadDir = process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads');
 
-// Ensure upload directory exists (multer won't create it)
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
+// Single-request uploads only; chunked uploads have no overall size limit
+const MAX_FILE_SIZE = 500 * 1024 * 1024;
+// The recorder emits a chunk every second, so this is generous even for a composite stream
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+const RECORDING_MODES = ['local', 'composite'];
+const DEFAULT_LINK_HOURS = 24;
+// Long enough to watch an entire meeting without the player's URL expiring mid-way
+const STREAM_TOKEN_TTL_SECONDS = 6 * 60 * 60;
+const MAX_LINK_HOURS = 30 * 24;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+// Per-user default; users.recording_quota_bytes overrides it, and 0 means unlimited
+const DEFAULT_QUOTA_BYTES = parseInt(process.env.RECORDING_QUOTA_MB || '5120', 10) * 1024 * 1024;
+
+// One chunk per second per recorder is far more than the general API limit allows
+const chunkLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 3000,
+  standardHeaders: true,
+});
+
+// Uploads with a chunk write in progress on this node
+const writingUploads = new Set();
+
+function partFilePath(upload) {
+  return path.join(uploadDir, `${upload.id}.part`);
 }
 
-const MAX_FILE_SIZE = 500 * 1024 * 1024;
+async function handleRecordingSaved(req, recording) {
+  // Notify the people in the room who may see the new recording
+  try {
+    await emitToRecordingViewers(req.app.get('io'), recording, 'recording-uploaded');
+  } catch (err) {
+    console.error('Failed to announce recording upload:', err);
+  }
+  try {
+    await enqueueJob('process-recording', { recordingId: recording.id });
+  } catch (err) {
+    // The recording is saved and playable; it just won't get the MP4 and thumbnail
+    console.error('Failed to queue recording processing:', err);
+  }
+}
+
+/** Bytes the user has stored against their quota; quota_bytes is null when unlimited */
+async function getUsage(userId) {
+  const { usedBytes, quotaBytes } = await getStorageUsage(userId);
+  const quota = quotaBytes ?? DEFAULT_QUOTA_BYTES;
+  return { used_bytes: usedBytes, quota_bytes: quota > 0 ? quota : null };
+}
+
+function exceedsQuota(usage, extraBytes) {
+  return usage.quota_bytes !== null && usage.used_bytes + extraBytes > usage.quota_bytes;
+}
+
+const QUOTA_ERROR = 'Recording storage quota exceeded. Delete some recordings to make room.';
+const RECORD_FORBIDDEN_ERROR = 'Only people in this meeting can record it';
 
 const storage = multer.diskStorage({
   destination: (req, file, cb) => cb(null, uploadDir),
@@ -49,6 +128,196 @@ const upload = multer({
   },
 });
 
+/** Parse a single "bytes=start-end" range; null if absent or ignorable, false if unsatisfiable */
+function parseRange(header, size) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header || '');
+  // Multiple or malformed ranges: fall back to the whole file, as RFC 9110 allows
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+  let start;
+  let end;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+  if (start > end || start >= size) return false;
+  return { start, end };
+}
+
+/**
+ * Stream a stored file with Range/206 support and ETag/Last-Modified validators, so a <video>
+ * element can start playing and seek without downloading the whole recording. Drivers that
+ * can presign (S3) redirect to the object store instead.
+ */
+async function sendStoredFile(req, res, recording, key, { download = false } = {}) {
+  const storage = getStorage(recording.storage_driver);
+  const fileName = path.basename(key);
+  const contentType = contentTypeFor(key);
+  const redirectUrl = await storage.getDownloadUrl(key, { fileName, contentType, download });
+  if (redirectUrl) {
+    // The presigned URL expires, so the redirect must not outlive it in a cache
+    res.setHeader('Cache-Control', 'private, no-store');
+    return res.redirect(302, redirectUrl);
+  }
+
+  const stat = await storage.stat(key);
+  if (!stat) return res.status(404).json({ error: 'Recording file not found in storage' });
+
+  const mtimeMs = stat.mtime.getTime();
+  const etag = `"${stat.size.toString(16)}-${Math.floor(mtimeMs).toString(16)}"`;
+  const lastModified = stat.mtime.toUTCString();
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('ETag', etag);
+  res.setHeader('Last-Modified', lastModified);
+  // Revalidate every time: access can be revoked and processing rewrites files in place
+  res.setHeader('Cache-Control', 'private, no-cache');
+
+  const ifNoneMatch = req.headers['if-none-match'];
+  const ifModifiedSince = req.headers['if-modified-since'];
+  const notModified = ifNoneMatch
+    ? ifNoneMatch.split(',').some((t) => t.trim().replace(/^W\//, '') === etag)
+    : !!ifModifiedSince && Math.floor(mtimeMs / 1000) <= Date.parse(ifModifiedSince) / 1000;
+  if (notModified) return res.status(304).end();
+
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `${download ? 'attachment' : 'inline'}; filename="${fileName}"`);
+
+  // If-Range: only honour the range when the client's copy is still current
+  const ifRange = req.headers['if-range'];
+  const rangeValid = !ifRange || ifRange === etag || ifRange === lastModified;
+  const range = rangeValid ? parseRange(req.headers.range, stat.size) : null;
+  if (range === false) {
+    res.setHeader('Content-Range', `bytes */${stat.size}`);
+    return res.status(416).end();
+  }
+
+  const { start, end } = range || { start: 0, end: stat.size - 1 };
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${stat.size}`);
+  }
+  res.setHeader('Content-Length', stat.size === 0 ? 0 : end - start + 1);
+  if (req.method === 'HEAD' || stat.size === 0) return res.end();
+
+  const stream = await storage.openReadStream(key, { start, end });
+  stream.on('error', (err) => {
+    console.error('Recording stream error:', err);
+    res.destroy(err);
+  });
+  // Stop reading when the player aborts (every seek cancels the previous request)
+  res.on('close', () => stream.destroy());
+  stream.pipe(res);
+}
+
+/** Load a recording the signed-in user may access; sends the error response and returns null otherwise */
+async function loadRecording(req, res, { manage = false, edit = false } = {}) {
+  const recording = await getRecordingById(req.params.id);
+  // Same response whether it doesn't exist or isn't visible, so ids can't be probed
+  const notFound = () => {
+    res.status(404).json({ error: 'Recording not found' });
+    return null;
+  };
+  if (!recording) return notFound();
+  const { canView, canManage, canEdit } = await getRecordingAccess(recording, getUserId(req));
+  if (!canView) return notFound();
+  if (manage && !canManage) {
+    res.status(403).json({ error: 'Only the uploader or a host can share this recording' });
+    return null;
+  }
+  if (edit && !canEdit) {
+    res.status(403).json({ error: 'Only the uploader or the room owner can change this recording' });
+    return null;
+  }
+  return recording;
+}
+
+function formatVttTime(ms) {
+  const pad = (n, width = 2) => String(n).padStart(width, '0');
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(ms % 1000, 3)}`;
+}
+
+/** WebVTT chapters track: each marker runs until the next one, the last until the end */
+async function sendChapters(res, recording) {
+  const markers = await getRecordingMarkers(recording.id);
+  const endMs = Math.max(recording.duration_seconds * 1000, ...markers.map((m) => m.offset_ms + 1000));
+  const cues = markers.map((m, i) => {
+    const start = m.offset_ms;
+    const end = Math.max(i + 1 < markers.length ? markers[i + 1].offset_ms : endMs, start + 1);
+    const label = m.label.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\s+/g, ' ');
+    return `${i + 1}\n${formatVttTime(start)} --> ${formatVttTime(end)}\n${label}`;
+  });
+  res.setHeader('Content-Type', 'text/vtt; charset=utf-8');
+  res.setHeader('Cache-Control', 'private, no-cache');
+  res.send(['WEBVTT', ...cues].join('\n\n') + '\n');
+}
+
+/** The recording behind a share link, or null if the link is invalid, expired or revoked */
+async function getSharedRecording(linkToken) {
+  const claims = verifyShareLink(linkToken);
+  if (!claims) return null;
+  const link = await getRecordingShareLink(claims.linkId);
+  if (!link || link.revoked_at || new Date(link.expires_at) <= new Date()) return null;
+  return getRecordingById(link.recording_id);
+}
+
+function shareLinkResponse(link) {
+  return { ...link, token: signShareLink(link.id, link.expires_at) };
+}
+
+// Share links work without signing in, e.g. as a plain <video src>
+router.get('/shared/:token', async (req, res) => {
+  try {
+    const recording = await getSharedRecording(req.params.token);
+    if (!recording) return res.status(404).json({ error: 'This link is invalid or has expired' });
+    await sendStoredFile(
+      req,
+      res,
+      recording,
+      req.query.format === 'mp4' && recording.mp4_path ? recording.mp4_path : recording.storage_key
+    );
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to retrieve recording file' });
+  }
+});
+
+router.get('/shared/:token/chapters.vtt', async (req, res) => {
+  try {
+    const recording = await getSharedRecording(req.params.token);
+    if (!recording) return res.status(404).json({ error: 'This link is invalid or has expired' });
+    await sendChapters(res, recording);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to retrieve chapters' });
+  }
+});
+
+// Authenticated by a stream token from /:id/stream-url, since <video src> can't send headers
+router.get('/:id/stream', async (req, res) => {
+  const userId = verifyStreamToken(req.params.id, req.query.token);
+  if (!userId) return res.status(401).json({ error: 'Stream link is invalid or has expired' });
+  try {
+    const recording = await getRecordingById(req.params.id);
+    if (!recording || !(await getRecordingAccess(recording, userId)).canView) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+    if (req.query.format === 'mp4' && !recording.mp4_path) {
+      return res.status(404).json({ error: 'MP4 is not available yet' });
+    }
+    const key = req.query.format === 'mp4' ? recording.mp4_path : recording.storage_key;
+    await sendStoredFile(req, res, recording, key, { download: req.query.download === '1' });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to stream recording' });
+  }
+});
+
 router.use(requireAuth());
 
 router.post('/upload', (req, res, next) => {
@@ -67,6 +336,8 @@ router.post('/upload', (req, res, next) => {
 }, async (req, res) => {
   const userId = getUserId(req);
   const { roomId, durationSeconds, startedAt, endedAt } = req.body;
+  // Older clients don't send a mode; they only ever recorded their own camera
+  const mode = req.body.mode || 'local';
 
   console.log('Recording upload request:', { userId, roomId, durationSeconds, hasFile: !!req.file });
 
@@ -75,29 +346,44 @@ router.post('/upload', (req, res, next) => {
       error: 'roomId, durationSeconds, startedAt, endedAt are required',
     });
   }
+  if (!RECORDING_MODES.includes(mode)) {
+    return res.status(400).json({ error: `mode must be one of ${RECORDING_MODES.join(', ')}` });
+  }
   if (!req.file) {
     return res.status(400).json({ error: 'No recording file uploaded' });
   }
   try {
     await ensureUser(userId);
     const room = await getRoom(roomId);
-    if (!room) return res.status(404).json({ error: 'Room not found' });
+    if (!room) {
+      await removeUploads([req.file.filename]);
+      return res.status(404).json({ error: 'Room not found' });
+    }
+    if (!(await canRecordIn(roomId, userId, { since: new Date(startedAt) }))) {
+      await removeUploads([req.file.filename]);
+      return res.status(403).json({ error: RECORD_FORBIDDEN_ERROR });
+    }
+    // Multer has already written the file, so the checks can only happen afterwards
+    if (exceedsQuota(await getUsage(userId), req.file.size)) {
+      await removeUploads([req.file.filename]);
+      return res.status(413).json({ error: QUOTA_ERROR });
+    }
+    // Multer stages the file in UPLOAD_DIR; move it to wherever recordings live
+    await getStorage().putFile(req.file.filename, req.file.path, { contentType: contentTypeFor(req.file.filename) });
     const recording = await createRecording({
       userId,
       roomId,
-      filePath: req.file.filename,
+      storageDriver: STORAGE_DRIVER,
+      storageKey: req.file.filename,
       durationSeconds: parseInt(durationSeconds, 10),
       startedAt: new Date(startedAt),
       endedAt: new Date(endedAt),
+      mode,
+      sizeBytes: req.file.size,
     });
 
     console.log('Recording saved:', recording.id, 'file:', req.file.filename);
-
-    // Notify all users in the room about the new recording
-    const io = req.app.get('io');
-    if (io) {
-      io.to(roomId).emit('recording-uploaded', recording);
-    }
+    await handleRecordingSaved(req, recording);
 
     res.status(201).json(recording);
   } catch (err) {
@@ -106,34 +392,357 @@ router.post('/upload', (req, res, next) => {
   }
 });
 
-router.get('/:id/file', async (req, res) => {
-  const { id } = req.params;
+/*
+ * Resumable uploads: the client opens a session when recording starts, PUTs each recorder
+ * chunk in order while the meeting runs, then completes the session with the timing
+ * metadata. Chunks are appended to a .part file, so nothing is buffered in memory.
+ */
+router.post('/uploads', async (req, res) => {
+  const userId = getUserId(req);
+  const { roomId, mimeType } = req.body;
+  const mode = req.body.mode || 'local';
+  if (!roomId) return res.status(400).json({ error: 'roomId is required' });
+  if (!RECORDING_MODES.includes(mode)) {
+    return res.status(400).json({ error: `mode must be one of ${RECORDING_MODES.join(', ')}` });
+  }
+  try {
+    await ensureUser(userId);
+    const room = await getRoom(roomId);
+    if (!room) return res.status(404).json({ error: 'Room not found' });
+    if (!(await canRecordIn(roomId, userId))) return res.status(403).json({ error: RECORD_FORBIDDEN_ERROR });
+    if (exceedsQuota(await getUsage(userId), 0)) return res.status(413).json({ error: QUOTA_ERROR });
+    const fileExt = typeof mimeType === 'string' && mimeType.includes('mp4') ? '.mp4' : '.webm';
+    const upload = await createRecordingUpload({ userId, roomId, mode, fileExt });
+    res.status(201).json(upload);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to start upload' });
+  }
+});
+
+router.get('/uploads/:uploadId', async (req, res) => {
+  const userId = getUserId(req);
+  try {
+    const upload = await getRecordingUpload(req.params.uploadId);
+    if (!upload || upload.user_id !== userId) return res.status(404).json({ error: 'Upload not found' });
+    res.json(upload);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to get upload' });
+  }
+});
+
+router.put(
+  '/uploads/:uploadId/chunks/:index',
+  chunkLimiter,
+  express.raw({ type: () => true, limit: MAX_CHUNK_SIZE }),
+  async (req, res) => {
+    const userId = getUserId(req);
+    const { uploadId } = req.params;
+    const index = Number(req.params.index);
+    if (!Number.isInteger(index) || index < 0) {
+      return res.status(400).json({ error: 'Chunk index must be a non-negative integer' });
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'Chunk is empty' });
+    }
+    if (writingUploads.has(uploadId)) {
+      return res.status(409).json({ error: 'Another chunk for this upload is still being written' });
+    }
+    writingUploads.add(uploadId);
+    try {
+      const upload = await getRecordingUpload(uploadId);
+      if (!upload || upload.user_id !== userId) return res.status(404).json({ error: 'Upload not found' });
+      // A retry whose first attempt landed but whose response was lost
+      if (index < upload.next_chunk) return res.json(upload);
+      if (index > upload.next_chunk) {
+        return res.status(409).json({ error: 'Chunk out of order', next_chunk: upload.next_chunk });
+      }
+      // next_chunk tells the client how much made it, so it can keep the recording up to here
+      if (exceedsQuota(await getUsage(userId), req.body.length)) {
+        return res.status(413).json({ error: QUOTA_ERROR, next_chunk: upload.next_chunk });
+      }
+
+      const partPath = partFilePath(upload);
+      try {
+        // Drop anything written by an attempt that never got recorded in the database
+        await fs.promises.truncate(partPath, upload.bytes_received);
+      } catch (err) {
+        if (err.code !== 'ENOENT') throw err;
+        if (upload.bytes_received > 0) {
+          return res.status(410).json({ error: 'Upload data is no longer on the server' });
+        }
+      }
+      await fs.promises.appendFile(partPath, req.body);
+
+      const updated = await advanceRecordingUpload(uploadId, index, upload.bytes_received + req.body.length);
+      if (!updated) {
+        const current = await getRecordingUpload(uploadId);
+        return res.status(409).json({ error: 'Chunk out of order', next_chunk: current?.next_chunk ?? 0 });
+      }
+      res.json(updated);
+    } catch (err) {
+      console.error('Chunk upload error:', err);
+      res.status(500).json({ error: 'Failed to store chunk' });
+    } finally {
+      writingUploads.delete(uploadId);
+    }
+  }
+);
+
+router.post('/uploads/:uploadId/complete', async (req, res) => {
+  const userId = getUserId(req);
+  const { uploadId } = req.params;
+  const { durationSeconds, startedAt, endedAt } = req.body;
+  if (durationSeconds == null || !startedAt || !endedAt) {
+    return res.status(400).json({ error: 'durationSeconds, startedAt, endedAt are required' });
+  }
   try {
-    const recording = await getRecordingById(id);
-    if (!recording) return res.status(404).json({ error: 'Recording not found' });
+    const upload = await getRecordingUpload(uploadId);
+    if (!upload || upload.user_id !== userId) return res.status(404).json({ error: 'Upload not found' });
+    if (upload.bytes_received === 0) return res.status(400).json({ error: 'No chunks uploaded' });
 
-    const filePath = path.join(uploadDir, recording.file_path);
-    if (!fs.existsSync(filePath)) {
-      return res.status(404).json({ error: 'Recording file not found on disk' });
+    const storage = getStorage();
+    const key = `${upload.room_id}_${userId}_${upload.id}${upload.file_ext}`;
+    const partPath = partFilePath(upload);
+    if (fs.existsSync(partPath)) {
+      await storage.putFile(key, partPath, { contentType: contentTypeFor(key) });
+    } else if (!(await storage.stat(key))) {
+      // Neither staged nor stored by an earlier attempt whose database write failed
+      return res.status(410).json({ error: 'Upload data is no longer on the server' });
     }
 
-    const ext = path.extname(recording.file_path).toLowerCase();
-    const mimeType = ext === '.mp4' ? 'video/mp4' : 'video/webm';
-    res.setHeader('Content-Type', mimeType);
-    res.setHeader('Content-Disposition', `inline; filename="${recording.file_path}"`);
-    fs.createReadStream(filePath).pipe(res);
+    const recording = await completeRecordingUpload(uploadId, {
+      userId,
+      roomId: upload.room_id,
+      storageDriver: storage.id,
+      storageKey: key,
+      durationSeconds: parseInt(durationSeconds, 10),
+      startedAt: new Date(startedAt),
+      endedAt: new Date(endedAt),
+      mode: upload.mode,
+      sizeBytes: upload.bytes_received,
+    });
+    if (!recording) return res.status(404).json({ error: 'Upload not found' });
+
+    console.log('Recording saved:', recording.id, 'key:', key, 'bytes:', upload.bytes_received);
+    await handleRecordingSaved(req, recording);
+    res.status(201).json(recording);
+  } catch (err) {
+    console.error('Recording complete error:', err);
+    res.status(500).json({ error: 'Failed to save recording' });
+  }
+});
+
+router.delete('/uploads/:uploadId', async (req, res) => {
+  const userId = getUserId(req);
+  try {
+    const upload = await getRecordingUpload(req.params.uploadId);
+    if (!upload || upload.user_id !== userId) return res.status(404).json({ error: 'Upload not found' });
+    await deleteRecordingUpload(upload.id);
+    await fs.promises.rm(partFilePath(upload), { force: true });
+    res.status(204).end();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to cancel upload' });
+  }
+});
+
+// ?format=mp4 serves the transcoded rendition once processing has produced it
+router.get('/:id/file', async (req, res) => {
+  try {
+    const recording = await loadRecording(req, res);
+    if (!recording) return;
+    if (req.query.format === 'mp4') {
+      if (!recording.mp4_path) return res.status(404).json({ error: 'MP4 is not available yet' });
+      return sendStoredFile(req, res, recording, recording.mp4_path);
+    }
+    await sendStoredFile(req, res, recording, recording.storage_key);
   } catch (err) {
     console.error(err);
     res.status(500).json({ error: 'Failed to retrieve recording file' });
   }
 });
 
+router.get('/:id/stream-url', async (req, res) => {
+  try {
+    const recording = await loadRecording(req, res);
+    if (!recording) return;
+    const expiresAt = new Date(Date.now() + STREAM_TOKEN_TTL_SECONDS * 1000);
+    res.json({ token: signStreamToken(recording.id, getUserId(req), expiresAt), expires_at: expiresAt });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to create stream link' });
+  }
+});
+
+// Markers dropped during the call, in playback order
+router.get('/:id/markers', async (req, res) => {
+  try {
+    const recording = await loadRecording(req, res);
+    if (!recording) return;
+    res.json(await getRecordingMarkers(recording.id));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to get markers' });
+  }
+});
+
+router.get('/:id/chapters.vtt', async (req, res) => {
+  try {
+    const recording = await loadRecording(req, res);
+    if (!recording) return;
+    await sendChapters(res, recording);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to retrieve chapters' });
+  }
+});
+
+router.get('/:id/thumbnail', async (req, res) => {
+  try {
+    const recording = await loadRecording(req, res);
+    if (!recording) return;
+    if (!recording.thumbnail_path) return res.status(404).json({ error: 'Thumbnail not found' });
+    await sendStoredFile(req, res, recording, recording.thumbnail_path);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to retrieve thumbnail' });
+  }
+});
+
+router.get('/:id/sharing', async (req, res) => {
+  try {
+    const recording = await loadRecording(req, res, { manage: true });
+    if (!recording) return;
+    const [shares, links] = await Promise.all([
+      listRecordingShares(recording.id),
+      listRecordingShareLinks(recording.id),
+    ]);
+    res.json({ shares, links: links.map(shareLinkResponse) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to load sharing' });
+  }
+});
+
+router.post('/:id/shares', async (req, res) => {
+  const email = typeof req.body.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+  if (!EMAIL_PATTERN.test(email)) return res.status(400).json({ error: 'A valid email is required' });
+  try {
+    const recording = await loadRecording(req, res, { manage: true });
+    if (!recording) return;
+    const userId = await findUserIdByEmail(email);
+    if (!userId) return res.status(404).json({ error: 'No account uses that email' });
+    const share = await addRecordingShare(recording.id, userId, email, getUserId(req));
+    res.status(201).json(share);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to share recording' });
+  }
+});
+
+router.delete('/:id/shares/:userId', async (req, res) => {
+  try {
+    const recording = await loadRecording(req, res, { manage: true });
+    if (!recording) return;
+    const removed = await removeRecordingShare(recording.id, req.params.userId);
+    if (!removed) return res.status(404).json({ error: 'Share not found' });
+    res.status(204).end();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to remove share' });
+  }
+});
+
+router.post('/:id/links', async (req, res) => {
+  const hours = req.body.expiresInHours ?? DEFAULT_LINK_HOURS;
+  if (typeof hours !== 'number' || !(hours > 0) || hours > MAX_LINK_HOURS) {
+    return res.status(400).json({ error: `expiresInHours must be between 0 and ${MAX_LINK_HOURS}` });
+  }
+  try {
+    const recording = await loadRecording(req, res, { manage: true });
+    if (!recording) return;
+    const expiresAt = new Date(Date.now() + hours * 60 * 60 * 1000);
+    const link = await createRecordingShareLink(recording.id, getUserId(req), expiresAt);
+    res.status(201).json(shareLinkResponse(link));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to create link' });
+  }
+});
+
+router.delete('/:id/links/:linkId', async (req, res) => {
+  try {
+    const recording = await loadRecording(req, res, { manage: true });
+    if (!recording) return;
+    const revoked = await revokeRecordingShareLink(recording.id, req.params.linkId);
+    if (!revoked) return res.status(404).json({ error: 'Link not found' });
+    res.status(204).end();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to revoke link' });
+  }
+});
+
+router.patch('/:id', async (req, res) => {
+  const { title, description } = req.body ?? {};
+  if (title !== undefined && (typeof title !== 'string' || title.length > MAX_TITLE_LENGTH)) {
+    return res.status(400).json({ error: `title must be a string of at most ${MAX_TITLE_LENGTH} characters` });
+  }
+  if (description !== undefined && (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+    return res.status(400).json({ error: `description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters` });
+  }
+  try {
+    const recording = await loadRecording(req, res, { edit: true });
+    if (!recording) return;
+    // Blank clears the field
+    const updated = await updateRecordingDetails(recording.id, {
+      title: title === undefined ? recording.title : title.trim() || null,
+      description: description === undefined ? recording.description : description.trim() || null,
+    });
+    res.json(updated);
+    emitToRecordingViewers(req.app.get('io'), updated, 'recording-updated').catch((err) =>
+      console.error('Failed to announce recording update:', err)
+    );
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to update recording' });
+  }
+});
+
+router.delete('/:id', async (req, res) => {
+  try {
+    const recording = await loadRecording(req, res, { edit: true });
+    if (!recording) return;
+    // Shares go with the recording, so work out who could see it while they still exist
+    const viewers = await findRecordingViewers(req.app.get('io'), recording);
+    const files = await deleteRecording(recording.id);
+    if (!files) return res.status(404).json({ error: 'Recording not found' });
+    await removeRecordingFiles([files]);
+    for (const socket of viewers) socket.emit('recording-deleted', { id: recording.id });
+    res.status(204).end();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to delete recording' });
+  }
+});
+
+router.get('/usage', async (req, res) => {
+  try {
+    res.json(await getUsage(getUserId(req)));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to load storage usage' });
+  }
+});
+
 router.get('/room/:roomId', async (req, res) => {
   const { roomId } = req.params;
   try {
     const room = await getRoom(roomId);
     if (!room) return res.status(404).json({ error: 'Room not found' });
-    const recordings = await getRecordingsByRoom(roomId);
+    const recordings = await getRecordingsByRoom(roomId, getUserId(req));
     res.json(recordings);
   } catch (err) {
     console.error(err);
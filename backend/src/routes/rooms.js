@@ -1,11 +1,193 @@
 import { Router } from 'express';
-import { createRoom, getRoom, getRoomByCode, listRooms, deleteRoom } from '../db/index.js';
-import { requireAuth, getUserId } from '../auth.js';
+import crypto from 'crypto';
+import {
+  createRoom,
+  getRoom,
+  getRoomByCode,
+  listRooms,
+  deleteRoom,
+  updateRoomSettings,
+  getMessagesByRoom,
+  getMemberRole,
+  listRoomMembers,
+  setMemberRole,
+  removeMember,
+  getRoomRecordingFiles,
+  updateRoomSchedule,
+  listScheduledRoomsForUser,
+  listRoomInvites,
+  addRoomInvite,
+  createRoomInviteLink,
+  removeRoomInvite,
+  redeemRoomInviteLink,
+  listMeetingSessions,
+} from '../db/index.js';
+import { requireAuth, getUserId, findUserIdByEmail } from '../auth/index.js';
+import { isValidRole, isModerator, outranks, DEFAULT_ROLE } from '../roles.js';
+import { notifyRoleChange, closeRoom } from '../signaling.js';
+import { hashPasscode } from '../passcode.js';
+import { removeUploads } from '../uploads.js';
+import { removeRecordingFiles } from '../storage/index.js';
+import {
+  isValidTimeZone,
+  parseStartTime,
+  parseRecurrenceRule,
+  nextOccurrence,
+  MAX_DURATION_MINUTES,
+} from '../schedule.js';
+import { sendICalendar } from '../calendar.js';
+import { sendAttendanceCsv } from '../attendance.js';
+import { belongsToRoom } from '../roomAccess.js';
+import { signGuestToken, isGuestUserId, GUEST_ID_PREFIX } from '../shareLinks.js';
 
 const router = Router();
 
-// everything in this router requires authentication
-router.use(requireAuth());
+const ABSENT_HOST_POLICIES = ['lobby', 'auto-admit'];
+const MAX_LOBBY_TIMEOUT_SECONDS = 3600;
+const ADMISSION_POLICIES = ['open', 'lobby', 'locked'];
+const MAX_ALLOWED_DOMAINS = 50;
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+const MIN_PASSCODE_LENGTH = 4;
+const MAX_PASSCODE_LENGTH = 64;
+const MAX_RETENTION_DAYS = 3650;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_USER_ID_LENGTH = 255;
+const MAX_INVITE_USES = 1000;
+const MAX_INVITE_LINK_HOURS = 24 * 90;
+const MAX_GUEST_NAME_LENGTH = 50;
+const MAX_SESSIONS = 200;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Guest passes are only checked when a socket connects, so this bounds how late a guest can
+// (re)join rather than how long they can stay
+const GUEST_TOKEN_TTL_SECONDS = parseInt(process.env.GUEST_TOKEN_TTL_SECONDS || String(4 * 60 * 60), 10);
+
+/** Validate a PATCH body (camelCase) into room columns; returns { settings } or { error } */
+function parseRoomSettings(body) {
+  const settings = {};
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) return { error: 'Room name cannot be empty' };
+    settings.name = body.name.trim();
+  }
+  if (body.absentHostPolicy !== undefined) {
+    if (!ABSENT_HOST_POLICIES.includes(body.absentHostPolicy)) {
+      return { error: `absentHostPolicy must be one of ${ABSENT_HOST_POLICIES.join(', ')}` };
+    }
+    settings.absent_host_policy = body.absentHostPolicy;
+  }
+  if (body.lobbyTimeoutSeconds !== undefined) {
+    const seconds = Number(body.lobbyTimeoutSeconds);
+    if (!Number.isInteger(seconds) || seconds < 0 || seconds > MAX_LOBBY_TIMEOUT_SECONDS) {
+      return { error: `lobbyTimeoutSeconds must be an integer between 0 and ${MAX_LOBBY_TIMEOUT_SECONDS}` };
+    }
+    settings.lobby_timeout_seconds = seconds;
+  }
+  if (body.promoteOnHostLeave !== undefined) {
+    if (typeof body.promoteOnHostLeave !== 'boolean') return { error: 'promoteOnHostLeave must be a boolean' };
+    settings.promote_on_host_leave = body.promoteOnHostLeave;
+  }
+  if (body.admissionPolicy !== undefined) {
+    if (!ADMISSION_POLICIES.includes(body.admissionPolicy)) {
+      return { error: `admissionPolicy must be one of ${ADMISSION_POLICIES.join(', ')}` };
+    }
+    settings.admission_policy = body.admissionPolicy;
+  }
+  if (body.allowedDomains !== undefined) {
+    if (!Array.isArray(body.allowedDomains) || body.allowedDomains.length > MAX_ALLOWED_DOMAINS) {
+      return { error: `allowedDomains must be an array of at most ${MAX_ALLOWED_DOMAINS} domains` };
+    }
+    const domains = body.allowedDomains.map((d) => (typeof d === 'string' ? d.trim().toLowerCase().replace(/^@/, '') : ''));
+    const invalid = domains.find((d) => !DOMAIN_PATTERN.test(d));
+    if (invalid !== undefined) return { error: `Invalid domain: ${invalid || '(empty)'}` };
+    settings.allowed_domains = [...new Set(domains)];
+  }
+  // null clears the passcode; the plain value is only ever hashed
+  if (body.passcode !== undefined) {
+    if (body.passcode === null) {
+      settings.passcode_hash = null;
+    } else if (
+      typeof body.passcode !== 'string' ||
+      body.passcode.length < MIN_PASSCODE_LENGTH ||
+      body.passcode.length > MAX_PASSCODE_LENGTH
+    ) {
+      return { error: `passcode must be ${MIN_PASSCODE_LENGTH}-${MAX_PASSCODE_LENGTH} characters` };
+    } else {
+      settings.passcode_hash = hashPasscode(body.passcode);
+    }
+  }
+  // null keeps recordings forever
+  if (body.recordingRetentionDays !== undefined) {
+    const days = body.recordingRetentionDays;
+    if (days !== null && (!Number.isInteger(days) || days < 1 || days > MAX_RETENTION_DAYS)) {
+      return { error: `recordingRetentionDays must be null or an integer between 1 and ${MAX_RETENTION_DAYS}` };
+    }
+    settings.recording_retention_days = days;
+  }
+  if (body.recordingRequiresApproval !== undefined) {
+    if (typeof body.recordingRequiresApproval !== 'boolean') {
+      return { error: 'recordingRequiresApproval must be a boolean' };
+    }
+    settings.recording_requires_approval = body.recordingRequiresApproval;
+  }
+  return { settings };
+}
+
+/** Validate a schedule body (camelCase); returns { schedule } or { error } */
+function parseSchedule(body) {
+  if (!body || typeof body !== 'object') return { error: 'schedule must be an object' };
+  const { timeZone, startsAt, durationMinutes, recurrenceRule } = body;
+  if (!isValidTimeZone(timeZone)) return { error: 'timeZone must be an IANA time zone such as Europe/Berlin' };
+  const scheduledStart = parseStartTime(startsAt, timeZone);
+  if (!scheduledStart) return { error: 'startsAt must be a date and time such as 2026-01-15T09:30' };
+  if (!Number.isInteger(durationMinutes) || durationMinutes < 1 || durationMinutes > MAX_DURATION_MINUTES) {
+    return { error: `durationMinutes must be an integer between 1 and ${MAX_DURATION_MINUTES}` };
+  }
+  let rule = null;
+  if (recurrenceRule !== undefined && recurrenceRule !== null && recurrenceRule !== '') {
+    const parsed = parseRecurrenceRule(recurrenceRule);
+    if (parsed.error) return { error: parsed.error };
+    rule = parsed.text;
+  }
+  return { schedule: { scheduledStart, durationMinutes, timeZone, recurrenceRule: rule } };
+}
+
+function withNextOccurrence(room) {
+  return { ...room, next_occurrence: nextOccurrence(room) };
+}
+
+// Anyone with the room link can get a guest pass; it only takes them as far as the lobby
+router.post('/:roomId/guest-token', async (req, res) => {
+  const { roomId } = req.params;
+  const displayName = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+  if (!displayName || displayName.length > MAX_GUEST_NAME_LENGTH) {
+    return res.status(400).json({ error: `Name must be 1-${MAX_GUEST_NAME_LENGTH} characters` });
+  }
+  try {
+    const room = await getRoom(roomId);
+    if (!room) return res.status(404).json({ error: 'Room not found' });
+    if (room.admission_policy === 'locked') return res.status(403).json({ error: 'This meeting is locked' });
+    const guestId = crypto.randomUUID();
+    const expiresAt = new Date(Date.now() + GUEST_TOKEN_TTL_SECONDS * 1000);
+    res.status(201).json({
+      token: signGuestToken({ guestId, roomId, displayName }, expiresAt),
+      expiresAt,
+      userId: `${GUEST_ID_PREFIX}${guestId}`,
+      displayName,
+      room: { id: room.id, name: room.name },
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to create guest pass' });
+  }
+});
+
+// Everything below requires authentication. Guests may read the room their pass is for, and its
+// chat once admitted; everything else needs an account
+router.use(
+  requireAuth({
+    allowGuest: (req, guest) =>
+      req.method === 'GET' && (req.path === `/${guest.roomId}` || req.path === `/${guest.roomId}/messages`),
+  })
+);
 
 router.get('/', async (req, res) => {
   try {
@@ -23,8 +205,12 @@ router.post('/', async (req, res) => {
   if (!name || typeof name !== 'string' || !name.trim()) {
     return res.status(400).json({ error: 'Room name is required' });
   }
+  // Optional; the same shape as PUT /:roomId/schedule
+  const { schedule, error } = req.body.schedule ? parseSchedule(req.body.schedule) : {};
+  if (error) return res.status(400).json({ error });
   try {
-    const room = await createRoom(name.trim(), userId);
+    let room = await createRoom(name.trim(), userId);
+    if (schedule) room = withNextOccurrence(await updateRoomSchedule(room.id, schedule));
     res.status(201).json(room);
   } catch (err) {
     console.error(err);
@@ -32,6 +218,36 @@ router.post('/', async (req, res) => {
   }
 });
 
+// Scheduled meetings the user has a role in, soonest first; finished schedules drop out
+router.get('/upcoming', async (req, res) => {
+  const userId = getUserId(req);
+  try {
+    const rooms = (await listScheduledRoomsForUser(userId))
+      .map(withNextOccurrence)
+      .filter((room) => room.next_occurrence)
+      .sort((a, b) => a.next_occurrence - b.next_occurrence);
+    res.json(rooms);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to list upcoming meetings' });
+  }
+});
+
+// Opening a /join/:token link: counts a use and lets the user in without waiting in the lobby
+router.post('/join/:token', async (req, res) => {
+  const userId = getUserId(req);
+  try {
+    const roomId = await redeemRoomInviteLink(req.params.token, userId);
+    if (!roomId) return res.status(404).json({ error: 'This invite link is invalid, used up or expired' });
+    const room = await getRoom(roomId);
+    if (!room) return res.status(404).json({ error: 'Room not found' });
+    res.json(room);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to accept invite' });
+  }
+});
+
 router.get('/by-code/:code', async (req, res) => {
   const { code } = req.params;
   try {
@@ -56,29 +272,328 @@ router.get('/:roomId', async (req, res) => {
   }
 });
 
+router.patch('/:roomId', async (req, res) => {
+  const userId = getUserId(req);
+  const { roomId } = req.params;
+  const { settings, error } = parseRoomSettings(req.body ?? {});
+  if (error) return res.status(400).json({ error });
+  try {
+    const room = await getRoom(roomId);
+    if (!room) return res.status(404).json({ error: 'Room not found' });
+    const role = await getMemberRole(roomId, userId);
+    // Co-hosts may lock or unlock the meeting; everything else is owner-only
+    const onlyAdmission = Object.keys(settings).every((key) => key === 'admission_policy');
+    if (role !== 'owner' && !(onlyAdmission && isModerator(role))) {
+      return res.status(403).json({ error: 'Only the host can change room settings' });
+    }
+    const updated = await updateRoomSettings(roomId, settings);
+    // Let everyone in the call pick up the new settings
+    req.app.get('io')?.to(roomId).emit('room-updated', updated);
+    res.json(updated);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to update room' });
+  }
+});
+
+router.put('/:roomId/schedule', async (req, res) => {
+  const userId = getUserId(req);
+  const { roomId } = req.params;
+  const { schedule, error } = parseSchedule(req.body);
+  if (error) return res.status(400).json({ error });
+  try {
+    const room = await getRoom(roomId);
+    if (!room) return res.status(404).json({ error: 'Room not found' });
+    if ((await getMemberRole(roomId, userId)) !== 'owner') {
+      return res.status(403).json({ error: 'Only the host can schedule this meeting' });
+    }
+    const updated = withNextOccurrence(await updateRoomSchedule(roomId, schedule));
+    req.app.get('io')?.to(roomId).emit('room-updated', updated);
+    res.json(updated);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to update schedule' });
+  }
+});
+
+router.delete('/:roomId/schedule', async (req, res) => {
+  const userId = getUserId(req);
+  const { roomId } = req.params;
+  try {
+    const room = await getRoom(roomId);
+    if (!room) return res.status(404).json({ error: 'Room not found' });
+    if ((await getMemberRole(roomId, userId)) !== 'owner') {
+      return res.status(403).json({ error: 'Only the host can schedule this meeting' });
+    }
+    const updated = await updateRoomSchedule(roomId, null);
+    req.app.get('io')?.to(roomId).emit('room-updated', updated);
+    res.json(updated);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to clear schedule' });
+  }
+});
+
+router.get('/:roomId/calendar.ics', async (req, res) => {
+  const { roomId } = req.params;
+  try {
+    const room = await getRoom(roomId);
+    if (!room) return res.status(404).json({ error: 'Room not found' });
+    if (!room.scheduled_start) return res.status(404).json({ error: 'This meeting is not scheduled' });
+    sendICalendar(res, [room], { fileName: `${room.room_code || room.id}.ics` });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to export calendar' });
+  }
+});
+
+/** Owners and co-hosts see who attended; returns the sessions, or null after sending an error */
+async function loadAttendance(req, res, defaultLimit) {
+  const userId = getUserId(req);
+  const { roomId } = req.params;
+  const room = await getRoom(roomId);
+  if (!room) {
+    res.status(404).json({ error: 'Room not found' });
+    return null;
+  }
+  if (!isModerator(await getMemberRole(roomId, userId))) {
+    res.status(403).json({ error: 'Only hosts can see attendance' });
+    return null;
+  }
+  const sessionId = req.query.session;
+  if (sessionId !== undefined && !UUID_PATTERN.test(String(sessionId))) {
+    res.status(400).json({ error: 'Invalid session id' });
+    return null;
+  }
+  const limit = Math.min(parseInt(req.query.limit, 10) || defaultLimit, MAX_SESSIONS);
+  return { room, sessions: await listMeetingSessions(roomId, { limit, sessionId: sessionId ?? null }) };
+}
+
+router.get('/:roomId/sessions', async (req, res) => {
+  try {
+    const loaded = await loadAttendance(req, res, 50);
+    if (loaded) res.json(loaded.sessions);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to list sessions' });
+  }
+});
+
+router.get('/:roomId/attendance.csv', async (req, res) => {
+  try {
+    // Exports go back as far as allowed unless asked otherwise
+    const loaded = await loadAttendance(req, res, MAX_SESSIONS);
+    if (!loaded) return;
+    const { room, sessions } = loaded;
+    sendAttendanceCsv(res, sessions, { fileName: `attendance-${room.room_code || room.id}.csv` });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to export attendance' });
+  }
+});
+
+router.get('/:roomId/invites', async (req, res) => {
+  const userId = getUserId(req);
+  const { roomId } = req.params;
+  try {
+    const room = await getRoom(roomId);
+    if (!room) return res.status(404).json({ error: 'Room not found' });
+    if ((await getMemberRole(roomId, userId)) !== 'owner') {
+      return res.status(403).json({ error: 'Only the host can manage invitations' });
+    }
+    const invites = await listRoomInvites(roomId);
+    res.json({
+      people: invites.filter((invite) => !invite.token),
+      links: invites.filter((invite) => invite.token),
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to list invitations' });
+  }
+});
+
+// Invite a person by email or user id; emails nobody has signed up with yet match once they do
+router.post('/:roomId/invites', async (req, res) => {
+  const actorId = getUserId(req);
+  const { roomId } = req.params;
+  const email = typeof req.body.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+  const targetId = typeof req.body.userId === 'string' ? req.body.userId.trim() : '';
+  if (
+    email
+      ? !EMAIL_PATTERN.test(email)
+      : !targetId || targetId.length > MAX_USER_ID_LENGTH || isGuestUserId(targetId)
+  ) {
+    return res.status(400).json({ error: 'A valid email or user id is required' });
+  }
+  try {
+    const room = await getRoom(roomId);
+    if (!room) return res.status(404).json({ error: 'Room not found' });
+    if ((await getMemberRole(roomId, actorId)) !== 'owner') {
+      return res.status(403).json({ error: 'Only the host can manage invitations' });
+    }
+    const inviteeId = email ? await findUserIdByEmail(email) : targetId;
+    const invite = await addRoomInvite(roomId, { userId: inviteeId, email: email || null }, actorId);
+    res.status(201).json(invite);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to invite' });
+  }
+});
+
+// maxUses: 1 for a single-use link, a number, or null for unlimited; expiresInHours null never expires
+router.post('/:roomId/invite-links', async (req, res) => {
+  const userId = getUserId(req);
+  const { roomId } = req.params;
+  const { maxUses = null, expiresInHours = null } = req.body ?? {};
+  if (maxUses !== null && (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_INVITE_USES)) {
+    return res.status(400).json({ error: `maxUses must be null or an integer between 1 and ${MAX_INVITE_USES}` });
+  }
+  if (
+    expiresInHours !== null &&
+    (typeof expiresInHours !== 'number' || !(expiresInHours > 0) || expiresInHours > MAX_INVITE_LINK_HOURS)
+  ) {
+    return res.status(400).json({ error: `expiresInHours must be null or between 0 and ${MAX_INVITE_LINK_HOURS}` });
+  }
+  try {
+    const room = await getRoom(roomId);
+    if (!room) return res.status(404).json({ error: 'Room not found' });
+    if ((await getMemberRole(roomId, userId)) !== 'owner') {
+      return res.status(403).json({ error: 'Only the host can manage invitations' });
+    }
+    const link = await createRoomInviteLink(
+      roomId,
+      {
+        token: crypto.randomBytes(18).toString('base64url'),
+        maxUses,
+        expiresAt: expiresInHours === null ? null : new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+      },
+      userId
+    );
+    res.status(201).json(link);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to create invite link' });
+  }
+});
+
+// Withdraw a personal invite or revoke a link
+router.delete('/:roomId/invites/:inviteId', async (req, res) => {
+  const userId = getUserId(req);
+  const { roomId, inviteId } = req.params;
+  try {
+    const room = await getRoom(roomId);
+    if (!room) return res.status(404).json({ error: 'Room not found' });
+    if ((await getMemberRole(roomId, userId)) !== 'owner') {
+      return res.status(403).json({ error: 'Only the host can manage invitations' });
+    }
+    const removed = await removeRoomInvite(roomId, inviteId);
+    if (!removed) return res.status(404).json({ error: 'Invite not found' });
+    res.status(204).send();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to remove invite' });
+  }
+});
+
+router.get('/:roomId/messages', async (req, res) => {
+  const { roomId } = req.params;
+  const limit = Math.min(parseInt(req.query.limit, 10) || 200, 500);
+  try {
+    const room = await getRoom(roomId);
+    if (!room) return res.status(404).json({ error: 'Room not found' });
+    if (!(await belongsToRoom(room, getUserId(req)))) {
+      return res.status(403).json({ error: 'Chat history is only available to people in this meeting' });
+    }
+    const messages = await getMessagesByRoom(roomId, limit);
+    res.json(messages);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to list messages' });
+  }
+});
+
+router.get('/:roomId/members', async (req, res) => {
+  const { roomId } = req.params;
+  try {
+    const room = await getRoom(roomId);
+    if (!room) return res.status(404).json({ error: 'Room not found' });
+    // Roles are only visible to people who hold one in this room
+    if (!(await getMemberRole(roomId, getUserId(req)))) {
+      return res.status(403).json({ error: 'Only members of this room can see its members' });
+    }
+    const members = await listRoomMembers(roomId);
+    res.json(members);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to list members' });
+  }
+});
+
+router.put('/:roomId/members/:userId', async (req, res) => {
+  const actorId = getUserId(req);
+  const { roomId, userId: targetId } = req.params;
+  const { role } = req.body;
+  if (!isValidRole(role) || role === 'owner') {
+    return res.status(400).json({ error: 'role must be one of co-host, member, viewer' });
+  }
+  if (targetId === actorId) {
+    return res.status(400).json({ error: 'You cannot change your own role' });
+  }
+  if (isGuestUserId(targetId)) {
+    return res.status(400).json({ error: 'Guests cannot be given a role' });
+  }
+  try {
+    const room = await getRoom(roomId);
+    if (!room) return res.status(404).json({ error: 'Room not found' });
+    const actorRole = await getMemberRole(roomId, actorId);
+    const targetRole = await getMemberRole(roomId, targetId);
+    // Must outrank both the current and the new role (only owners can grant or revoke co-host)
+    if (!isModerator(actorRole) || !outranks(actorRole, targetRole) || !outranks(actorRole, role)) {
+      return res.status(403).json({ error: 'Not authorized to grant this role' });
+    }
+    const member = await setMemberRole(roomId, targetId, role, actorId);
+    await notifyRoleChange(req.app.get('io'), roomId, targetId, role);
+    res.json(member);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to update role' });
+  }
+});
+
+router.delete('/:roomId/members/:userId', async (req, res) => {
+  const actorId = getUserId(req);
+  const { roomId, userId: targetId } = req.params;
+  try {
+    const room = await getRoom(roomId);
+    if (!room) return res.status(404).json({ error: 'Room not found' });
+    const actorRole = await getMemberRole(roomId, actorId);
+    const targetRole = await getMemberRole(roomId, targetId);
+    if (!targetRole) return res.status(404).json({ error: 'Member not found' });
+    if (!isModerator(actorRole) || !outranks(actorRole, targetRole)) {
+      return res.status(403).json({ error: 'Not authorized to revoke this role' });
+    }
+    await removeMember(roomId, targetId);
+    await notifyRoleChange(req.app.get('io'), roomId, targetId, DEFAULT_ROLE);
+    res.status(204).send();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to revoke role' });
+  }
+});
+
 router.delete('/:roomId', async (req, res) => {
   const userId = getUserId(req);
   const { roomId } = req.params;
   try {
+    // Rows cascade with the room, so collect the files they point at first
+    const files = await getRoomRecordingFiles(roomId);
     const deleted = await deleteRoom(roomId, userId);
     if (!deleted) return res.status(404).json({ error: 'Room not found or not authorized to delete' });
+    await removeRecordingFiles(files.recordings);
+    await removeUploads(files.uploadIds.map((id) => `${id}.part`));
 
-    // Notify all connected users that the room has been deleted
-    const io = req.app.get('io');
-    if (io) {
-      io.to(roomId).emit('room-deleted', { roomId });
-      // Force all sockets to leave the room
-      const roomSet = io.sockets.adapter.rooms.get(roomId);
-      if (roomSet) {
-        for (const sid of roomSet) {
-          const s = io.sockets.sockets.get(sid);
-          if (s) {
-            s.leave(roomId);
-            s.roomId = null;
-          }
-        }
-      }
-    }
+    // Notify all connected users (on every instance) and force their sockets out of the room
+    await closeRoom(req.app.get('io'), roomId);
 
     res.status(204).send();
   } catch (err) {
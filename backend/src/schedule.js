@@ -0,0 +1,271 @@
+/**
+ * Meeting schedules: a start time, a duration, an IANA time zone and an optional RRULE.
+ * Occurrences are expanded in the room's time zone so a weekly 09:00 sync stays at 09:00
+ * across DST changes. Only the RRULE parts calendar apps commonly produce are supported:
+ * FREQ, INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY and WKST.
+ */
+
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Upper bound on periods walked while looking for an occurrence, so odd rules can't spin forever
+const MAX_PERIODS = 100000;
+
+export const MAX_DURATION_MINUTES = 24 * 60;
+
+export function isValidTimeZone(timeZone) {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Building a formatter is far slower than using one, and expanding a schedule converts a lot
+const formatters = new Map();
+function getFormatter(timeZone) {
+  if (!formatters.has(timeZone)) {
+    formatters.set(
+      timeZone,
+      new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      })
+    );
+  }
+  return formatters.get(timeZone);
+}
+
+/** Wall-clock fields of an instant in a time zone */
+export function toZonedParts(date, timeZone) {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type) => Number(parts.find((p) => p.type === type).value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+/** How far the wall clock in timeZone is ahead of UTC at an instant, in milliseconds */
+export function zoneOffsetMs(date, timeZone) {
+  const p = toZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/** The instant at which the wall clock in timeZone shows the given fields */
+export function fromZonedParts({ year, month, day, hour = 0, minute = 0, second = 0 }, timeZone) {
+  const guess = Date.UTC(year, month - 1, day, hour, minute, second);
+  const offset = zoneOffsetMs(new Date(guess), timeZone);
+  // A second pass settles times near a DST change onto the offset actually in effect
+  const corrected = zoneOffsetMs(new Date(guess - offset), timeZone);
+  return new Date(guess - corrected);
+}
+
+/**
+ * Parse a start time for a schedule: an ISO timestamp with an offset (or Z) is taken as is,
+ * a bare "YYYY-MM-DDTHH:mm" is read as wall-clock time in timeZone. Returns a Date or null.
+ */
+export function parseStartTime(value, timeZone) {
+  if (typeof value !== 'string') return null;
+  const local = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/);
+  if (local) {
+    const [, year, month, day, hour, minute, second] = local.map((v) => Number(v ?? 0));
+    if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) return null;
+    return fromZonedParts({ year, month, day, hour, minute, second }, timeZone);
+  }
+  if (!/(Z|[+-]\d{2}:?\d{2})$/i.test(value)) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function parseUntil(value) {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!m) return null;
+  const [, year, month, day, hour, minute, second] = m;
+  const fields = { year: +year, month: +month, day: +day };
+  if (hour === undefined) return { date: fields };
+  // UNTIL must be UTC when DTSTART has a time zone (RFC 5545); floating values are treated as UTC too
+  return { instant: new Date(Date.UTC(fields.year, fields.month - 1, fields.day, +hour, +minute, +second)) };
+}
+
+/**
+ * Validate an RRULE ("RRULE:" prefix optional). Returns { rule } with the parsed parts and the
+ * normalized text, or { error }.
+ */
+export function parseRecurrenceRule(text) {
+  if (typeof text !== 'string' || !text.trim()) return { error: 'recurrenceRule must be a non-empty string' };
+  const body = text.trim().replace(/^RRULE:/i, '').toUpperCase();
+  const parts = {};
+  for (const pair of body.split(';').filter(Boolean)) {
+    const [key, value, ...rest] = pair.split('=');
+    if (!key || !value || rest.length || parts[key] !== undefined) return { error: `Invalid RRULE part "${pair}"` };
+    parts[key] = value;
+  }
+
+  const unsupported = Object.keys(parts).find(
+    (key) => !['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'WKST'].includes(key)
+  );
+  if (unsupported) return { error: `RRULE ${unsupported} is not supported` };
+  if (!FREQUENCIES.includes(parts.FREQ)) return { error: `RRULE FREQ must be one of ${FREQUENCIES.join(', ')}` };
+
+  const rule = { freq: parts.FREQ, interval: 1, count: null, until: null, byDay: null, byMonthDay: null, weekStart: 1 };
+  if (parts.INTERVAL !== undefined) {
+    rule.interval = Number(parts.INTERVAL);
+    if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 1000) {
+      return { error: 'RRULE INTERVAL must be a positive integer' };
+    }
+  }
+  if (parts.COUNT !== undefined && parts.UNTIL !== undefined) return { error: 'RRULE cannot have both COUNT and UNTIL' };
+  if (parts.COUNT !== undefined) {
+    rule.count = Number(parts.COUNT);
+    if (!Number.isInteger(rule.count) || rule.count < 1) return { error: 'RRULE COUNT must be a positive integer' };
+  }
+  if (parts.UNTIL !== undefined) {
+    rule.until = parseUntil(parts.UNTIL);
+    if (!rule.until) return { error: 'RRULE UNTIL must look like 20261231 or 20261231T235959Z' };
+  }
+  if (parts.WKST !== undefined) {
+    rule.weekStart = WEEKDAYS.indexOf(parts.WKST);
+    if (rule.weekStart < 0) return { error: 'RRULE WKST must be a weekday (MO, TU, ...)' };
+  }
+  if (parts.BYDAY !== undefined) {
+    rule.byDay = [];
+    for (const item of parts.BYDAY.split(',')) {
+      const m = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+      const nth = m?.[1] ? Number(m[1]) : null;
+      if (!m || nth === 0 || Math.abs(nth ?? 0) > 5) return { error: `Invalid RRULE BYDAY "${item}"` };
+      if (nth !== null && rule.freq !== 'MONTHLY') return { error: 'Numbered BYDAY (e.g. 1MO) is only supported with FREQ=MONTHLY' };
+      rule.byDay.push({ weekday: WEEKDAYS.indexOf(m[2]), nth });
+    }
+    if (rule.freq === 'YEARLY') return { error: 'BYDAY is not supported with FREQ=YEARLY' };
+  }
+  if (parts.BYMONTHDAY !== undefined) {
+    if (rule.freq !== 'MONTHLY') return { error: 'BYMONTHDAY is only supported with FREQ=MONTHLY' };
+    rule.byMonthDay = parts.BYMONTHDAY.split(',').map(Number);
+    if (rule.byMonthDay.some((d) => !Number.isInteger(d) || d === 0 || Math.abs(d) > 31)) {
+      return { error: 'RRULE BYMONTHDAY must be days between 1 and 31 (or -1 to -31)' };
+    }
+  }
+  return { rule, text: body };
+}
+
+// Local calendar dates are handled as UTC midnights so day arithmetic ignores DST
+const dayNumber = (year, month, day) => Date.UTC(year, month - 1, day) / DAY_MS;
+function fromDayNumber(n) {
+  const d = new Date(n * DAY_MS);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate(), weekday: d.getUTCDay() };
+}
+const daysInMonth = (year, month) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/** Candidate days (as day numbers, ascending) for the period'th period after the start */
+function periodDays(rule, start, period) {
+  const step = period * rule.interval;
+  switch (rule.freq) {
+    case 'DAILY': {
+      const n = start.dayNumber + step;
+      if (rule.byDay && !rule.byDay.some((d) => d.weekday === fromDayNumber(n).weekday)) return [];
+      return [n];
+    }
+    case 'WEEKLY': {
+      const weekdays = rule.byDay ? rule.byDay.map((d) => d.weekday) : [start.weekday];
+      const weekOrigin = start.dayNumber - ((start.weekday - rule.weekStart + 7) % 7) + step * 7;
+      return [...new Set(weekdays)].map((w) => weekOrigin + ((w - rule.weekStart + 7) % 7)).sort((a, b) => a - b);
+    }
+    case 'MONTHLY': {
+      const monthIndex = start.year * 12 + (start.month - 1) + step;
+      const year = Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      const length = daysInMonth(year, month);
+      let days = null;
+      if (rule.byMonthDay) {
+        days = rule.byMonthDay.map((d) => (d > 0 ? d : length + d + 1)).filter((d) => d >= 1 && d <= length);
+      }
+      if (rule.byDay) {
+        const firstWeekday = fromDayNumber(dayNumber(year, month, 1)).weekday;
+        const matching = [];
+        for (const { weekday, nth } of rule.byDay) {
+          const all = [];
+          for (let d = 1 + ((weekday - firstWeekday + 7) % 7); d <= length; d += 7) all.push(d);
+          if (nth === null) matching.push(...all);
+          else if (nth > 0 && all[nth - 1]) matching.push(all[nth - 1]);
+          else if (nth < 0 && all[all.length + nth]) matching.push(all[all.length + nth]);
+        }
+        days = days ? days.filter((d) => matching.includes(d)) : matching;
+      }
+      // Without BY* parts the meeting repeats on the start's day, skipping months that lack it
+      if (!days) days = start.day <= length ? [start.day] : [];
+      return [...new Set(days)].sort((a, b) => a - b).map((d) => dayNumber(year, month, d));
+    }
+    case 'YEARLY': {
+      const year = start.year + step;
+      return start.day <= daysInMonth(year, start.month) ? [dayNumber(year, start.month, start.day)] : [];
+    }
+    default:
+      return [];
+  }
+}
+
+/** Periods that certainly end before the given day; 0 when COUNT needs every occurrence counted */
+function periodsBefore(rule, start, day) {
+  if (rule.count || day <= start.dayNumber) return 0;
+  const target = fromDayNumber(day);
+  const units = {
+    DAILY: day - start.dayNumber,
+    WEEKLY: Math.floor((day - start.dayNumber) / 7),
+    MONTHLY: (target.year - start.year) * 12 + (target.month - start.month),
+    YEARLY: target.year - start.year,
+  }[rule.freq];
+  return Math.max(0, Math.floor(units / rule.interval) - 1);
+}
+
+/**
+ * Yields the start of each occurrence, in order. `schedule` is { start: Date, timeZone,
+ * rule } where rule is the output of parseRecurrenceRule (or null for a one-off meeting).
+ * Occurrences more than a period before `after` may be skipped without being yielded.
+ */
+export function* occurrences({ start, timeZone, rule }, { after } = {}) {
+  if (!rule) {
+    yield start;
+    return;
+  }
+  const local = toZonedParts(start, timeZone);
+  const origin = { ...local, dayNumber: dayNumber(local.year, local.month, local.day) };
+  origin.weekday = fromDayNumber(origin.dayNumber).weekday;
+  let produced = 0;
+  const firstPeriod = after ? periodsBefore(rule, origin, Math.floor(after.getTime() / DAY_MS) - 1) : 0;
+  for (let period = firstPeriod; period < firstPeriod + MAX_PERIODS; period++) {
+    for (const n of periodDays(rule, origin, period)) {
+      if (n < origin.dayNumber) continue;
+      const day = fromDayNumber(n);
+      if (rule.until?.date && n > dayNumber(rule.until.date.year, rule.until.date.month, rule.until.date.day)) return;
+      const at = fromZonedParts({ ...day, hour: local.hour, minute: local.minute, second: local.second }, timeZone);
+      if (rule.until?.instant && at > rule.until.instant) return;
+      yield at;
+      produced += 1;
+      if (rule.count && produced >= rule.count) return;
+    }
+  }
+}
+
+/**
+ * Start of the first occurrence that hasn't finished by `now` (a meeting in progress counts),
+ * or null once the schedule is over. Rooms without a schedule return null.
+ */
+export function nextOccurrence(room, now = new Date()) {
+  if (!room.scheduled_start || !room.time_zone) return null;
+  const parsed = room.recurrence_rule ? parseRecurrenceRule(room.recurrence_rule) : null;
+  if (parsed?.error) return null;
+  const durationMs = (room.duration_minutes ?? 0) * 60 * 1000;
+  const schedule = { start: new Date(room.scheduled_start), timeZone: room.time_zone, rule: parsed?.rule ?? null };
+  // Meetings last at most a day, so anything starting two days back has finished
+  for (const at of occurrences(schedule, { after: new Date(now.getTime() - 2 * DAY_MS) })) {
+    if (at.getTime() + durationMs > now.getTime()) return at;
+  }
+  return null;
+}
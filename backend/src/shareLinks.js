@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+
+// Falls back to the Clerk secret (or the local JWT secret) so links work without extra setup; set
+// SHARE_LINK_SECRET to rotate link signatures independently (rotating it invalidates every outstanding link)
+const SECRET = process.env.SHARE_LINK_SECRET || process.env.CLERK_SECRET_KEY || process.env.AUTH_JWT_SECRET || '';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function sign(payload) {
+  return crypto.createHmac('sha256', SECRET).update(payload).digest('base64url');
+}
+
+function signatureMatches(payload, signature) {
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/** Token for a share link: "<linkId>.<expiry unix seconds>.<signature>" */
+export function signShareLink(linkId, expiresAt) {
+  const exp = Math.floor(new Date(expiresAt).getTime() / 1000);
+  return `${linkId}.${exp}.${sign(`${linkId}.${exp}`)}`;
+}
+
+/** Returns { linkId, expiresAt } for a well-signed, unexpired token, otherwise null */
+export function verifyShareLink(token) {
+  if (!SECRET || typeof token !== 'string') return null;
+  const [linkId, exp, signature] = token.split('.');
+  if (!UUID_PATTERN.test(linkId ?? '') || !/^\d+$/.test(exp ?? '') || !signature) return null;
+  if (!signatureMatches(`${linkId}.${exp}`, signature)) return null;
+  const expiresAt = new Date(Number(exp) * 1000);
+  if (expiresAt <= new Date()) return null;
+  return { linkId, expiresAt };
+}
+
+/**
+ * Short-lived token that lets one signed-in user's <video> element stream a recording without
+ * an Authorization header: "<userId>.<expiry unix seconds>.<signature>". Access is re-checked
+ * for that user on every request, so losing access takes effect immediately.
+ */
+export function signStreamToken(recordingId, userId, expiresAt) {
+  const exp = Math.floor(new Date(expiresAt).getTime() / 1000);
+  return `${userId}.${exp}.${sign(`stream:${recordingId}:${userId}:${exp}`)}`;
+}
+
+/** Returns the user id the token was issued to, or null if it is invalid or expired */
+export function verifyStreamToken(recordingId, token) {
+  if (!SECRET || typeof token !== 'string') return null;
+  const [userId, exp, signature] = token.split('.');
+  if (!userId || !/^\d+$/.test(exp ?? '') || !signature) return null;
+  if (!signatureMatches(`stream:${recordingId}:${userId}:${exp}`, signature)) return null;
+  if (Number(exp) * 1000 <= Date.now()) return null;
+  return userId;
+}
+
+// Guests have no Clerk account; their user id is this prefix plus a random id per pass
+export const GUEST_ID_PREFIX = 'guest:';
+
+export function isGuestUserId(userId) {
+  return typeof userId === 'string' && userId.startsWith(GUEST_ID_PREFIX);
+}
+
+/**
+ * Pass for someone joining without an account, good for one room until it expires:
+ * "guest.<guestId>.<roomId>.<expiry unix seconds>.<base64url display name>.<signature>"
+ */
+export function signGuestToken({ guestId, roomId, displayName }, expiresAt) {
+  const exp = Math.floor(new Date(expiresAt).getTime() / 1000);
+  const payload = `guest.${guestId}.${roomId}.${exp}.${Buffer.from(displayName, 'utf-8').toString('base64url')}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/** Returns { userId, roomId, displayName, expiresAt } for a well-signed, unexpired pass, otherwise null */
+export function verifyGuestToken(token) {
+  if (!SECRET || typeof token !== 'string') return null;
+  const parts = token.split('.');
+  if (parts.length !== 6 || parts[0] !== 'guest') return null;
+  const [, guestId, roomId, exp, name, signature] = parts;
+  if (!UUID_PATTERN.test(guestId) || !UUID_PATTERN.test(roomId) || !/^\d+$/.test(exp) || !signature) return null;
+  if (!signatureMatches(parts.slice(0, 5).join('.'), signature)) return null;
+  const expiresAt = new Date(Number(exp) * 1000);
+  if (expiresAt <= new Date()) return null;
+  return {
+    userId: `${GUEST_ID_PREFIX}${guestId}`,
+    roomId,
+    displayName: Buffer.from(name, 'base64url').toString('utf-8'),
+    expiresAt,
+  };
+}
@@ -1,8 +1,39 @@
 import { Server } from 'socket.io';
-import { verifyToken } from '@clerk/backend';
-import { getRoom } from './db/index.js';
-
-const lobby = new Map();
+import {
+  getRoom,
+  getRoomPasscodeHash,
+  createMessage,
+  getMemberRole,
+  transferRoomOwnership,
+  addRecordingMarkers,
+  isUserInvited,
+  listPendingEmailInvites,
+  claimEmailInvite,
+  startAttendance,
+  endAttendance,
+  closeNodeAttendance,
+} from './db/index.js';
+import { isModerator, outranks, DEFAULT_ROLE } from './roles.js';
+import { verifyPasscode } from './passcode.js';
+import { verifyGuestToken, isGuestUserId } from './shareLinks.js';
+import { getVerifiedEmails, getVerifiedEmailDomains, verifyAuthToken } from './auth/index.js';
+import { createStateStore, NODE_ID } from './state/index.js';
+
+// Lobby, participants and raised hands; shared between instances when STATE_STORE=postgres
+let store = null;
+// Pending lobby timeouts for sockets connected to this instance, keyed by socket id
+const lobbyTimers = new Map();
+
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_MARKER_LABEL_LENGTH = 100;
+// Passcode guesses allowed per room and user within the window. Guest passes are free to mint,
+// so guesses from one client address are also counted, but only to slow them down: behind a load
+// balancer or NAT everyone shares that address, and a hard limit would lock them all out.
+const MAX_PASSCODE_ATTEMPTS = 5;
+const PASSCODE_SLOWDOWN_AFTER_PER_ADDRESS = 20;
+const PASSCODE_SLOWDOWN_STEP_MS = 1000;
+const MAX_PASSCODE_SLOWDOWN_MS = 30 * 1000;
+const PASSCODE_ATTEMPT_WINDOW_SECONDS = 15 * 60;
 
 function getToken(socket) {
   const auth = socket.handshake.auth;
@@ -10,30 +41,270 @@ function getToken(socket) {
 }
 
 
-function addToLobby(roomId, socketId, userId, displayName) {
-  // Initialize lobby array for room if it doesn't exist
-  if (!lobby.has(roomId)) lobby.set(roomId, []);
-  const list = lobby.get(roomId);
-  // Prevent duplicate entries
-  if (list.some((p) => p.socketId === socketId)) return;
-  // Add user to lobby
-  list.push({ socketId, userId, displayName });
+function clearLobbyTimer(socketId) {
+  const timer = lobbyTimers.get(socketId);
+  if (timer) {
+    clearTimeout(timer);
+    lobbyTimers.delete(socketId);
+  }
+}
+
+
+async function getRole(roomId, userId) {
+  return (await getMemberRole(roomId, userId)) ?? DEFAULT_ROLE;
+}
+
+
+/** Look up a socket on any instance; remote sockets still support emit/join/leave and data */
+async function findSocket(io, socketId) {
+  if (!socketId) return null;
+  const [found] = await io.in(socketId).fetchSockets();
+  return found ?? null;
+}
+
+
+/** Participant fields sent to clients */
+function toPublicParticipant(p) {
+  return {
+    socketId: p.socketId,
+    userId: p.userId,
+    displayName: p.displayName ?? null,
+    role: p.role ?? DEFAULT_ROLE,
+    isMuted: !!p.isMuted,
+    isVideoOff: !!p.isVideoOff,
+    isSharingScreen: !!p.isSharingScreen,
+    isRecording: !!p.isRecording,
+  };
+}
+
+
+function toPendingRequest(e) {
+  return { socketId: e.socketId, userId: e.userId, displayName: e.displayName ?? null, requestedAt: e.requestedAt };
+}
+
+
+function toRaisedHand(h) {
+  return { socketId: h.socketId, userId: h.userId, displayName: h.displayName ?? null, raisedAt: h.raisedAt };
+}
+
+
+async function getPendingRequests(roomId) {
+  return (await store.listLobby(roomId)).map(toPendingRequest);
+}
+
+
+/** Participants waiting for a moderator to let them record */
+async function getRecordingRequests(roomId) {
+  return (await store.listParticipants(roomId))
+    .filter((p) => p.recordingRequested)
+    .map((p) => ({ socketId: p.socketId, userId: p.userId, displayName: p.displayName ?? null }));
+}
+
+
+function toRecorder(p) {
+  return { socketId: p.socketId, userId: p.userId, displayName: p.displayName ?? null };
+}
+
+
+async function notifyModerators(io, roomId, event, payload) {
+  for (const p of await store.listParticipants(roomId)) {
+    if (isModerator(p.role)) io.to(p.socketId).emit(event, payload);
+  }
+}
+
+
+async function isHostPresent(roomId) {
+  return (await store.listParticipants(roomId)).some((p) => isModerator(p.role));
+}
+
+
+/** Put a socket (local or on another instance) into the room's call and tell everyone about it */
+async function admitToRoom(io, target, roomId, role) {
+  clearLobbyTimer(target.id);
+  await store.removeLobbyEntry(target.id);
+  const participant = {
+    socketId: target.id,
+    roomId,
+    userId: target.data.userId,
+    displayName: target.data.displayName ?? null,
+    role,
+    isMuted: !!target.data.isMuted,
+    isVideoOff: !!target.data.isVideoOff,
+    isSharingScreen: false,
+    nodeId: target.data.nodeId,
+    // Used to pick the longest-present participant when the host leaves
+    joinedAt: Date.now(),
+  };
+  await store.setParticipant(participant);
+  target.join(roomId);
+  // Attendance is a record, not a gate; failing to write it must not keep anyone out
+  await startAttendance(participant).catch((err) => console.error('Attendance join error:', err));
+
+  // Notify existing participants that user joined
+  io.to(roomId).except(target.id).emit('user-joined', toPublicParticipant(participant));
+  // Confirm join to the user
+  target.emit('room-joined', { roomId, isOwner: role === 'owner', role, userId: participant.userId });
+  // Moderators get any pending join requests straight away
+  if (isModerator(role)) {
+    const pending = await getPendingRequests(roomId);
+    if (pending.length > 0) target.emit('pending-requests', pending);
+    const recordingRequests = await getRecordingRequests(roomId);
+    if (recordingRequests.length > 0) target.emit('recording-requests', recordingRequests);
+  }
+}
+
+
+function broadcastMediaState(io, p) {
+  io.to(p.roomId).emit('media-state-changed', {
+    socketId: p.socketId,
+    userId: p.userId,
+    isMuted: !!p.isMuted,
+    isVideoOff: !!p.isVideoOff,
+    isSharingScreen: !!p.isSharingScreen,
+  });
+}
+
+
+/** Ask a participant's client to mute; reflected immediately so tiles don't lag behind */
+async function forceMute(io, target, moderator) {
+  const updated = await store.updateParticipant(target.socketId, { isMuted: true });
+  if (!updated) return;
+  io.to(target.socketId).emit('force-muted', { by: moderator.displayName ?? null });
+  broadcastMediaState(io, updated);
+}
+
+
+/** Push a role change to the affected user's sockets and everyone else in the room */
+export async function notifyRoleChange(io, roomId, userId, role, extra = {}) {
+  if (!io || !store) return;
+  for (const p of await store.listParticipants(roomId)) {
+    if (p.userId !== userId) continue;
+    await store.updateParticipant(p.socketId, { role });
+    // Newly promoted moderators need the people already waiting
+    if (!isModerator(p.role) && isModerator(role)) {
+      const pending = await getPendingRequests(roomId);
+      if (pending.length > 0) io.to(p.socketId).emit('pending-requests', pending);
+    }
+  }
+  io.to(roomId).emit('role-changed', { userId, role, ...extra });
+}
+
+
+/** Tell everyone the room is gone, take every socket out of it and drop its signaling state */
+export async function closeRoom(io, roomId) {
+  if (!io || !store) return;
+  io.to(roomId).emit('room-deleted', { roomId });
+  io.in(roomId).socketsLeave(roomId);
+  await store.clearRoom(roomId);
 }
 
 
-function removeFromLobby(roomId, socketId) {
-  const list = lobby.get(roomId);
-  if (!list) return;
-  // Find and remove the user from the lobby
-  const idx = list.findIndex((p) => p.socketId === socketId);
-  if (idx >= 0) list.splice(idx, 1);
-  // Clean up empty lobby entries
-  if (list.length === 0) lobby.delete(roomId);
+/** True while one of the user's sockets is admitted to the room's call, on any instance */
+export async function isInCall(roomId, userId) {
+  if (!store || !userId) return false;
+  return (await store.listParticipants(roomId)).some((p) => p.userId === userId);
 }
 
 
-function getPendingForRoom(roomId) {
-  return lobby.get(roomId) || [];
+/** Drop state left behind by this instance's previous run; call once the schema exists */
+export async function resetSignalingState() {
+  await store?.purgeNode(NODE_ID);
+  await closeNodeAttendance(NODE_ID);
+}
+
+
+/**
+ * Called after someone leaves the call. If no owner or co-host is left, apply the room's
+ * absent-host settings: promote the longest-present participant, or let the lobby in.
+ */
+async function handleHostDeparture(io, roomId) {
+  const remaining = await store.listParticipants(roomId);
+  if (remaining.length === 0 || remaining.some((p) => isModerator(p.role))) return;
+
+  const room = await getRoom(roomId);
+  if (!room) return;
+
+  if (room.promote_on_host_leave) {
+    const next = remaining.filter((p) => p.role !== 'viewer' && !isGuestUserId(p.userId)).sort((a, b) => a.joinedAt - b.joinedAt)[0];
+    if (next) {
+      // Session-only promotion; the stored membership is left untouched
+      await notifyRoleChange(io, roomId, next.userId, 'co-host', { temporary: true });
+      io.to(next.socketId).emit('host-promoted', { roomId });
+      return;
+    }
+  }
+
+  if (room.absent_host_policy === 'auto-admit') {
+    for (const pending of await store.listLobby(roomId)) {
+      // Guests wait for a person to let them in
+      if (isGuestUserId(pending.userId)) continue;
+      const target = await findSocket(io, pending.socketId);
+      if (target) await admitToRoom(io, target, roomId, await getRole(roomId, pending.userId));
+      else await store.removeLobbyEntry(pending.socketId);
+    }
+  }
+}
+
+
+/** True when one of the user's verified email domains is on the room's allowlist */
+async function isDomainAllowed(room, userId) {
+  const allowed = room.allowed_domains ?? [];
+  if (allowed.length === 0) return false;
+  try {
+    const domains = await getVerifiedEmailDomains(userId);
+    return domains.some((d) => allowed.includes(d));
+  } catch (err) {
+    console.error('Email domain lookup error:', err);
+    return false;
+  }
+}
+
+/** True when the user was invited, by account or by one of their verified emails */
+async function isInvited(roomId, userId) {
+  if (await isUserInvited(roomId, userId)) return true;
+  const pending = await listPendingEmailInvites(roomId);
+  if (pending.length === 0) return false;
+  try {
+    const email = (await getVerifiedEmails(userId)).find((e) => pending.includes(e));
+    if (!email) return false;
+    await claimEmailInvite(roomId, email, userId);
+    return true;
+  } catch (err) {
+    console.error('Email invite lookup error:', err);
+    return false;
+  }
+}
+
+
+async function broadcastHandQueue(io, roomId) {
+  const hands = await store.listHands(roomId);
+  io.to(roomId).emit('hand-queue', hands.map(toRaisedHand));
+}
+
+
+/**
+ * Remove a participant from their call and notify the rest of the room; `reason` ends up in
+ * the attendance report (left, disconnected or kicked)
+ */
+async function leaveCall(io, participant, reason) {
+  const { socketId, roomId } = participant;
+  await store.removeParticipant(socketId);
+  await endAttendance(socketId, reason).catch((err) => console.error('Attendance leave error:', err));
+  io.in(socketId).socketsLeave(roomId);
+  if (await store.lowerHand(socketId)) {
+    const hands = await store.listHands(roomId);
+    io.to(roomId).except(socketId).emit('hand-queue', hands.map(toRaisedHand));
+  }
+  // Leaving ends a recording as far as everyone else can tell; the upload finishes on its own
+  if (participant.isRecording) io.to(roomId).except(socketId).emit('recording-stopped', toRecorder(participant));
+  if (participant.recordingRequested) {
+    await notifyModerators(io, roomId, 'recording-request-resolved', { socketId });
+  }
+  io.to(roomId).except(socketId).emit('user-left', {
+    userId: participant.userId,
+    socketId,
+    displayName: participant.displayName,
+  });
 }
 
 
@@ -49,17 +320,27 @@ export function setupSignaling(httpServer) {
     },
   });
 
- 
+  // With the Postgres store, the adapter makes io.to()/fetchSockets() reach every instance
+  const state = createStateStore();
+  store = state.store;
+  if (state.adapter) io.adapter(state.adapter);
+
+
   io.use(async (socket, next) => {
     const token = getToken(socket);
     if (!token) return next(new Error('Authentication required'));
+    // Guest passes are signed by us; anything else has to be a session token from the auth provider
+    const guest = verifyGuestToken(token);
+    if (guest) {
+      socket.data.userId = guest.userId;
+      socket.data.guest = { roomId: guest.roomId, displayName: guest.displayName };
+      socket.data.nodeId = NODE_ID;
+      return next();
+    }
     try {
-      // Verify token with Clerk backend service
-      const verified = await verifyToken(token, {
-        secretKey: process.env.CLERK_SECRET_KEY,
-      });
-      // Attach user ID to socket for authorization checks
-      socket.userId = verified.sub;
+      // socket.data is visible to other instances through fetchSockets()
+      socket.data.userId = await verifyAuthToken(token);
+      socket.data.nodeId = NODE_ID;
       next();
     } catch (err) {
       next(new Error('Invalid token'));
@@ -68,11 +349,31 @@ export function setupSignaling(httpServer) {
 
   // Handle socket connections and events
   io.on('connection', (socket) => {
-    
-    socket.on('join-room', async (roomId, displayName) => {
+    const userId = socket.data.userId;
+
+    // Store calls are async; log failures instead of letting them become unhandled rejections
+    const on = (event, handler) => {
+      socket.on(event, async (...args) => {
+        try {
+          await handler(...args);
+        } catch (err) {
+          console.error(`Signaling ${event} error:`, err);
+        }
+      });
+    };
+
+    // Our own participant record, or null while not in a call
+    const me = () => store.getParticipant(socket.id);
+
+    on('join-room', async (roomId, displayName, options = {}) => {
       if (!roomId) return;
-      // Store display name on socket for later use
-      socket.displayName = typeof displayName === 'string' ? displayName : null;
+      const guest = socket.data.guest;
+      // Store display name on socket for later use; guests keep the name on their pass
+      socket.data.displayName = guest ? guest.displayName : typeof displayName === 'string' ? displayName : null;
+      if (guest && guest.roomId !== roomId) {
+        socket.emit('join-error', { message: 'Your guest pass is for a different meeting' });
+        return;
+      }
 
       try {
         // Verify room exists in database
@@ -82,128 +383,326 @@ export function setupSignaling(httpServer) {
           return;
         }
 
-        // Check if user is the room owner
-        const isOwner = socket.userId === room.created_by;
-
-        if (isOwner) {
-          // Owner path: immediate join
-          socket.join(roomId);
-          socket.roomId = roomId;
-          // Notify existing participants that owner joined
-          socket.to(roomId).emit('user-joined', {
-            userId: socket.userId,
-            socketId: socket.id,
-            displayName: socket.displayName,
-          });
-          // Confirm join to owner
-          socket.emit('room-joined', { roomId, isOwner: true });
-          // Send any pending join requests to owner
-          const pending = getPendingForRoom(roomId);
-          if (pending.length > 0) socket.emit('pending-requests', pending);
-        } else {
-          // Non-owner path: add to lobby and request approval
-          addToLobby(roomId, socket.id, socket.userId, socket.displayName);
-          // Find room owner's socket and notify them of the join request
-          const roomSet = io.sockets.adapter.rooms.get(roomId);
-          if (roomSet) {
-            for (const sid of roomSet) {
-              const s = io.sockets.sockets.get(sid);
-              if (s?.userId === room.created_by) {
-                s.emit('pending-join-request', {
-                  socketId: socket.id,
-                  userId: socket.userId,
-                  displayName: socket.displayName,
-                });
-                break;
-              }
-            }
+        const role = await getRole(roomId, userId);
+        // Owners and co-hosts always get in, whatever the admission policy
+        if (isModerator(role)) {
+          await admitToRoom(io, socket, roomId, role);
+          return;
+        }
+
+        if (room.admission_policy === 'locked') {
+          socket.emit('room-locked', { roomId });
+          return;
+        }
+
+        // Invitees skip the passcode and the lobby; a locked meeting still keeps them out
+        const invited = !guest && (await isInvited(roomId, userId));
+
+        if (room.has_passcode && !invited) {
+          const passcode = options?.passcode;
+          if (passcode === undefined) {
+            socket.emit('passcode-required', { roomId, invalid: false });
+            return;
+          }
+          // Counted before checking, so parallel guesses can't all slip under the limit
+          const userKey = `user:${userId}`;
+          const addressKey = `address:${socket.handshake.address}`;
+          const userAttempts = await store.addPasscodeAttempt(roomId, userKey, PASSCODE_ATTEMPT_WINDOW_SECONDS);
+          const addressAttempts = await store.addPasscodeAttempt(roomId, addressKey, PASSCODE_ATTEMPT_WINDOW_SECONDS);
+          if (userAttempts > MAX_PASSCODE_ATTEMPTS) {
+            socket.emit('join-error', { message: 'Too many incorrect passcodes, try again later' });
+            return;
           }
-          // Notify requesting user they're waiting for approval
-          socket.emit('waiting-for-host');
+          const excess = addressAttempts - PASSCODE_SLOWDOWN_AFTER_PER_ADDRESS;
+          if (excess > 0) {
+            const wait = Math.min(excess * PASSCODE_SLOWDOWN_STEP_MS, MAX_PASSCODE_SLOWDOWN_MS);
+            await new Promise((resolve) => setTimeout(resolve, wait));
+            if (socket.disconnected) return;
+          }
+          if (!(await verifyPasscode(passcode, await getRoomPasscodeHash(roomId)))) {
+            socket.emit('passcode-required', { roomId, invalid: true });
+            return;
+          }
+          // Right answers don't count, so people sharing an office address aren't locked out by each other
+          await store.clearPasscodeAttempts(roomId, userKey);
+          await store.clearPasscodeAttempts(roomId, addressKey);
+        }
+
+        const hostPresent = await isHostPresent(roomId);
+        // Skip the lobby for invitees, open rooms, allowlisted domains, and auto-admit rooms without a
+        // host; guests always wait for someone to let them in
+        if (
+          !guest &&
+          (invited ||
+            room.admission_policy === 'open' ||
+            (!hostPresent && room.absent_host_policy === 'auto-admit') ||
+            (await isDomainAllowed(room, userId)))
+        ) {
+          await admitToRoom(io, socket, roomId, role);
+          return;
         }
+
+        // Everyone else: add to lobby and request approval
+        await store.addLobbyEntry({
+          socketId: socket.id,
+          roomId,
+          userId,
+          displayName: socket.data.displayName,
+          nodeId: NODE_ID,
+          requestedAt: new Date().toISOString(),
+        });
+        // Notify every moderator in the room so any of them can admit
+        await notifyModerators(io, roomId, 'pending-join-request', {
+          socketId: socket.id,
+          userId,
+          displayName: socket.data.displayName,
+        });
+
+        // Give up after the room's lobby timeout instead of waiting forever
+        const timeoutSeconds = room.lobby_timeout_seconds ?? 0;
+        if (timeoutSeconds > 0) {
+          clearLobbyTimer(socket.id);
+          lobbyTimers.set(
+            socket.id,
+            setTimeout(async () => {
+              lobbyTimers.delete(socket.id);
+              try {
+                // Already admitted or declined, possibly by a moderator on another instance
+                const entry = await store.getLobbyEntry(socket.id);
+                if (!entry || entry.roomId !== roomId) return;
+                await store.removeLobbyEntry(socket.id);
+                socket.emit('lobby-timeout', { roomId, hostPresent: await isHostPresent(roomId) });
+                await notifyModerators(io, roomId, 'pending-request-cancelled', { socketId: socket.id });
+              } catch (err) {
+                console.error('Lobby timeout error:', err);
+              }
+            }, timeoutSeconds * 1000)
+          );
+        }
+
+        // Notify requesting user they're waiting for approval
+        socket.emit('waiting-for-host', { hostPresent, timeoutSeconds });
       } catch (err) {
+        console.error('Join room error:', err);
         socket.emit('join-error', { message: 'Failed to join room' });
       }
     });
 
-    socket.on('accept-join', async (requestingSocketId) => {
-      const roomId = socket.roomId;
-      if (!roomId) return;
-      // Verify room exists and user is the owner
-      const room = await getRoom(roomId);
-      if (!room || room.created_by !== socket.userId) return;
+    on('accept-join', async (requestingSocketId) => {
+      const moderator = await me();
+      // Only owners and co-hosts can admit
+      if (!moderator || !isModerator(moderator.role)) return;
+      const roomId = moderator.roomId;
 
       // Find the pending request in lobby
-      const list = lobby.get(roomId);
-      const pending = list?.find((p) => p.socketId === requestingSocketId);
-      if (!pending) return;
+      const pending = await store.getLobbyEntry(requestingSocketId);
+      if (!pending || pending.roomId !== roomId) return;
 
-      // Get the requesting user's socket
-      const targetSocket = io.sockets.sockets.get(requestingSocketId);
+      // The requesting socket may be connected to another instance
+      const targetSocket = await findSocket(io, requestingSocketId);
       if (!targetSocket) {
         // Socket disconnected, clean up lobby entry
-        removeFromLobby(roomId, requestingSocketId);
+        await store.removeLobbyEntry(requestingSocketId);
         return;
       }
 
-      // Remove from lobby and add to room
-      removeFromLobby(roomId, requestingSocketId);
-      targetSocket.displayName = pending.displayName;
-      targetSocket.join(roomId);
-      targetSocket.roomId = roomId;
-
-      // Notify all room participants that user joined
-      socket.to(roomId).emit('user-joined', {
-        userId: pending.userId,
-        socketId: targetSocket.id,
-        displayName: pending.displayName,
-      });
-      // Confirm join to the newly accepted user
-      targetSocket.emit('room-joined', { roomId, isOwner: false });
+      await admitToRoom(io, targetSocket, roomId, await getRole(roomId, pending.userId));
+      // Other moderators can drop the request from their banner
+      await notifyModerators(io, roomId, 'pending-request-cancelled', { socketId: requestingSocketId });
     });
 
-    socket.on('reject-join', async (requestingSocketId) => {
-      const roomId = socket.roomId;
-      if (!roomId) return;
-      // Verify room exists and user is the owner
-      const room = await getRoom(roomId);
-      if (!room || room.created_by !== socket.userId) return;
+    on('reject-join', async (requestingSocketId) => {
+      const moderator = await me();
+      // Only owners and co-hosts can reject
+      if (!moderator || !isModerator(moderator.role)) return;
+      const roomId = moderator.roomId;
 
+      const pending = await store.getLobbyEntry(requestingSocketId);
+      if (!pending || pending.roomId !== roomId) return;
       // Remove from lobby and notify user
-      removeFromLobby(roomId, requestingSocketId);
+      await store.removeLobbyEntry(requestingSocketId);
       io.to(requestingSocketId).emit('join-rejected');
+      await notifyModerators(io, roomId, 'pending-request-cancelled', { socketId: requestingSocketId });
     });
 
-  
-    socket.on('kick-user', async (targetSocketId) => {
-      const roomId = socket.roomId;
-      if (!roomId) return;
-      // Verify room exists and user is the owner
-      const room = await getRoom(roomId);
-      if (!room || room.created_by !== socket.userId) return;
-
-      // Get target socket and verify they're in the room
-      const targetSocket = io.sockets.sockets.get(targetSocketId);
-      if (targetSocket && targetSocket.roomId === roomId) {
-        // Remove from room
-        targetSocket.leave(roomId);
-        targetSocket.roomId = null;
-        // Notify kicked user
-        targetSocket.emit('you-were-kicked');
-        // Notify remaining participants
-        socket.to(roomId).emit('user-left', {
-          userId: targetSocket.userId,
-          socketId: targetSocket.id,
-          displayName: targetSocket.displayName,
+
+    on('kick-user', async (targetSocketId) => {
+      const moderator = await me();
+      // Moderators can only remove people below their own role
+      if (!moderator || !isModerator(moderator.role)) return;
+
+      // Verify the target is in the same room
+      const target = await store.getParticipant(targetSocketId);
+      if (target && target.roomId === moderator.roomId && outranks(moderator.role, target.role)) {
+        // Notify kicked user, then remove them and tell everyone else
+        io.to(target.socketId).emit('you-were-kicked');
+        await leaveCall(io, target, 'kicked');
+      }
+    });
+
+
+    on('transfer-host', async (targetSocketId, cb) => {
+      const owner = await me();
+      if (!owner) return cb?.({ error: 'Not in a room' });
+      // Only the owner can hand off the room
+      if (owner.role !== 'owner') return cb?.({ error: 'Only the host can transfer the room' });
+      const roomId = owner.roomId;
+
+      const target = await store.getParticipant(targetSocketId);
+      if (!target || target.roomId !== roomId || target.userId === userId) {
+        return cb?.({ error: 'Participant not found' });
+      }
+      if (isGuestUserId(target.userId)) return cb?.({ error: 'Guests cannot become host' });
+
+      try {
+        await transferRoomOwnership(roomId, userId, target.userId);
+        // Previous owner stays on as co-host so they can still help moderate
+        await notifyRoleChange(io, roomId, target.userId, 'owner');
+        await notifyRoleChange(io, roomId, userId, 'co-host');
+        io.to(roomId).emit('host-transferred', {
+          from: userId,
+          to: target.userId,
+          displayName: target.displayName,
         });
+        cb?.({ ok: true });
+      } catch (err) {
+        console.error('Host transfer error:', err);
+        cb?.({ error: 'Failed to transfer host' });
+      }
+    });
+
+
+    on('get-pending-requests', async (cb) => {
+      const participant = await me();
+      if (!participant || !isModerator(participant.role)) return cb?.([]);
+      cb?.(await getPendingRequests(participant.roomId));
+    });
+
+
+    on('send-message', async (body, cb) => {
+      const participant = await me();
+      // Only admitted participants can chat (lobby users aren't participants yet)
+      if (!participant) return cb?.({ error: 'Not in a room' });
+      if (participant.role === 'viewer') return cb?.({ error: 'Viewers cannot send messages' });
+      const text = typeof body === 'string' ? body.trim() : '';
+      if (!text) return cb?.({ error: 'Message is empty' });
+      if (text.length > MAX_MESSAGE_LENGTH) return cb?.({ error: 'Message is too long' });
+
+      try {
+        const message = await createMessage({
+          roomId: participant.roomId,
+          userId,
+          displayName: participant.displayName,
+          body: text,
+        });
+        // Broadcast to everyone in the room, including the sender
+        io.to(participant.roomId).emit('chat-message', message);
+        cb?.({ message });
+      } catch (err) {
+        console.error('Chat message error:', err);
+        cb?.({ error: 'Failed to send message' });
+      }
+    });
+
+
+    on('screen-share', async (sharing) => {
+      const participant = await me();
+      if (!participant) return;
+      if (sharing && participant.role === 'viewer') return;
+      await store.updateParticipant(socket.id, { isSharingScreen: !!sharing });
+      // Tell everyone else who is presenting so they can switch layouts
+      socket.to(participant.roomId).emit(sharing ? 'screen-share-started' : 'screen-share-stopped', {
+        userId,
+        socketId: socket.id,
+      });
+    });
+
+
+    // Sent on every local mic/camera toggle; also accepted before joining so user-joined is accurate
+    on('media-state', async (state) => {
+      if (!state || typeof state !== 'object') return;
+      const patch = {};
+      if (typeof state.isMuted === 'boolean') patch.isMuted = socket.data.isMuted = state.isMuted;
+      if (typeof state.isVideoOff === 'boolean') patch.isVideoOff = socket.data.isVideoOff = state.isVideoOff;
+      const updated = await store.updateParticipant(socket.id, patch);
+      if (updated) broadcastMediaState(io, updated);
+    });
+
+
+    on('mute-participant', async (targetSocketId) => {
+      const moderator = await me();
+      if (!moderator || !isModerator(moderator.role)) return;
+      const target = await store.getParticipant(targetSocketId);
+      if (target && target.roomId === moderator.roomId && outranks(moderator.role, target.role)) {
+        await forceMute(io, target, moderator);
+      }
+    });
+
+
+    on('mute-all', async () => {
+      const moderator = await me();
+      if (!moderator || !isModerator(moderator.role)) return;
+      for (const p of await store.listParticipants(moderator.roomId)) {
+        if (p.socketId !== socket.id && !p.isMuted && outranks(moderator.role, p.role)) {
+          await forceMute(io, p, moderator);
+        }
+      }
+    });
+
+
+    // Unmuting someone always needs their consent; this only asks
+    on('ask-to-unmute', async (targetSocketId) => {
+      const moderator = await me();
+      if (!moderator || !isModerator(moderator.role)) return;
+      const target = await store.getParticipant(targetSocketId);
+      if (target && target.roomId === moderator.roomId && target.isMuted) {
+        io.to(target.socketId).emit('unmute-requested', { from: socket.id, displayName: moderator.displayName ?? null });
       }
     });
 
-    
-    socket.on('get-pending-requests', (cb) => {
-      const roomId = socket.roomId;
-      if (!roomId) return cb?.([]);
-      cb?.(getPendingForRoom(roomId));
+
+    on('raise-hand', async () => {
+      const participant = await me();
+      if (!participant) return;
+      const raised = await store.raiseHand({
+        socketId: socket.id,
+        roomId: participant.roomId,
+        userId,
+        displayName: participant.displayName ?? null,
+        nodeId: NODE_ID,
+        raisedAt: new Date().toISOString(),
+      });
+      if (raised) await broadcastHandQueue(io, participant.roomId);
+    });
+
+
+    // Anyone can lower their own hand; moderators can lower anyone's
+    on('lower-hand', async (targetSocketId) => {
+      const participant = await me();
+      if (!participant) return;
+      const target = targetSocketId || socket.id;
+      if (target !== socket.id && !isModerator(participant.role)) return;
+      const hand = (await store.listHands(participant.roomId)).find((h) => h.socketId === target);
+      if (hand && (await store.lowerHand(target))) await broadcastHandQueue(io, participant.roomId);
+    });
+
+
+    on('call-on-next', async () => {
+      const moderator = await me();
+      if (!moderator || !isModerator(moderator.role)) return;
+      const roomId = moderator.roomId;
+      const next = (await store.listHands(roomId))[0];
+      if (!next) return;
+      await store.lowerHand(next.socketId);
+      io.to(next.socketId).emit('called-on', { by: moderator.displayName ?? null });
+      io.to(roomId).emit('hand-called', { socketId: next.socketId, userId: next.userId, displayName: next.displayName });
+      await broadcastHandQueue(io, roomId);
+    });
+
+
+    on('get-hand-queue', async (cb) => {
+      const participant = await me();
+      cb?.(participant ? (await store.listHands(participant.roomId)).map(toRaisedHand) : []);
     });
 
 
@@ -211,48 +710,129 @@ export function setupSignaling(httpServer) {
       if (to) io.to(to).emit('offer', { from: socket.id, sdp });
     });
 
-    
+
     socket.on('answer', ({ to, sdp }) => {
       if (to) io.to(to).emit('answer', { from: socket.id, sdp });
     });
 
-    
+
     socket.on('ice-candidate', ({ to, candidate }) => {
       if (to) io.to(to).emit('ice-candidate', { from: socket.id, candidate });
     });
 
-    
-    socket.on('get-participants', (roomId, cb) => {
-      const room = roomId ? io.sockets.adapter.rooms.get(roomId) : null;
-      if (!room) return cb?.([]);
-      // Build participants list from all sockets in the room
-      const participants = [];
-      for (const sid of room) {
-        const s = io.sockets.sockets.get(sid);
-        if (s?.userId)
-          participants.push({
-            socketId: s.id,
-            userId: s.userId,
-            displayName: s.displayName ?? null,
-          });
+
+    // Everyone in the call is told when someone records. In rooms that require approval,
+    // participants below co-host ask first; a moderator's approval lasts for the rest of the call.
+    on('start-recording', async (cb) => {
+      const participant = await me();
+      if (!participant) return cb?.({ error: 'Not in a room' });
+      if (participant.role === 'viewer') return cb?.({ error: 'Viewers cannot record' });
+      if (isGuestUserId(userId)) return cb?.({ error: 'Guests cannot record' });
+      const roomId = participant.roomId;
+
+      if (!isModerator(participant.role) && !participant.recordingApproved) {
+        const room = await getRoom(roomId);
+        if (room?.recording_requires_approval) {
+          if (!participant.recordingRequested) {
+            await store.updateParticipant(socket.id, { recordingRequested: true });
+            await notifyModerators(io, roomId, 'recording-request', toRecorder(participant));
+          }
+          return cb?.({ pending: true });
+        }
       }
-      cb?.(participants);
+
+      const updated = await store.updateParticipant(socket.id, { isRecording: true });
+      if (!updated) return cb?.({ error: 'Not in a room' });
+      io.to(roomId).emit('recording-started', toRecorder(updated));
+      cb?.({ ok: true });
+    });
+
+
+    on('stop-recording', async () => {
+      const participant = await me();
+      if (!participant?.isRecording) return;
+      await store.updateParticipant(socket.id, { isRecording: false });
+      io.to(participant.roomId).emit('recording-stopped', toRecorder(participant));
     });
 
-    
-    socket.on('disconnect', () => {
+
+    on('respond-to-recording-request', async (targetSocketId, approve) => {
+      const moderator = await me();
+      if (!moderator || !isModerator(moderator.role)) return;
+      const target = await store.getParticipant(targetSocketId);
+      if (!target || target.roomId !== moderator.roomId || !target.recordingRequested) return;
+
+      await store.updateParticipant(target.socketId, { recordingRequested: false, recordingApproved: !!approve });
+      io.to(target.socketId).emit(approve ? 'recording-approved' : 'recording-denied', {
+        by: moderator.displayName ?? null,
+      });
+      await notifyModerators(io, moderator.roomId, 'recording-request-resolved', { socketId: target.socketId });
+    });
+
+
+    // Bookmarks every recording running in the room, whoever is making it
+    on('add-marker', async (label, cb) => {
+      const participant = await me();
+      if (!participant) return cb?.({ error: 'Not in a room' });
+      if (participant.role === 'viewer') return cb?.({ error: 'Viewers cannot add markers' });
+      if (isGuestUserId(userId)) return cb?.({ error: 'Guests cannot add markers' });
+      const text = (typeof label === 'string' ? label.trim() : '') || 'Bookmark';
+      if (text.length > MAX_MARKER_LABEL_LENGTH) return cb?.({ error: 'Label is too long' });
+
+      const recorders = (await store.listParticipants(participant.roomId)).filter((p) => p.isRecording);
+      if (recorders.length === 0) return cb?.({ error: 'Nothing is being recorded' });
+      try {
+        const marked = await addRecordingMarkers({
+          roomId: participant.roomId,
+          recorderIds: [...new Set(recorders.map((p) => p.userId))],
+          userId,
+          displayName: participant.displayName ?? null,
+          label: text,
+        });
+        if (marked === 0) return cb?.({ error: 'Nothing is being recorded' });
+        io.to(participant.roomId).emit('marker-added', {
+          userId,
+          displayName: participant.displayName ?? null,
+          label: text,
+        });
+        cb?.({ ok: true });
+      } catch (err) {
+        console.error('Add marker error:', err);
+        cb?.({ error: 'Failed to add marker' });
+      }
+    });
+
+
+    on('get-recording-requests', async (cb) => {
+      const participant = await me();
+      if (!participant || !isModerator(participant.role)) return cb?.([]);
+      cb?.(await getRecordingRequests(participant.roomId));
+    });
+
+    on('get-participants', async (roomId, cb) => {
+      // Participants on every instance, from the shared store; only for people in that call
+      const participant = await me();
+      if (!participant || participant.roomId !== roomId) return cb?.([]);
+      cb?.((await store.listParticipants(roomId)).map(toPublicParticipant));
+    });
+
+    on('disconnect', async (disconnectReason) => {
+      clearLobbyTimer(socket.id);
       // Remove from lobby if they were waiting for approval
-      removeFromLobby(socket.roomId, socket.id);
+      const waiting = await store.removeLobbyEntry(socket.id);
+      if (waiting) {
+        await notifyModerators(io, waiting.roomId, 'pending-request-cancelled', { socketId: socket.id });
+      }
       // If they were in a room, notify other participants
-      if (socket.roomId) {
-        socket.to(socket.roomId).emit('user-left', {
-          userId: socket.userId,
-          socketId: socket.id,
-          displayName: socket.displayName,
-        });
+      const participant = await me();
+      if (participant) {
+        // The client closes its socket when someone leaves; anything else is a dropped connection
+        const reason = disconnectReason === 'client namespace disconnect' ? 'left' : 'disconnected';
+        await leaveCall(io, participant, reason);
+        await handleHostDeparture(io, participant.roomId);
       }
     });
   });
 
   return io;
-}
\ No newline at end of file
+}
@@ -0,0 +1,29 @@
+import os from 'os';
+import { createAdapter } from '@socket.io/postgres-adapter';
+import { pool } from '../db/index.js';
+import { createMemoryStore } from './memoryStore.js';
+import { createPostgresStore } from './postgresStore.js';
+
+/**
+ * Identifies this backend instance in shared state. Keep it stable per replica (e.g. the
+ * pod or container name) so a restarted node can clean up after its previous run.
+ */
+export const NODE_ID = process.env.NODE_ID || os.hostname();
+
+const STATE_STORES = ['memory', 'postgres'];
+
+/**
+ * STATE_STORE=memory (default) keeps signaling state in this process.
+ * STATE_STORE=postgres shares it through the database and also returns the Socket.IO
+ * Postgres adapter, both of which are needed to run more than one backend instance.
+ */
+export function createStateStore() {
+  const kind = process.env.STATE_STORE || 'memory';
+  if (!STATE_STORES.includes(kind)) {
+    throw new Error(`STATE_STORE must be one of ${STATE_STORES.join(', ')}`);
+  }
+  if (kind === 'postgres') {
+    return { store: createPostgresStore(pool), adapter: createAdapter(pool, { uid: NODE_ID }) };
+  }
+  return { store: createMemoryStore(), adapter: null };
+}
@@ -0,0 +1,91 @@
+/**
+ * Single-process signaling state. Fine for one backend instance; everything is lost on
+ * restart and other instances can't see it.
+ */
+export function createMemoryStore() {
+  // All keyed by socket id; Map insertion order doubles as lobby and hand-queue order
+  const lobby = new Map();
+  const participants = new Map();
+  const hands = new Map();
+  // Wrong-passcode counters keyed by "<roomId> <key>": { count, expiresAt }
+  const passcodeAttempts = new Map();
+
+  const inRoom = (map, roomId) => [...map.values()].filter((e) => e.roomId === roomId).map((e) => ({ ...e }));
+  const take = (map, socketId) => {
+    const entry = map.get(socketId);
+    map.delete(socketId);
+    return entry ? { ...entry } : null;
+  };
+
+  return {
+    async addLobbyEntry(entry) {
+      if (!lobby.has(entry.socketId)) lobby.set(entry.socketId, { ...entry });
+    },
+    async removeLobbyEntry(socketId) {
+      return take(lobby, socketId);
+    },
+    async getLobbyEntry(socketId) {
+      const entry = lobby.get(socketId);
+      return entry ? { ...entry } : null;
+    },
+    async listLobby(roomId) {
+      return inRoom(lobby, roomId);
+    },
+
+    async setParticipant(participant) {
+      participants.set(participant.socketId, { ...participant });
+    },
+    async updateParticipant(socketId, patch) {
+      const current = participants.get(socketId);
+      if (!current) return null;
+      const updated = { ...current, ...patch };
+      participants.set(socketId, updated);
+      return { ...updated };
+    },
+    async getParticipant(socketId) {
+      const p = participants.get(socketId);
+      return p ? { ...p } : null;
+    },
+    async removeParticipant(socketId) {
+      return take(participants, socketId);
+    },
+    async listParticipants(roomId) {
+      return inRoom(participants, roomId);
+    },
+
+    async raiseHand(hand) {
+      if (hands.has(hand.socketId)) return false;
+      hands.set(hand.socketId, { ...hand });
+      return true;
+    },
+    async lowerHand(socketId) {
+      return hands.delete(socketId);
+    },
+    async listHands(roomId) {
+      return inRoom(hands, roomId);
+    },
+
+    async addPasscodeAttempt(roomId, key, windowSeconds) {
+      const now = Date.now();
+      for (const [k, a] of passcodeAttempts) if (a.expiresAt <= now) passcodeAttempts.delete(k);
+      const entry = passcodeAttempts.get(`${roomId} ${key}`) ?? { count: 0, expiresAt: now + windowSeconds * 1000 };
+      entry.count += 1;
+      passcodeAttempts.set(`${roomId} ${key}`, entry);
+      return entry.count;
+    },
+    async clearPasscodeAttempts(roomId, key) {
+      passcodeAttempts.delete(`${roomId} ${key}`);
+    },
+
+    async clearRoom(roomId) {
+      for (const map of [lobby, participants, hands]) {
+        for (const [socketId, e] of map) if (e.roomId === roomId) map.delete(socketId);
+      }
+    },
+    async purgeNode(nodeId) {
+      for (const map of [lobby, participants, hands]) {
+        for (const [socketId, e] of map) if (e.nodeId === nodeId) map.delete(socketId);
+      }
+    },
+  };
+}
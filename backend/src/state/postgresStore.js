@@ -0,0 +1,194 @@
+/**
+ * Signaling state in Postgres so every backend instance sees the same lobby, participants
+ * and raise-hand queue. Tables live in db/schema.sql.
+ */
+
+const PARTICIPANT_COLUMNS = {
+  roomId: 'room_id',
+  userId: 'user_id',
+  displayName: 'display_name',
+  role: 'role',
+  isMuted: 'is_muted',
+  isVideoOff: 'is_video_off',
+  isSharingScreen: 'is_sharing_screen',
+  isRecording: 'is_recording',
+  recordingRequested: 'recording_requested',
+  recordingApproved: 'recording_approved',
+};
+
+function toParticipant(row) {
+  return {
+    socketId: row.socket_id,
+    roomId: row.room_id,
+    userId: row.user_id,
+    displayName: row.display_name,
+    role: row.role,
+    isMuted: row.is_muted,
+    isVideoOff: row.is_video_off,
+    isSharingScreen: row.is_sharing_screen,
+    isRecording: row.is_recording,
+    recordingRequested: row.recording_requested,
+    recordingApproved: row.recording_approved,
+    nodeId: row.node_id,
+    joinedAt: row.joined_at.getTime(),
+  };
+}
+
+function toLobbyEntry(row) {
+  return {
+    socketId: row.socket_id,
+    roomId: row.room_id,
+    userId: row.user_id,
+    displayName: row.display_name,
+    nodeId: row.node_id,
+    requestedAt: row.requested_at.toISOString(),
+  };
+}
+
+function toHand(row) {
+  return {
+    socketId: row.socket_id,
+    roomId: row.room_id,
+    userId: row.user_id,
+    displayName: row.display_name,
+    nodeId: row.node_id,
+    raisedAt: row.raised_at.toISOString(),
+  };
+}
+
+export function createPostgresStore(pool) {
+  const first = (res, map) => (res.rows[0] ? map(res.rows[0]) : null);
+
+  return {
+    async addLobbyEntry(entry) {
+      await pool.query(
+        `INSERT INTO signaling_lobby (socket_id, room_id, user_id, display_name, node_id)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (socket_id) DO NOTHING`,
+        [entry.socketId, entry.roomId, entry.userId, entry.displayName, entry.nodeId]
+      );
+    },
+    async removeLobbyEntry(socketId) {
+      const res = await pool.query('DELETE FROM signaling_lobby WHERE socket_id = $1 RETURNING *', [socketId]);
+      return first(res, toLobbyEntry);
+    },
+    async getLobbyEntry(socketId) {
+      const res = await pool.query('SELECT * FROM signaling_lobby WHERE socket_id = $1', [socketId]);
+      return first(res, toLobbyEntry);
+    },
+    async listLobby(roomId) {
+      const res = await pool.query('SELECT * FROM signaling_lobby WHERE room_id = $1 ORDER BY requested_at', [roomId]);
+      return res.rows.map(toLobbyEntry);
+    },
+
+    async setParticipant(p) {
+      await pool.query(
+        `INSERT INTO signaling_participants
+           (socket_id, room_id, user_id, display_name, role, is_muted, is_video_off, is_sharing_screen,
+            is_recording, recording_requested, recording_approved, node_id, joined_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, to_timestamp($13 / 1000.0))
+         ON CONFLICT (socket_id) DO UPDATE SET
+           room_id = EXCLUDED.room_id,
+           user_id = EXCLUDED.user_id,
+           display_name = EXCLUDED.display_name,
+           role = EXCLUDED.role,
+           is_muted = EXCLUDED.is_muted,
+           is_video_off = EXCLUDED.is_video_off,
+           is_sharing_screen = EXCLUDED.is_sharing_screen,
+           is_recording = EXCLUDED.is_recording,
+           recording_requested = EXCLUDED.recording_requested,
+           recording_approved = EXCLUDED.recording_approved,
+           node_id = EXCLUDED.node_id,
+           joined_at = EXCLUDED.joined_at`,
+        [
+          p.socketId,
+          p.roomId,
+          p.userId,
+          p.displayName,
+          p.role,
+          !!p.isMuted,
+          !!p.isVideoOff,
+          !!p.isSharingScreen,
+          !!p.isRecording,
+          !!p.recordingRequested,
+          !!p.recordingApproved,
+          p.nodeId,
+          p.joinedAt,
+        ]
+      );
+    },
+    async updateParticipant(socketId, patch) {
+      const fields = Object.keys(PARTICIPANT_COLUMNS).filter((key) => patch[key] !== undefined);
+      if (fields.length === 0) return this.getParticipant(socketId);
+      const assignments = fields.map((key, i) => `${PARTICIPANT_COLUMNS[key]} = $${i + 2}`).join(', ');
+      const res = await pool.query(
+        `UPDATE signaling_participants SET ${assignments} WHERE socket_id = $1 RETURNING *`,
+        [socketId, ...fields.map((key) => patch[key])]
+      );
+      return first(res, toParticipant);
+    },
+    async getParticipant(socketId) {
+      const res = await pool.query('SELECT * FROM signaling_participants WHERE socket_id = $1', [socketId]);
+      return first(res, toParticipant);
+    },
+    async removeParticipant(socketId) {
+      const res = await pool.query('DELETE FROM signaling_participants WHERE socket_id = $1 RETURNING *', [socketId]);
+      return first(res, toParticipant);
+    },
+    async listParticipants(roomId) {
+      const res = await pool.query(
+        'SELECT * FROM signaling_participants WHERE room_id = $1 ORDER BY joined_at',
+        [roomId]
+      );
+      return res.rows.map(toParticipant);
+    },
+
+    async raiseHand(hand) {
+      const res = await pool.query(
+        `INSERT INTO signaling_hands (socket_id, room_id, user_id, display_name, node_id)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (socket_id) DO NOTHING`,
+        [hand.socketId, hand.roomId, hand.userId, hand.displayName, hand.nodeId]
+      );
+      return res.rowCount > 0;
+    },
+    async lowerHand(socketId) {
+      const res = await pool.query('DELETE FROM signaling_hands WHERE socket_id = $1', [socketId]);
+      return res.rowCount > 0;
+    },
+    async listHands(roomId) {
+      const res = await pool.query('SELECT * FROM signaling_hands WHERE room_id = $1 ORDER BY seq', [roomId]);
+      return res.rows.map(toHand);
+    },
+
+    async addPasscodeAttempt(roomId, key, windowSeconds) {
+      // Expired windows are dropped so the next attempt starts a fresh one
+      await pool.query('DELETE FROM signaling_passcode_attempts WHERE expires_at <= NOW()');
+      const res = await pool.query(
+        `INSERT INTO signaling_passcode_attempts (room_id, attempt_key, attempts, expires_at)
+         VALUES ($1, $2, 1, NOW() + make_interval(secs => $3))
+         ON CONFLICT (room_id, attempt_key) DO UPDATE SET attempts = signaling_passcode_attempts.attempts + 1
+         RETURNING attempts`,
+        [roomId, key, windowSeconds]
+      );
+      return res.rows[0].attempts;
+    },
+    async clearPasscodeAttempts(roomId, key) {
+      await pool.query('DELETE FROM signaling_passcode_attempts WHERE room_id = $1 AND attempt_key = $2', [
+        roomId,
+        key,
+      ]);
+    },
+
+    async clearRoom(roomId) {
+      await pool.query('DELETE FROM signaling_lobby WHERE room_id = $1', [roomId]);
+      await pool.query('DELETE FROM signaling_participants WHERE room_id = $1', [roomId]);
+      await pool.query('DELETE FROM signaling_hands WHERE room_id = $1', [roomId]);
+    },
+    async purgeNode(nodeId) {
+      await pool.query('DELETE FROM signaling_lobby WHERE node_id = $1', [nodeId]);
+      await pool.query('DELETE FROM signaling_participants WHERE node_id = $1', [nodeId]);
+      await pool.query('DELETE FROM signaling_hands WHERE node_id = $1', [nodeId]);
+    },
+  };
+}
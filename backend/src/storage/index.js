@@ -0,0 +1,80 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { uploadDir } from '../uploads.js';
+import { createLocalStorage } from './localStorage.js';
+import { createS3Storage } from './s3Storage.js';
+
+export const STORAGE_DRIVERS = ['local', 's3'];
+
+/**
+ * STORAGE_DRIVER=local (default) keeps recordings in UPLOAD_DIR; STORAGE_DRIVER=s3 puts them in
+ * an S3-compatible bucket. New recordings go to this driver; existing ones stay readable from
+ * the driver recorded with them, so switching doesn't require migrating old files first.
+ */
+export const STORAGE_DRIVER = process.env.STORAGE_DRIVER || 'local';
+if (!STORAGE_DRIVERS.includes(STORAGE_DRIVER)) {
+  throw new Error(`STORAGE_DRIVER must be one of ${STORAGE_DRIVERS.join(', ')}`);
+}
+
+const CONTENT_TYPES = { '.mp4': 'video/mp4', '.webm': 'video/webm', '.jpg': 'image/jpeg' };
+
+export function contentTypeFor(key) {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream';
+}
+
+const drivers = new Map();
+
+function createStorage(driverId) {
+  if (driverId === 's3') {
+    return createS3Storage({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      publicEndpoint: process.env.S3_PUBLIC_ENDPOINT || undefined,
+      // MinIO and most self-hosted stores need path-style URLs
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      prefix: process.env.S3_PREFIX || '',
+      presignDownloads: process.env.S3_PRESIGNED_DOWNLOADS !== 'false',
+      presignTtlSeconds: parseInt(process.env.S3_PRESIGN_TTL_SECONDS || '900', 10),
+    });
+  }
+  return createLocalStorage(uploadDir);
+}
+
+/** The driver a recording is stored with; defaults to the one new recordings use */
+export function getStorage(driverId = STORAGE_DRIVER) {
+  if (!STORAGE_DRIVERS.includes(driverId)) throw new Error(`Unknown storage driver "${driverId}"`);
+  if (!drivers.has(driverId)) drivers.set(driverId, createStorage(driverId));
+  return drivers.get(driverId);
+}
+
+/** Remove objects from a driver; missing objects and empty keys are ignored */
+export async function removeStoredFiles(driverId, keys) {
+  const storage = getStorage(driverId);
+  await Promise.all(
+    [...new Set(keys.filter(Boolean))].map((key) =>
+      storage.remove(key).catch((err) => console.error('Failed to remove stored file', driverId, key, err))
+    )
+  );
+}
+
+/** Remove every rendition of the given recording rows (storage_driver, storage_key, mp4_path, thumbnail_path) */
+export async function removeRecordingFiles(recordings) {
+  await Promise.all(
+    recordings.map((r) => removeStoredFiles(r.storage_driver, [r.storage_key, r.mp4_path, r.thumbnail_path]))
+  );
+}
+
+/** Run fn with a path to the object on local disk, downloading it first if the driver is remote */
+export async function withLocalCopy(storage, key, fn) {
+  if (storage.localPath) return fn(storage.localPath(key));
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'recording-'));
+  try {
+    const filePath = path.join(dir, path.basename(key));
+    await storage.downloadTo(key, filePath);
+    return await fn(filePath);
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
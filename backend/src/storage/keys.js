@@ -0,0 +1,9 @@
+/**
+ * Keys this app writes: "<roomId>_<userId>_<timestamp or uploadId>" plus .webm/.mp4 for the
+ * recording and .mp4/.jpg for its rendition and thumbnail. Anything else in a store isn't ours.
+ */
+const RECORDING_KEY_PATTERN = /^(?:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|unknown)_[^/\\]+_[0-9a-z-]+\.(?:webm|mp4|jpg)$/i;
+
+export function isRecordingKey(key) {
+  return typeof key === 'string' && RECORDING_KEY_PATTERN.test(key);
+}
@@ -0,0 +1,73 @@
+import fs from 'fs';
+import path from 'path';
+import { isRecordingKey } from './keys.js';
+
+/**
+ * Keeps recordings as plain files in `root`. Keys are file names; uploads still being
+ * received are staged next to them as `<uploadId>.part` and are not objects of this store.
+ */
+export function createLocalStorage(root) {
+  fs.mkdirSync(root, { recursive: true });
+
+  const resolve = (key) => {
+    const filePath = path.resolve(root, key);
+    if (path.dirname(filePath) !== path.resolve(root)) throw new Error(`Invalid storage key: ${key}`);
+    return filePath;
+  };
+
+  return {
+    id: 'local',
+
+    localPath: resolve,
+
+    /** Move a local file into the store; the source file is gone afterwards */
+    async putFile(key, filePath) {
+      const target = resolve(key);
+      if (path.resolve(filePath) === target) return;
+      try {
+        await fs.promises.rename(filePath, target);
+      } catch (err) {
+        // Temp directories are often on another filesystem than the upload volume
+        if (err.code !== 'EXDEV') throw err;
+        await fs.promises.copyFile(filePath, target);
+        await fs.promises.rm(filePath, { force: true });
+      }
+    },
+
+    async stat(key) {
+      try {
+        const stat = await fs.promises.stat(resolve(key));
+        return { size: stat.size, mtime: stat.mtime };
+      } catch (err) {
+        if (err.code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+
+    async openReadStream(key, range) {
+      return fs.createReadStream(resolve(key), range);
+    },
+
+    async downloadTo(key, filePath) {
+      await fs.promises.copyFile(resolve(key), filePath);
+    },
+
+    async remove(key) {
+      await fs.promises.rm(resolve(key), { force: true });
+    },
+
+    async *list() {
+      for (const name of await fs.promises.readdir(root)) {
+        // Skips .gitkeep and the like, staged uploads and anything else that isn't a recording file
+        if (name.startsWith('.') || !isRecordingKey(name)) continue;
+        const stat = await fs.promises.stat(path.join(root, name)).catch(() => null);
+        if (stat?.isFile()) yield { key: name, mtime: stat.mtime };
+      }
+    },
+
+    // Files are streamed by the backend itself
+    async getDownloadUrl() {
+      return null;
+    },
+  };
+}
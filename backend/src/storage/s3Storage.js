@@ -0,0 +1,105 @@
+import fs from 'fs';
+import { pipeline } from 'stream/promises';
+import {
+  S3Client,
+  HeadObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+function isNotFound(err) {
+  return err?.name === 'NotFound' || err?.name === 'NoSuchKey' || err?.$metadata?.httpStatusCode === 404;
+}
+
+/**
+ * Keeps recordings in an S3-compatible bucket (AWS S3, MinIO, R2, ...). Credentials come from
+ * the SDK's usual sources (AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY, an instance role, ...).
+ * With presignDownloads, players and downloads are redirected to short-lived presigned URLs
+ * so the bytes don't pass through the backend.
+ */
+export function createS3Storage({
+  bucket,
+  region,
+  endpoint,
+  publicEndpoint,
+  forcePathStyle,
+  prefix = '',
+  presignDownloads,
+  presignTtlSeconds,
+}) {
+  if (!bucket) throw new Error('S3_BUCKET is required when STORAGE_DRIVER=s3');
+  const client = new S3Client({ region, endpoint, forcePathStyle });
+  // Browsers may need a different host than the backend uses (e.g. MinIO inside Docker)
+  const presignClient = publicEndpoint ? new S3Client({ region, endpoint: publicEndpoint, forcePathStyle }) : client;
+  const objectKey = (key) => `${prefix}${key}`;
+
+  return {
+    id: 's3',
+    prefix,
+
+    /** Upload a local file (multipart for large recordings); the source file is gone afterwards */
+    async putFile(key, filePath, { contentType } = {}) {
+      await new Upload({
+        client,
+        params: { Bucket: bucket, Key: objectKey(key), Body: fs.createReadStream(filePath), ContentType: contentType },
+      }).done();
+      await fs.promises.rm(filePath, { force: true });
+    },
+
+    async stat(key) {
+      try {
+        const head = await client.send(new HeadObjectCommand({ Bucket: bucket, Key: objectKey(key) }));
+        return { size: head.ContentLength, mtime: head.LastModified };
+      } catch (err) {
+        if (isNotFound(err)) return null;
+        throw err;
+      }
+    },
+
+    async openReadStream(key, { start, end } = {}) {
+      const res = await client.send(
+        new GetObjectCommand({
+          Bucket: bucket,
+          Key: objectKey(key),
+          Range: start === undefined ? undefined : `bytes=${start}-${end ?? ''}`,
+        })
+      );
+      return res.Body;
+    },
+
+    async downloadTo(key, filePath) {
+      await pipeline(await this.openReadStream(key), fs.createWriteStream(filePath));
+    },
+
+    async remove(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: objectKey(key) }));
+    },
+
+    async *list() {
+      let ContinuationToken;
+      do {
+        const page = await client.send(
+          new ListObjectsV2Command({ Bucket: bucket, Prefix: prefix || undefined, ContinuationToken })
+        );
+        for (const object of page.Contents ?? []) {
+          yield { key: object.Key.slice(prefix.length), mtime: object.LastModified };
+        }
+        ContinuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (ContinuationToken);
+    },
+
+    async getDownloadUrl(key, { fileName, contentType, download = false } = {}) {
+      if (!presignDownloads) return null;
+      const command = new GetObjectCommand({
+        Bucket: bucket,
+        Key: objectKey(key),
+        ResponseContentType: contentType,
+        ResponseContentDisposition: `${download ? 'attachment' : 'inline'}; filename="${fileName ?? key}"`,
+      });
+      return getSignedUrl(presignClient, command, { expiresIn: presignTtlSeconds });
+    },
+  };
+}
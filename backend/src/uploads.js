@@ -0,0 +1,21 @@
+import path from 'path';
+import fs from 'fs';
+
+export const uploadDir = process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads');
+
+// Ensure upload directory exists (multer won't create it)
+if (!fs.existsSync(uploadDir)) {
+  fs.mkdirSync(uploadDir, { recursive: true });
+}
+
+/** Remove files from the upload directory by name; missing files and empty names are ignored */
+export async function removeUploads(names) {
+  const unique = [...new Set(names.filter(Boolean))];
+  await Promise.all(
+    unique.map((name) =>
+      fs.promises.rm(path.join(uploadDir, path.basename(name)), { force: true }).catch((err) => {
+        console.error('Failed to remove upload file', name, err);
+      })
+    )
+  );
+}
@@ -1,17 +1,20 @@
-import { SignedIn, SignedOut, RedirectToSignIn } from '@clerk/clerk-react';
+import { useEffect } from 'react';
 import { Routes, Route, Navigate } from 'react-router-dom';
+import { useAuth, AUTH_PROVIDER } from './auth/context';
 import { Dashboard } from './pages/Dashboard';
 import { Room } from './pages/Room';
+import { JoinInvite } from './pages/JoinInvite';
+import { GuestJoin } from './pages/GuestJoin';
+import { SignIn } from './pages/SignIn';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  return (
-    <>
-      <SignedIn>{children}</SignedIn>
-      <SignedOut>
-        <RedirectToSignIn />
-      </SignedOut>
-    </>
-  );
+  const { isLoaded, isSignedIn, redirectToSignIn } = useAuth();
+
+  useEffect(() => {
+    if (isLoaded && !isSignedIn) redirectToSignIn();
+  }, [isLoaded, isSignedIn, redirectToSignIn]);
+
+  return isLoaded && isSignedIn ? <>{children}</> : null;
 }
 
 export default function App() {
@@ -33,6 +36,18 @@ export default function App() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/join/:token"
+        element={
+          <ProtectedRoute>
+            <JoinInvite />
+          </ProtectedRoute>
+        }
+      />
+      {/* No account needed; guests enter a name and wait in the lobby */}
+      <Route path="/guest/:roomId" element={<GuestJoin />} />
+      {/* Clerk hosts its own sign-in pages */}
+      {AUTH_PROVIDER === 'local' && <Route path="/sign-in" element={<SignIn />} />}
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
   );
@@ -29,23 +29,213 @@ export async function apiUpload(
   });
 }
 
+export type AbsentHostPolicy = 'lobby' | 'auto-admit';
+
+/** open: no lobby, lobby: host approves each join, locked: nobody new can join */
+export type AdmissionPolicy = 'open' | 'lobby' | 'locked';
+
 export type Room = {
   id: string;
   name: string;
   room_code?: string;
   created_by: string;
   created_at: string;
+  absent_host_policy?: AbsentHostPolicy;
+  lobby_timeout_seconds?: number;
+  promote_on_host_leave?: boolean;
+  admission_policy?: AdmissionPolicy;
+  allowed_domains?: string[];
+  has_passcode?: boolean;
+  /** Recordings older than this many days are deleted; null keeps them forever */
+  recording_retention_days?: number | null;
+  /** Participants below co-host need a moderator's approval before they record */
+  recording_requires_approval?: boolean;
+  /** First (or only) start of a scheduled meeting; null when the room isn't scheduled */
+  scheduled_start?: string | null;
+  duration_minutes?: number | null;
+  /** IANA zone the schedule repeats in, e.g. Europe/Berlin */
+  time_zone?: string | null;
+  /** RFC 5545 RRULE without the "RRULE:" prefix, e.g. FREQ=WEEKLY;BYDAY=TU */
+  recurrence_rule?: string | null;
+  /** Start of the next occurrence that hasn't finished (only on schedule responses) */
+  next_occurrence?: string | null;
+};
+
+/** Body of PUT /api/rooms/:roomId/schedule; startsAt is wall-clock time in timeZone */
+export type RoomSchedule = {
+  startsAt: string;
+  durationMinutes: number;
+  timeZone: string;
+  recurrenceRule?: string | null;
+};
+
+/** Fields accepted by PATCH /api/rooms/:roomId (owner only; co-hosts may change admissionPolicy) */
+export type RoomSettings = {
+  name?: string;
+  absentHostPolicy?: AbsentHostPolicy;
+  lobbyTimeoutSeconds?: number;
+  promoteOnHostLeave?: boolean;
+  admissionPolicy?: AdmissionPolicy;
+  allowedDomains?: string[];
+  /** New passcode, or null to remove it */
+  passcode?: string | null;
+  /** Days to keep recordings, or null to keep them forever */
+  recordingRetentionDays?: number | null;
+  recordingRequiresApproval?: boolean;
 };
 
+export type RoomRole = 'owner' | 'co-host' | 'member' | 'viewer';
+
+export type RoomMember = {
+  room_id: string;
+  user_id: string;
+  role: RoomRole;
+  granted_by: string | null;
+  created_at: string;
+};
+
+const ROLE_RANK: Record<RoomRole, number> = { owner: 3, 'co-host': 2, member: 1, viewer: 0 };
+
+/** Owners and co-hosts can admit, reject and remove people */
+export function isModeratorRole(role?: RoomRole | null): boolean {
+  return role === 'owner' || role === 'co-host';
+}
+
+/** Mirrors the backend rule: you can only act on people below your own role */
+export function outranksRole(actor?: RoomRole | null, target?: RoomRole | null): boolean {
+  return (actor ? ROLE_RANK[actor] : -1) > ROLE_RANK[target ?? 'member'];
+}
+
+/** Guests joined with a GuestPass; they can't record or be given a role */
+export function isGuestUserId(userId?: string | null): boolean {
+  return !!userId?.startsWith('guest:');
+}
+
+/** 'local' is the recorder's own camera and mic; 'composite' is the whole meeting */
+export type RecordingMode = 'local' | 'composite';
+
+/** Post-processing (duration fix, MP4, thumbnail) runs in the background after upload */
+export type RecordingProcessingStatus = 'pending' | 'processing' | 'ready' | 'failed';
+
 export type Recording = {
   id: string;
   user_id: string;
   room_id: string;
-  file_path: string;
+  /** Where the file lives: 'local' disk or 's3', and its key there */
+  storage_driver: 'local' | 's3';
+  storage_key: string;
   duration_seconds: number;
   started_at: string;
   ended_at: string;
   created_at: string;
+  mode: RecordingMode;
+  processing_status: RecordingProcessingStatus;
+  processing_error: string | null;
+  mp4_path: string | null;
+  thumbnail_path: string | null;
+  title: string | null;
+  description: string | null;
+  /** Disk space used by all renditions; counts against the uploader's quota */
+  size_bytes: number;
+};
+
+/** A moment bookmarked during the call; offset_ms is from the start of the recording */
+export type RecordingMarker = {
+  id: string;
+  recording_id: string;
+  user_id: string;
+  display_name: string | null;
+  label: string;
+  offset_ms: number;
+  marked_at: string;
+};
+
+/** Storage counted against the signed-in user's quota; quota_bytes is null when unlimited */
+export type RecordingUsage = {
+  used_bytes: number;
+  quota_bytes: number | null;
+};
+
+/** The uploader's storage quota is full; `nextChunk` is how many chunks the server kept */
+export class QuotaExceededError extends Error {
+  nextChunk: number;
+
+  constructor(message: string, nextChunk: number) {
+    super(message);
+    this.name = 'QuotaExceededError';
+    this.nextChunk = nextChunk;
+  }
+}
+
+/** Someone a recording was shared with, beyond its room's members */
+export type RecordingShare = {
+  user_id: string;
+  email: string | null;
+  granted_by: string;
+  created_at: string;
+};
+
+/** Expiring public link; `token` goes into getSharedRecordingUrl */
+export type RecordingShareLink = {
+  id: string;
+  recording_id: string;
+  created_by: string;
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+  token: string;
+};
+
+export type RecordingSharing = {
+  shares: RecordingShare[];
+  links: RecordingShareLink[];
+};
+
+/** A person or a /join/:token link; invitees skip the lobby */
+export type RoomInvite = {
+  id: string;
+  room_id: string;
+  /** Null for an email nobody has signed up with yet */
+  user_id: string | null;
+  email: string | null;
+  /** Links only; goes into getInviteUrl */
+  token: string | null;
+  /** Null for unlimited uses */
+  max_uses: number | null;
+  use_count: number;
+  expires_at: string | null;
+  created_by: string;
+  created_at: string;
+};
+
+export type RoomInvites = {
+  people: RoomInvite[];
+  links: RoomInvite[];
+};
+
+/** Signed pass for joining one room without an account; it always lands in the lobby */
+export type GuestPass = {
+  token: string;
+  expiresAt: string;
+  userId: string;
+  displayName: string;
+  room: { id: string; name: string };
+};
+
+export type ChatMessage = {
+  id: string;
+  room_id: string;
+  user_id: string;
+  display_name: string | null;
+  body: string;
+  created_at: string;
+};
+
+export type IceServerConfig = {
+  iceServers: RTCIceServer[];
+  ttl: number;
+  /** When the TURN credentials stop working; null when only STUN is configured */
+  expiresAt: string | null;
 };
 
 export async function listRooms(token: string): Promise<Room[]> {
@@ -54,16 +244,104 @@ export async function listRooms(token: string): Promise<Room[]> {
   return res.json();
 }
 
-export async function createRoom(name: string, token: string): Promise<Room> {
+export async function createRoom(name: string, token: string, schedule?: RoomSchedule): Promise<Room> {
   const res = await apiFetch('/api/rooms', {
     method: 'POST',
     token,
-    body: JSON.stringify({ name }),
+    body: JSON.stringify({ name, schedule }),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to create room');
+  }
+  return res.json();
+}
+
+/** Scheduled meetings the user has a role in, soonest next occurrence first */
+export async function listUpcomingRooms(token: string): Promise<Room[]> {
+  const res = await apiFetch('/api/rooms/upcoming', { token });
+  if (!res.ok) throw new Error('Failed to list upcoming meetings');
+  return res.json();
+}
+
+export async function updateRoomSchedule(roomId: string, schedule: RoomSchedule, token: string): Promise<Room> {
+  const res = await apiFetch(`/api/rooms/${roomId}/schedule`, {
+    method: 'PUT',
+    token,
+    body: JSON.stringify(schedule),
   });
-  if (!res.ok) throw new Error('Failed to create room');
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to update schedule');
+  }
+  return res.json();
+}
+
+export async function clearRoomSchedule(roomId: string, token: string): Promise<Room> {
+  const res = await apiFetch(`/api/rooms/${roomId}/schedule`, { method: 'DELETE', token });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to clear schedule');
+  }
   return res.json();
 }
 
+/** The room's .ics as an object URL, for a download link */
+export async function fetchRoomCalendar(roomId: string, token: string): Promise<string> {
+  const res = await apiFetch(`/api/rooms/${roomId}/calendar.ics`, { token });
+  if (!res.ok) throw new Error('Failed to download calendar file');
+  return URL.createObjectURL(await res.blob());
+}
+
+export type LeaveReason = 'left' | 'disconnected' | 'kicked' | 'server-restart';
+
+/** One stint in a call; rejoining adds another entry */
+export type AttendanceEntry = {
+  id: string;
+  session_id: string;
+  user_id: string;
+  display_name: string | null;
+  joined_at: string;
+  left_at: string | null;
+  leave_reason: LeaveReason | null;
+};
+
+/** From the first person entering an empty call until the last one leaves */
+export type MeetingSession = {
+  id: string;
+  room_id: string;
+  started_at: string;
+  ended_at: string | null;
+  attendance: AttendanceEntry[];
+};
+
+export async function listMeetingSessions(roomId: string, token: string): Promise<MeetingSession[]> {
+  const res = await apiFetch(`/api/rooms/${roomId}/sessions`, { token });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to load meeting history');
+  }
+  return res.json();
+}
+
+/** Object URL of the attendance CSV for every listed session, or just one; revoke it after use */
+export async function fetchAttendanceCsv(roomId: string, token: string, sessionId?: string): Promise<string> {
+  const query = sessionId ? `?session=${encodeURIComponent(sessionId)}` : '';
+  const res = await apiFetch(`/api/rooms/${roomId}/attendance.csv${query}`, { token });
+  if (!res.ok) throw new Error('Failed to download attendance');
+  return URL.createObjectURL(await res.blob());
+}
+
+/** Subscription URL of the user's calendar feed; anyone with it can read the feed */
+export async function getCalendarFeedUrl(token: string, options: { reset?: boolean } = {}): Promise<string> {
+  const res = options.reset
+    ? await apiFetch('/api/calendar/feed/reset', { method: 'POST', token })
+    : await apiFetch('/api/calendar/feed', { token });
+  if (!res.ok) throw new Error('Failed to get calendar feed');
+  const { path } = await res.json();
+  return `${API_URL}${path}`;
+}
+
 export async function getRoom(roomId: string, token: string): Promise<Room | null> {
   const res = await apiFetch(`/api/rooms/${roomId}`, { token });
   if (res.status === 404) return null;
@@ -78,57 +356,415 @@ export async function getRoomByCode(code: string, token: string): Promise<Room |
   return res.json();
 }
 
+export async function updateRoom(roomId: string, settings: RoomSettings, token: string): Promise<Room> {
+  const res = await apiFetch(`/api/rooms/${roomId}`, {
+    method: 'PATCH',
+    token,
+    body: JSON.stringify(settings),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to update room');
+  }
+  return res.json();
+}
+
 export async function deleteRoom(roomId: string, token: string): Promise<void> {
   const res = await apiFetch(`/api/rooms/${roomId}`, { method: 'DELETE', token });
   if (res.status === 404) throw new Error('Room not found');
   if (!res.ok) throw new Error('Failed to delete room');
 }
 
+export async function listRoomMembers(roomId: string, token: string): Promise<RoomMember[]> {
+  const res = await apiFetch(`/api/rooms/${roomId}/members`, { token });
+  if (!res.ok) throw new Error('Failed to list members');
+  return res.json();
+}
+
+export async function setMemberRole(roomId: string, userId: string, role: RoomRole, token: string): Promise<RoomMember> {
+  const res = await apiFetch(`/api/rooms/${roomId}/members/${encodeURIComponent(userId)}`, {
+    method: 'PUT',
+    token,
+    body: JSON.stringify({ role }),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to update role');
+  }
+  return res.json();
+}
+
+export async function revokeMemberRole(roomId: string, userId: string, token: string): Promise<void> {
+  const res = await apiFetch(`/api/rooms/${roomId}/members/${encodeURIComponent(userId)}`, {
+    method: 'DELETE',
+    token,
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to revoke role');
+  }
+}
+
+/** Page where people without an account enter a name and ask to join */
+export function getGuestUrl(roomId: string): string {
+  return `${window.location.origin}/guest/${roomId}`;
+}
+
+export async function requestGuestPass(roomId: string, name: string): Promise<GuestPass> {
+  const res = await apiFetch(`/api/rooms/${roomId}/guest-token`, {
+    method: 'POST',
+    body: JSON.stringify({ name }),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Could not join as a guest');
+  }
+  return res.json();
+}
+
+/** URL to hand out for an invite link; it opens the /join/:token page of this app */
+export function getInviteUrl(inviteToken: string): string {
+  return `${window.location.origin}/join/${inviteToken}`;
+}
+
+export async function listRoomInvites(roomId: string, token: string): Promise<RoomInvites> {
+  const res = await apiFetch(`/api/rooms/${roomId}/invites`, { token });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to load invitations');
+  }
+  return res.json();
+}
+
+/** Invite by email (matched once they sign up, if they haven't) or by user id */
+export async function inviteToRoom(
+  roomId: string,
+  invitee: { email: string } | { userId: string },
+  token: string
+): Promise<RoomInvite> {
+  const res = await apiFetch(`/api/rooms/${roomId}/invites`, {
+    method: 'POST',
+    token,
+    body: JSON.stringify(invitee),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to invite');
+  }
+  return res.json();
+}
+
+export async function createRoomInviteLink(
+  roomId: string,
+  options: { maxUses: number | null; expiresInHours: number | null },
+  token: string
+): Promise<RoomInvite> {
+  const res = await apiFetch(`/api/rooms/${roomId}/invite-links`, {
+    method: 'POST',
+    token,
+    body: JSON.stringify(options),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to create invite link');
+  }
+  return res.json();
+}
+
+/** Withdraw a personal invite or revoke a link */
+export async function removeRoomInvite(roomId: string, inviteId: string, token: string): Promise<void> {
+  const res = await apiFetch(`/api/rooms/${roomId}/invites/${inviteId}`, { method: 'DELETE', token });
+  if (!res.ok) throw new Error('Failed to remove invite');
+}
+
+/** Redeem a /join/:token link; resolves to the room it lets you into */
+export async function acceptRoomInvite(inviteToken: string, token: string): Promise<Room> {
+  const res = await apiFetch(`/api/rooms/join/${encodeURIComponent(inviteToken)}`, { method: 'POST', token });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to accept invite');
+  }
+  return res.json();
+}
+
+export async function getMessagesByRoom(roomId: string, token: string): Promise<ChatMessage[]> {
+  const res = await apiFetch(`/api/rooms/${roomId}/messages`, { token });
+  if (!res.ok) throw new Error('Failed to fetch messages');
+  return res.json();
+}
+
+export async function getIceServers(token: string): Promise<IceServerConfig> {
+  const res = await apiFetch('/api/ice-servers', { token });
+  if (!res.ok) throw new Error('Failed to fetch ICE servers');
+  return res.json();
+}
+
 export async function getRecordingsByRoom(roomId: string, token: string): Promise<Recording[]> {
   const res = await apiFetch(`/api/recordings/room/${roomId}`, { token });
   if (!res.ok) throw new Error('Failed to fetch recordings');
   return res.json();
 }
 
-export function getRecordingFileUrl(recordingId: string, token?: string): string {
-  const base = `${API_URL}/api/recordings/${recordingId}/file`;
-  if (token) return `${base}?token=${encodeURIComponent(token)}`;
-  return base;
+export async function updateRecording(
+  recordingId: string,
+  details: { title?: string; description?: string },
+  token: string
+): Promise<Recording> {
+  const res = await apiFetch(`/api/recordings/${recordingId}`, {
+    method: 'PATCH',
+    token,
+    body: JSON.stringify(details),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to update recording');
+  }
+  return res.json();
+}
+
+export async function deleteRecording(recordingId: string, token: string): Promise<void> {
+  const res = await apiFetch(`/api/recordings/${recordingId}`, { method: 'DELETE', token });
+  if (!res.ok && res.status !== 404) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to delete recording');
+  }
+}
+
+export async function getRecordingUsage(token: string): Promise<RecordingUsage> {
+  const res = await apiFetch('/api/recordings/usage', { token });
+  if (!res.ok) throw new Error('Failed to load storage usage');
+  return res.json();
+}
+
+/**
+ * URL a <video> element can stream directly (the server supports Range requests). It carries a
+ * short-lived token because media elements can't send an Authorization header.
+ */
+export async function getRecordingStreamUrl(
+  recordingId: string,
+  token: string,
+  options: { format?: 'mp4'; download?: boolean } = {}
+): Promise<string> {
+  const res = await apiFetch(`/api/recordings/${recordingId}/stream-url`, { token });
+  if (!res.ok) throw new Error('Failed to get recording stream');
+  const { token: streamToken } = await res.json();
+  const params = new URLSearchParams({ token: streamToken });
+  if (options.format) params.set('format', options.format);
+  if (options.download) params.set('download', '1');
+  return `${API_URL}/api/recordings/${recordingId}/stream?${params}`;
 }
 
-/** Fetch the recording file with auth and return a blob URL for playback/download */
-export async function fetchRecordingBlob(recordingId: string, token: string): Promise<string> {
-  const res = await fetch(`${API_URL}/api/recordings/${recordingId}/file`, {
+/** Public URL for a share link; works as a plain <video src> without signing in */
+export function getSharedRecordingUrl(linkToken: string): string {
+  return `${API_URL}/api/recordings/shared/${linkToken}`;
+}
+
+export async function getRecordingSharing(recordingId: string, token: string): Promise<RecordingSharing> {
+  const res = await apiFetch(`/api/recordings/${recordingId}/sharing`, { token });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to load sharing');
+  }
+  return res.json();
+}
+
+export async function shareRecording(recordingId: string, email: string, token: string): Promise<RecordingShare> {
+  const res = await apiFetch(`/api/recordings/${recordingId}/shares`, {
+    method: 'POST',
+    token,
+    body: JSON.stringify({ email }),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to share recording');
+  }
+  return res.json();
+}
+
+export async function unshareRecording(recordingId: string, userId: string, token: string): Promise<void> {
+  const res = await apiFetch(`/api/recordings/${recordingId}/shares/${encodeURIComponent(userId)}`, {
+    method: 'DELETE',
+    token,
+  });
+  if (!res.ok) throw new Error('Failed to remove share');
+}
+
+export async function createRecordingShareLink(
+  recordingId: string,
+  expiresInHours: number,
+  token: string
+): Promise<RecordingShareLink> {
+  const res = await apiFetch(`/api/recordings/${recordingId}/links`, {
+    method: 'POST',
+    token,
+    body: JSON.stringify({ expiresInHours }),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to create link');
+  }
+  return res.json();
+}
+
+export async function revokeRecordingShareLink(recordingId: string, linkId: string, token: string): Promise<void> {
+  const res = await apiFetch(`/api/recordings/${recordingId}/links/${linkId}`, { method: 'DELETE', token });
+  if (!res.ok) throw new Error('Failed to revoke link');
+}
+
+export async function fetchRecordingThumbnail(recordingId: string, token: string): Promise<string> {
+  const res = await fetch(`${API_URL}/api/recordings/${recordingId}/thumbnail`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!res.ok) throw new Error('Failed to fetch thumbnail');
+  return URL.createObjectURL(await res.blob());
+}
+
+export async function getRecordingMarkers(recordingId: string, token: string): Promise<RecordingMarker[]> {
+  const res = await apiFetch(`/api/recordings/${recordingId}/markers`, { token });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to load markers');
+  }
+  return res.json();
+}
+
+/** The WebVTT chapters track as an object URL, since <track src> can't send the auth header */
+export async function fetchRecordingChapters(recordingId: string, token: string): Promise<string> {
+  const res = await fetch(`${API_URL}/api/recordings/${recordingId}/chapters.vtt`, {
     headers: { Authorization: `Bearer ${token}` },
   });
-  if (!res.ok) throw new Error('Failed to fetch recording file');
-  const blob = await res.blob();
-  return URL.createObjectURL(blob);
+  if (!res.ok) throw new Error('Failed to fetch chapters');
+  return URL.createObjectURL(await res.blob());
 }
 
-export async function uploadRecording(
-  file: Blob,
+/** Server side of a resumable recording upload */
+export type RecordingUpload = {
+  id: string;
+  user_id: string;
+  room_id: string;
+  mode: RecordingMode;
+  file_ext: string;
+  /** Index of the next chunk the server expects */
+  next_chunk: number;
+  bytes_received: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export async function createRecordingUpload(
   roomId: string,
+  mode: RecordingMode,
+  mimeType: string,
+  token: string
+): Promise<RecordingUpload> {
+  const res = await apiFetch('/api/recordings/uploads', {
+    method: 'POST',
+    token,
+    body: JSON.stringify({ roomId, mode, mimeType }),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    if (res.status === 413) throw new QuotaExceededError(err.error || 'Storage quota exceeded', 0);
+    throw new Error(err.error || 'Failed to start upload');
+  }
+  return res.json();
+}
+
+/**
+ * Send chunk `index` of an upload. Returns the index of the next chunk the server expects
+ * (also when this one arrived out of order), or null if the upload no longer exists.
+ * Throws QuotaExceededError when the chunk would take the uploader over their quota.
+ */
+export async function uploadRecordingChunk(
+  uploadId: string,
+  index: number,
+  chunk: Blob,
+  token: string
+): Promise<number | null> {
+  const res = await apiFetch(`/api/recordings/uploads/${uploadId}/chunks/${index}`, {
+    method: 'PUT',
+    token,
+    body: chunk,
+  });
+  if (res.status === 404 || res.status === 410) return null;
+  const body = await res.json().catch(() => ({}));
+  if (res.status === 409 && typeof body.next_chunk === 'number') return body.next_chunk;
+  if (res.status === 413 && typeof body.next_chunk === 'number') {
+    throw new QuotaExceededError(body.error || 'Storage quota exceeded', body.next_chunk);
+  }
+  if (!res.ok) throw new Error(body.error || 'Failed to upload chunk');
+  return body.next_chunk;
+}
+
+/** Finalize an upload into a recording; null if the upload or its data no longer exists */
+export async function completeRecordingUpload(
+  uploadId: string,
   durationSeconds: number,
   startedAt: Date,
   endedAt: Date,
   token: string
-): Promise<Recording> {
-  const formData = new FormData();
-  // IMPORTANT: text fields MUST be appended BEFORE the file so multer can
-  // read req.body.roomId inside its `filename` callback.
-  formData.append('roomId', roomId);
-  formData.append('durationSeconds', String(durationSeconds));
-  formData.append('startedAt', startedAt.toISOString());
-  formData.append('endedAt', endedAt.toISOString());
+): Promise<Recording | null> {
+  const res = await apiFetch(`/api/recordings/uploads/${uploadId}/complete`, {
+    method: 'POST',
+    token,
+    body: JSON.stringify({
+      durationSeconds,
+      startedAt: startedAt.toISOString(),
+      endedAt: endedAt.toISOString(),
+    }),
+  });
+  if (res.status === 404 || res.status === 410) return null;
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to save recording');
+  }
+  return res.json();
+}
+
+export async function cancelRecordingUpload(uploadId: string, token: string): Promise<void> {
+  const res = await apiFetch(`/api/recordings/uploads/${uploadId}`, { method: 'DELETE', token });
+  if (!res.ok && res.status !== 404) throw new Error('Failed to cancel upload');
+}
+
+/** Account on the backend's own user table (VITE_AUTH_PROVIDER=local) */
+export type LocalAccount = {
+  id: string;
+  username: string;
+  email: string | null;
+  displayName: string | null;
+};
+
+export type LocalSession = {
+  token: string;
+  expiresAt: string;
+  user: LocalAccount;
+};
 
-  const ext = file.type?.includes('mp4') ? '.mp4' : '.webm';
-  formData.append('recording', file, `recording${ext}`);
+export async function signInWithPassword(username: string, password: string): Promise<LocalSession> {
+  const res = await apiFetch('/api/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ username, password }),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Could not sign in');
+  }
+  return res.json();
+}
 
-  const res = await apiUpload('/api/recordings/upload', formData, token);
+export async function registerAccount(account: {
+  username: string;
+  password: string;
+  email?: string;
+  displayName?: string;
+}): Promise<LocalSession> {
+  const res = await apiFetch('/api/auth/register', {
+    method: 'POST',
+    body: JSON.stringify(account),
+  });
   if (!res.ok) {
     const err = await res.json().catch(() => ({}));
-    throw new Error(err.error || 'Failed to upload recording');
+    throw new Error(err.error || 'Could not create account');
   }
   return res.json();
 }
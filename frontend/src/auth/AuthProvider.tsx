@@ -0,0 +1,12 @@
+import { AUTH_PROVIDER } from './context';
+import { ClerkAuthProvider } from './ClerkAuthProvider';
+import { LocalAuthProvider } from './LocalAuthProvider';
+
+/** Provides useAuth() from the provider picked by VITE_AUTH_PROVIDER; needs to sit inside the router */
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  return AUTH_PROVIDER === 'local' ? (
+    <LocalAuthProvider>{children}</LocalAuthProvider>
+  ) : (
+    <ClerkAuthProvider>{children}</ClerkAuthProvider>
+  );
+}
@@ -0,0 +1,45 @@
+import { useMemo } from 'react';
+import { ClerkProvider, useAuth as useClerkAuth, useClerk, useUser } from '@clerk/clerk-react';
+import { AuthContext, AUTH_PROVIDER } from './context';
+import type { AuthState } from './context';
+
+const publishableKey = import.meta.env.VITE_CLERK_PUBLISHABLE_KEY;
+if (AUTH_PROVIDER === 'clerk' && !publishableKey) {
+  console.warn('Missing VITE_CLERK_PUBLISHABLE_KEY. Authentication will not work.');
+}
+
+function ClerkAuthBridge({ children }: { children: React.ReactNode }) {
+  const { isLoaded, isSignedIn, userId, getToken } = useClerkAuth();
+  const { user } = useUser();
+  const clerk = useClerk();
+
+  const value = useMemo<AuthState>(
+    () => ({
+      isLoaded,
+      isSignedIn: !!isSignedIn,
+      userId: userId ?? null,
+      user: user
+        ? {
+            displayName: user.firstName || user.username || user.primaryEmailAddress?.emailAddress || null,
+            imageUrl: user.imageUrl ?? null,
+          }
+        : null,
+      // Clerk's getToken is stable, which keeps effects that depend on it from re-running
+      getToken,
+      signOut: () => clerk.signOut(),
+      redirectToSignIn: () => void clerk.redirectToSignIn(),
+    }),
+    [isLoaded, isSignedIn, userId, user, getToken, clerk]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+/** Sign-in through Clerk's hosted pages */
+export function ClerkAuthProvider({ children }: { children: React.ReactNode }) {
+  return (
+    <ClerkProvider publishableKey={publishableKey ?? ''}>
+      <ClerkAuthBridge>{children}</ClerkAuthBridge>
+    </ClerkProvider>
+  );
+}
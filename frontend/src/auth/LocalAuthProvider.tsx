@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import type { LocalSession } from '../api/client';
+import { AuthContext, LocalSessionContext } from './context';
+import type { AuthState } from './context';
+
+const STORAGE_KEY = 'auth-session';
+
+function isCurrent(session: LocalSession | null): session is LocalSession {
+  return !!session && new Date(session.expiresAt) > new Date();
+}
+
+function loadSession(): LocalSession | null {
+  try {
+    const session = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as LocalSession | null;
+    return isCurrent(session) ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveSession(session: LocalSession | null) {
+  if (session) localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  else localStorage.removeItem(STORAGE_KEY);
+}
+
+/** Username/password accounts on our own backend; the session token is kept in localStorage */
+export function LocalAuthProvider({ children }: { children: React.ReactNode }) {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [session, setSession] = useState<LocalSession | null>(loadSession);
+
+  const startSession = useCallback((next: LocalSession) => {
+    saveSession(next);
+    setSession(next);
+  }, []);
+
+  const endSession = useCallback(() => {
+    saveSession(null);
+    setSession(null);
+  }, []);
+
+  // Tokens aren't refreshed; once one expires the user signs in again
+  useEffect(() => {
+    if (!session) return;
+    const timer = setTimeout(endSession, Math.max(0, new Date(session.expiresAt).getTime() - Date.now()));
+    return () => clearTimeout(timer);
+  }, [session, endSession]);
+
+  const token = session?.token ?? null;
+  const getToken = useCallback(async () => token, [token]);
+  const returnTo = location.pathname + location.search;
+
+  const value = useMemo<AuthState>(
+    () => ({
+      isLoaded: true,
+      isSignedIn: !!session,
+      userId: session?.user.id ?? null,
+      user: session
+        ? { displayName: session.user.displayName || session.user.username || session.user.email, imageUrl: null }
+        : null,
+      getToken,
+      signOut: async () => endSession(),
+      redirectToSignIn: () => navigate(`/sign-in?redirect=${encodeURIComponent(returnTo)}`, { replace: true }),
+    }),
+    [session, getToken, endSession, navigate, returnTo]
+  );
+
+  return (
+    <AuthContext.Provider value={value}>
+      <LocalSessionContext.Provider value={startSession}>{children}</LocalSessionContext.Provider>
+    </AuthContext.Provider>
+  );
+}
@@ -0,0 +1,39 @@
+import { createContext, useContext } from 'react';
+import type { LocalSession } from '../api/client';
+
+/** clerk (default) or local: the backend's own accounts and JWTs; must match the backend's AUTH_PROVIDER */
+export const AUTH_PROVIDER: 'clerk' | 'local' = import.meta.env.VITE_AUTH_PROVIDER === 'local' ? 'local' : 'clerk';
+
+export type AuthUser = {
+  displayName: string | null;
+  imageUrl: string | null;
+};
+
+/** What pages need from whichever provider signs people in */
+export type AuthState = {
+  isLoaded: boolean;
+  isSignedIn: boolean;
+  userId: string | null;
+  user: AuthUser | null;
+  /** Bearer token for the API and signaling, or null when signed out */
+  getToken: () => Promise<string | null>;
+  signOut: () => Promise<void>;
+  redirectToSignIn: () => void;
+};
+
+export const AuthContext = createContext<AuthState | null>(null);
+
+export function useAuth(): AuthState {
+  const auth = useContext(AuthContext);
+  if (!auth) throw new Error('useAuth must be used inside AuthProvider');
+  return auth;
+}
+
+/** Stores a session from the sign-in page; only provided by the local provider */
+export const LocalSessionContext = createContext<((session: LocalSession) => void) | null>(null);
+
+export function useStartLocalSession() {
+  const start = useContext(LocalSessionContext);
+  if (!start) throw new Error('useStartLocalSession needs VITE_AUTH_PROVIDER=local');
+  return start;
+}
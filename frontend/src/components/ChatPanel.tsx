@@ -0,0 +1,121 @@
+import { useState, useEffect, useRef } from 'react';
+import type { ChatMessage } from '../api/client';
+
+type ChatPanelProps = {
+  messages: ChatMessage[];
+  currentUserId?: string | null;
+  onSend: (body: string) => Promise<void>;
+  onClose?: () => void;
+};
+
+const MAX_MESSAGE_LENGTH = 2000;
+const URL_PATTERN = /(https?:\/\/[^\s]+)/g;
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+/** Render message text with clickable links; everything else stays plain text */
+function renderBody(body: string) {
+  return body.split(URL_PATTERN).map((part, i) =>
+    i % 2 === 1 ? (
+      <a key={i} href={part} target="_blank" rel="noopener noreferrer" className="text-brand hover:text-brand-light underline break-all">
+        {part}
+      </a>
+    ) : (
+      <span key={i}>{part}</span>
+    )
+  );
+}
+
+export function ChatPanel({ messages, currentUserId, onSend, onClose }: ChatPanelProps) {
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    const el = listRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [messages.length]);
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body || sending) return;
+    setSending(true);
+    setError(null);
+    try {
+      await onSend(body);
+      setDraft('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-surface-800/95 backdrop-blur rounded-xl p-4 border border-surface-border shadow-xl flex flex-col h-full min-h-0">
+      <div className="flex items-center justify-between mb-3 shrink-0">
+        <h3 className="font-semibold text-sm text-primary font-heading">Chat</h3>
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-muted hover:text-secondary transition-colors"
+            title="Close"
+          >
+            <svg viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+              <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+            </svg>
+          </button>
+        )}
+      </div>
+      {messages.length === 0 ? (
+        <p className="text-sm text-muted flex-1">No messages yet</p>
+      ) : (
+        <ul ref={listRef} className="space-y-3 flex-1 min-h-0 overflow-y-auto pr-1">
+          {messages.map((m) => {
+            const isMine = m.user_id === currentUserId;
+            return (
+              <li key={m.id} className="text-xs">
+                <div className="flex items-baseline gap-2">
+                  <span className={`font-semibold truncate ${isMine ? 'text-brand' : 'text-primary'}`}>
+                    {isMine ? 'You' : m.display_name || m.user_id}
+                  </span>
+                  <span className="text-muted shrink-0">{formatTime(m.created_at)}</span>
+                </div>
+                <p className="text-secondary whitespace-pre-wrap break-words">{renderBody(m.body)}</p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {error && <p className="text-xs text-red-400 mt-2 shrink-0">{error}</p>}
+      <div className="mt-3 flex gap-2 shrink-0">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value.slice(0, MAX_MESSAGE_LENGTH))}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          placeholder="Send a message"
+          rows={2}
+          className="flex-1 resize-none px-3 py-2 rounded-lg bg-surface-700 border border-surface-border text-primary text-xs placeholder-muted focus:outline-none focus:ring-2 focus:ring-brand focus:border-transparent"
+        />
+        <button
+          type="button"
+          onClick={handleSend}
+          disabled={sending || !draft.trim()}
+          className="px-3 rounded-lg bg-brand hover:bg-brand-light disabled:opacity-40 disabled:cursor-not-allowed text-white text-xs font-medium transition-colors"
+        >
+          Send
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import type { RaisedHand } from '../hooks/useSignaling';
+
+type HandQueuePanelProps = {
+  queue: RaisedHand[];
+  currentSocketId?: string | null;
+  /** Moderators can lower anyone's hand and call on the next person */
+  canManage?: boolean;
+  onLower: (socketId: string) => void;
+  onCallNext?: () => void;
+  onClose?: () => void;
+};
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+export function HandQueuePanel({ queue, currentSocketId, canManage = false, onLower, onCallNext, onClose }: HandQueuePanelProps) {
+  return (
+    <div className="bg-surface-800/95 backdrop-blur rounded-xl p-4 border border-surface-border shadow-xl flex flex-col max-h-full min-h-0">
+      <div className="flex items-center justify-between mb-3 shrink-0">
+        <h3 className="font-semibold text-sm text-primary font-heading">Raised hands</h3>
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-muted hover:text-secondary transition-colors"
+            title="Close"
+          >
+            <svg viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+              <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+            </svg>
+          </button>
+        )}
+      </div>
+      {queue.length === 0 ? (
+        <p className="text-sm text-muted">No hands raised</p>
+      ) : (
+        <ol className="space-y-2 min-h-0 overflow-y-auto pr-1">
+          {queue.map((h, i) => {
+            const isMine = h.socketId === currentSocketId;
+            return (
+              <li key={h.socketId} className="flex items-center gap-2 text-xs">
+                <span className="w-5 h-5 shrink-0 rounded-full bg-amber-500/20 text-amber-300 flex items-center justify-center font-semibold">
+                  {i + 1}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p className={`font-semibold truncate ${isMine ? 'text-brand' : 'text-primary'}`}>
+                    {isMine ? 'You' : h.displayName || h.userId}
+                  </p>
+                  <p className="text-muted">{formatTime(h.raisedAt)}</p>
+                </div>
+                {(canManage || isMine) && (
+                  <button
+                    type="button"
+                    onClick={() => onLower(h.socketId)}
+                    className="shrink-0 px-2 py-1 rounded-md bg-surface-700 hover:bg-surface-600 text-secondary transition-colors"
+                  >
+                    Lower
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+      {canManage && onCallNext && (
+        <button
+          type="button"
+          onClick={onCallNext}
+          disabled={queue.length === 0}
+          className="mt-3 w-full px-3 py-2 rounded-lg bg-brand hover:bg-brand-light disabled:opacity-40 disabled:cursor-not-allowed text-white text-xs font-medium transition-colors shrink-0"
+        >
+          Call on next
+        </button>
+      )}
+    </div>
+  );
+}
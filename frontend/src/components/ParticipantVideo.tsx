@@ -1,4 +1,5 @@
 import { useRef, useEffect } from 'react';
+import type { RoomRole } from '../api/client';
 
 type ParticipantVideoProps = {
   stream: MediaStream;
@@ -6,11 +7,32 @@ type ParticipantVideoProps = {
   muted?: boolean;
   isLocal?: boolean;
   connectionState?: RTCPeerConnectionState;
+  reconnectAttempt?: number;
   avatarUrl?: string | null;
   showAvatar?: boolean;
-  isOwner?: boolean;
+  role?: RoomRole;
   onKick?: () => void;
   canKick?: boolean;
+  /** Owner-only: grant or revoke co-host for this participant */
+  onToggleCoHost?: () => void;
+  /** Owner-only: hand the room over to this participant */
+  onMakeHost?: () => void;
+  /** 'contain' keeps shared screens readable instead of cropping them */
+  fit?: 'cover' | 'contain';
+  /** Mic/camera state as signaled by the participant (not inferred from tracks) */
+  isMicMuted?: boolean;
+  isCameraOff?: boolean;
+  /** Moderator-only: mute this participant, or ask them to unmute */
+  onMute?: () => void;
+  onAskToUnmute?: () => void;
+  /** 1-based place in the raised-hands queue */
+  handPosition?: number;
+  /** Active speaker highlight */
+  isSpeaking?: boolean;
+  /** This participant is recording the call */
+  isRecording?: boolean;
+  /** Joined with a guest pass rather than an account */
+  isGuest?: boolean;
 };
 
 function getInitials(name: string): string {
@@ -20,11 +42,12 @@ function getInitials(name: string): string {
   return name.slice(0, 2).toUpperCase() || '?';
 }
 
-function getConnectionLabel(state?: RTCPeerConnectionState): string | null {
+function getConnectionLabel(state?: RTCPeerConnectionState, reconnectAttempt = 0): string | null {
+  if (reconnectAttempt > 0 && state !== 'connected') return `Reconnecting... (attempt ${reconnectAttempt})`;
   if (!state || state === 'connected') return null;
   if (state === 'connecting' || state === 'new') return 'Connecting...';
   if (state === 'disconnected') return 'Reconnecting...';
-  if (state === 'failed') return 'Connection failed';
+  if (state === 'failed') return 'Connection lost, retrying...';
   return null;
 }
 
@@ -34,11 +57,23 @@ export function ParticipantVideo({
   muted,
   isLocal,
   connectionState,
+  reconnectAttempt,
   avatarUrl,
   showAvatar = false,
-  isOwner,
+  role,
   onKick,
   canKick,
+  onToggleCoHost,
+  onMakeHost,
+  fit = 'cover',
+  isMicMuted = false,
+  isCameraOff = false,
+  onMute,
+  onAskToUnmute,
+  handPosition,
+  isSpeaking = false,
+  isRecording = false,
+  isGuest = false,
 }: ParticipantVideoProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const videoTracks = stream.getVideoTracks();
@@ -59,7 +94,8 @@ export function ParticipantVideo({
     }
   }, [hasVideo, stream]);
 
-  const statusLabel = getConnectionLabel(connectionState);
+  const statusLabel = getConnectionLabel(connectionState, reconnectAttempt);
+  const isReconnecting = connectionState === 'disconnected' || connectionState === 'failed' || (reconnectAttempt ?? 0) > 0;
 
   return (
     <div className="relative w-full h-full min-h-0 min-w-0 rounded-2xl overflow-hidden bg-black shadow-xl group">
@@ -70,7 +106,7 @@ export function ParticipantVideo({
           autoPlay
           playsInline
           muted={muted ?? isLocal}
-          className={`absolute inset-0 z-0 w-full h-full object-cover transition-opacity duration-200 ${
+          className={`absolute inset-0 z-0 w-full h-full ${fit === 'contain' ? 'object-contain' : 'object-cover'} transition-opacity duration-200 ${
             displayAvatar && !hasVideo ? 'opacity-0 pointer-events-none' : hasVideo && displayAvatar ? 'opacity-20' : 'opacity-100'
           }`}
         />
@@ -93,6 +129,40 @@ export function ParticipantVideo({
         </div>
       )}
 
+      {/* Reconnecting overlay — keeps the last frame visible underneath */}
+      {isReconnecting && !isLocal && (
+        <div className="absolute inset-0 z-[15] flex items-center justify-center bg-black/50">
+          <div className="w-10 h-10 border-2 border-amber-300 border-t-transparent rounded-full animate-spin" />
+        </div>
+      )}
+
+      {/* Active speaker outline — drawn above the video and avatar layers */}
+      {isSpeaking && <div className="absolute inset-0 z-30 rounded-2xl ring-4 ring-inset ring-brand pointer-events-none" />}
+
+      {/* Raised hand badge */}
+      {handPosition !== undefined && (
+        <div
+          className="absolute top-2 left-2 z-20 flex items-center gap-1 px-2 py-1 rounded-lg bg-amber-500 text-white text-xs font-semibold shadow"
+          title={`Hand raised (#${handPosition} in queue)`}
+        >
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-3.5 h-3.5">
+            <path d="M18 11V6a2 2 0 0 0-4 0M14 10V4a2 2 0 0 0-4 0v2M10 10.5V6a2 2 0 0 0-4 0v8M18 8a2 2 0 1 1 4 0v6a8 8 0 0 1-8 8h-2c-2.8 0-4.5-.86-5.99-2.34l-3.6-3.6a2 2 0 0 1 2.83-2.82L7 15" />
+          </svg>
+          {handPosition}
+        </div>
+      )}
+
+      {/* Recording badge */}
+      {isRecording && (
+        <div
+          className="absolute top-2 right-2 z-20 flex items-center gap-1 px-2 py-1 rounded-lg bg-red-600 text-white text-[10px] font-semibold tracking-wide shadow"
+          title={isLocal ? 'You are recording' : `${label} is recording`}
+        >
+          <span className="w-1.5 h-1.5 rounded-full bg-white animate-pulse" />
+          REC
+        </div>
+      )}
+
       {/* Layer 3: Footer bar */}
       <div className="absolute bottom-0 left-0 right-0 z-20 flex items-end">
         <div className="w-full bg-gradient-to-t from-black/90 via-black/50 to-transparent px-3 py-2.5 min-h-[52px] flex items-center justify-between gap-3">
@@ -102,16 +172,82 @@ export function ParticipantVideo({
                 {label}
                 {isLocal && ' (You)'}
               </span>
-              {isOwner && (
+              {(role === 'owner' || role === 'co-host') && (
                 <span className="shrink-0 text-[10px] font-medium uppercase tracking-wide text-brand bg-brand/20 px-1.5 py-0.5 rounded">
-                  Host
+                  {role === 'owner' ? 'Host' : 'Co-host'}
+                </span>
+              )}
+              {isGuest && (
+                <span className="shrink-0 text-[10px] font-medium uppercase tracking-wide text-secondary bg-surface-600/80 px-1.5 py-0.5 rounded">
+                  Guest
                 </span>
               )}
+              {isMicMuted && (
+                <svg
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="w-3.5 h-3.5 shrink-0 text-red-400"
+                  aria-label="Microphone off"
+                >
+                  <path d="M12 2a3 3 0 0 1 3 3v6a3 3 0 0 1-6 0V5a3 3 0 0 1 3-3Z" />
+                  <path d="M19 10v2a7 7 0 0 1-14 0v-2" />
+                  <line x1="2" y1="2" x2="22" y2="22" />
+                </svg>
+              )}
+              {isCameraOff && (
+                <svg viewBox="0 0 24 24" fill="currentColor" className="w-3.5 h-3.5 shrink-0 text-white/70" aria-label="Camera off">
+                  <path d="M3.53 2.47a.75.75 0 00-1.06 1.06l18 18a.75.75 0 101.06-1.06l-18-18zM22.676 12.553a.75.75 0 00-.176-.499l-4.25-4.75V6.75A2.25 2.25 0 0016 4.5H5.336L3.53 2.694zM16 19.5H4.5A2.25 2.25 0 012.25 17.25v-7.5A2.25 2.25 0 014.5 7.5h.436l11.564 13z" />
+                </svg>
+              )}
             </div>
             {statusLabel && (
               <span className="text-[11px] text-amber-300/90">{statusLabel}</span>
             )}
           </div>
+          {!isLocal && !isMicMuted && onMute && (
+            <button
+              type="button"
+              onClick={onMute}
+              className="shrink-0 opacity-0 group-hover:opacity-100 px-2.5 py-1.5 rounded-lg bg-surface-700/90 hover:bg-surface-600 text-primary text-xs font-medium transition-opacity"
+              title="Mute participant"
+            >
+              Mute
+            </button>
+          )}
+          {!isLocal && isMicMuted && onAskToUnmute && (
+            <button
+              type="button"
+              onClick={onAskToUnmute}
+              className="shrink-0 opacity-0 group-hover:opacity-100 px-2.5 py-1.5 rounded-lg bg-surface-700/90 hover:bg-surface-600 text-primary text-xs font-medium transition-opacity"
+              title="Ask participant to unmute"
+            >
+              Ask to unmute
+            </button>
+          )}
+          {onToggleCoHost && !isLocal && (
+            <button
+              type="button"
+              onClick={onToggleCoHost}
+              className="shrink-0 opacity-0 group-hover:opacity-100 px-2.5 py-1.5 rounded-lg bg-surface-700/90 hover:bg-surface-600 text-primary text-xs font-medium transition-opacity"
+              title={role === 'co-host' ? 'Revoke co-host' : 'Make co-host'}
+            >
+              {role === 'co-host' ? 'Remove co-host' : 'Make co-host'}
+            </button>
+          )}
+          {onMakeHost && !isLocal && (
+            <button
+              type="button"
+              onClick={onMakeHost}
+              className="shrink-0 opacity-0 group-hover:opacity-100 px-2.5 py-1.5 rounded-lg bg-brand/90 hover:bg-brand text-white text-xs font-medium transition-opacity"
+              title="Make this participant the host"
+            >
+              Make host
+            </button>
+          )}
           {canKick && onKick && !isLocal && (
             <button
               type="button"
@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import type { RecordingSharing } from '../api/client';
+import {
+  getRecordingSharing,
+  shareRecording,
+  unshareRecording,
+  createRecordingShareLink,
+  revokeRecordingShareLink,
+  getSharedRecordingUrl,
+} from '../api/client';
+
+type RecordingSharePanelProps = {
+  recordingId: string;
+  token: string;
+};
+
+const LINK_DURATIONS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '1 day' },
+  { hours: 24 * 7, label: '7 days' },
+  { hours: 24 * 30, label: '30 days' },
+];
+
+function formatExpiry(iso: string): string {
+  return new Date(iso).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+}
+
+/** People the recording is shared with, plus expiring links; shown to the uploader and hosts */
+export function RecordingSharePanel({ recordingId, token }: RecordingSharePanelProps) {
+  const [sharing, setSharing] = useState<RecordingSharing | null>(null);
+  const [email, setEmail] = useState('');
+  const [linkHours, setLinkHours] = useState(24);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getRecordingSharing(recordingId, token)
+      .then((s) => !cancelled && setSharing(s))
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : 'Could not load sharing'));
+    return () => {
+      cancelled = true;
+    };
+  }, [recordingId, token]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleShare = () =>
+    run(async () => {
+      const share = await shareRecording(recordingId, email.trim(), token);
+      setSharing((prev) =>
+        prev && { ...prev, shares: [...prev.shares.filter((s) => s.user_id !== share.user_id), share] }
+      );
+      setEmail('');
+    });
+
+  const handleUnshare = (userId: string) =>
+    run(async () => {
+      await unshareRecording(recordingId, userId, token);
+      setSharing((prev) => prev && { ...prev, shares: prev.shares.filter((s) => s.user_id !== userId) });
+    });
+
+  const handleCreateLink = () =>
+    run(async () => {
+      const link = await createRecordingShareLink(recordingId, linkHours, token);
+      setSharing((prev) => prev && { ...prev, links: [...prev.links, link] });
+    });
+
+  const handleRevoke = (linkId: string) =>
+    run(async () => {
+      await revokeRecordingShareLink(recordingId, linkId, token);
+      setSharing((prev) => prev && { ...prev, links: prev.links.filter((l) => l.id !== linkId) });
+    });
+
+  const handleCopy = async (linkId: string, linkToken: string) => {
+    try {
+      await navigator.clipboard.writeText(getSharedRecordingUrl(linkToken));
+      setCopiedId(linkId);
+      setTimeout(() => setCopiedId((id) => (id === linkId ? null : id)), 2000);
+    } catch {
+      setError('Could not copy the link');
+    }
+  };
+
+  const inputClass =
+    'min-w-0 flex-1 px-2 py-1.5 rounded-md bg-surface-700 border border-surface-border text-primary focus:outline-none focus:ring-2 focus:ring-brand';
+  const buttonClass =
+    'shrink-0 px-2 py-1.5 rounded-md bg-brand hover:bg-brand-light disabled:opacity-40 disabled:cursor-not-allowed text-white font-medium transition-colors';
+
+  return (
+    <div className="mt-2 p-3 rounded-lg bg-surface-900/60 border border-surface-border space-y-3">
+      {!sharing ? (
+        <p className="text-muted">{error ?? 'Loading...'}</p>
+      ) : (
+        <>
+          <div>
+            <p className="text-secondary font-medium mb-1">People with access</p>
+            <p className="text-muted mb-2">Room members can always watch. Add anyone else by email.</p>
+            {sharing.shares.length > 0 && (
+              <ul className="space-y-1 mb-2">
+                {sharing.shares.map((s) => (
+                  <li key={s.user_id} className="flex items-center justify-between gap-2">
+                    <span className="truncate text-primary">{s.email || s.user_id}</span>
+                    <button
+                      type="button"
+                      onClick={() => handleUnshare(s.user_id)}
+                      disabled={busy}
+                      className="text-red-400 hover:text-red-300 disabled:opacity-50 transition-colors"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (email.trim()) handleShare();
+              }}
+            >
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="name@example.com"
+                className={inputClass}
+              />
+              <button type="submit" disabled={busy || !email.trim()} className={buttonClass}>
+                Share
+              </button>
+            </form>
+          </div>
+
+          <div>
+            <p className="text-secondary font-medium mb-1">Links</p>
+            <p className="text-muted mb-2">Anyone with a link can watch until it expires or is revoked.</p>
+            {sharing.links.length > 0 && (
+              <ul className="space-y-1 mb-2">
+                {sharing.links.map((l) => (
+                  <li key={l.id} className="flex items-center justify-between gap-2">
+                    <span className="text-muted truncate">Expires {formatExpiry(l.expires_at)}</span>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => handleCopy(l.id, l.token)}
+                        className="text-brand hover:text-brand-light transition-colors"
+                      >
+                        {copiedId === l.id ? 'Copied' : 'Copy'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleRevoke(l.id)}
+                        disabled={busy}
+                        className="text-red-400 hover:text-red-300 disabled:opacity-50 transition-colors"
+                      >
+                        Revoke
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex gap-2">
+              <select
+                value={linkHours}
+                onChange={(e) => setLinkHours(Number(e.target.value))}
+                className={inputClass}
+              >
+                {LINK_DURATIONS.map((d) => (
+                  <option key={d.hours} value={d.hours}>
+                    Expires in {d.label}
+                  </option>
+                ))}
+              </select>
+              <button type="button" onClick={handleCreateLink} disabled={busy} className={buttonClass}>
+                Create link
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="text-red-400">{error}</p>}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,15 @@
-import { useState, useCallback } from 'react';
-import type { Recording } from '../api/client';
-import { fetchRecordingBlob } from '../api/client';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { Recording, RecordingMarker, RecordingUsage } from '../api/client';
+import {
+  getRecordingStreamUrl,
+  getRecordingMarkers,
+  fetchRecordingChapters,
+  fetchRecordingThumbnail,
+  updateRecording,
+  deleteRecording,
+  getRecordingUsage,
+} from '../api/client';
+import { RecordingSharePanel } from './RecordingSharePanel';
 
 type RecordingsListProps = {
   recordings: Recording[];
@@ -8,6 +17,21 @@ type RecordingsListProps = {
   onRefresh: () => void;
   token: string | null;
   onClose?: () => void;
+  currentUserId?: string | null;
+  /** Hosts can share any recording in the room; others only their own */
+  canManageAll?: boolean;
+  /** The room owner can rename and delete any recording; others only their own */
+  isRoomOwner?: boolean;
+};
+
+type EditState = { id: string; title: string; description: string };
+
+type PlayerState = {
+  id: string;
+  url: string;
+  markers: RecordingMarker[];
+  /** Object URL of the WebVTT chapters track, when there are markers */
+  chaptersUrl: string | null;
 };
 
 function formatDuration(seconds: number): string {
@@ -20,59 +44,160 @@ function formatDate(iso: string): string {
   return new Date(iso).toLocaleString();
 }
 
-export function RecordingsList({ recordings, loading, onRefresh, token, onClose }: RecordingsListProps) {
-  const [playingId, setPlayingId] = useState<string | null>(null);
-  const [blobUrls, setBlobUrls] = useState<Record<string, string>>({});
-  const [loadingBlob, setLoadingBlob] = useState<string | null>(null);
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+export function RecordingsList({
+  recordings,
+  loading,
+  onRefresh,
+  token,
+  onClose,
+  currentUserId,
+  canManageAll = false,
+  isRoomOwner = false,
+}: RecordingsListProps) {
+  const [sharingId, setSharingId] = useState<string | null>(null);
+  const [player, setPlayer] = useState<PlayerState | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const requestedThumbnailsRef = useRef<Set<string>>(new Set());
+  const [editing, setEditing] = useState<EditState | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [usage, setUsage] = useState<RecordingUsage | null>(null);
+
+  // Uploads and deletions both change the list, so refresh usage alongside it
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    getRecordingUsage(token)
+      .then((u) => !cancelled && setUsage(u))
+      .catch((err) => console.error('Failed to load storage usage:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [recordings, token]);
+
+  // Thumbnails need the auth header, so they are fetched as blobs like the videos
+  useEffect(() => {
+    if (!token) return;
+    const requested = requestedThumbnailsRef.current;
+    recordings
+      .filter((r) => r.thumbnail_path && !requested.has(r.id))
+      .forEach((r) => {
+        requested.add(r.id);
+        fetchRecordingThumbnail(r.id, token)
+          .then((url) => setThumbnails((prev) => ({ ...prev, [r.id]: url })))
+          .catch((err) => console.error('Failed to load thumbnail:', err));
+      });
+  }, [recordings, token]);
 
+  // Play straight from a short-lived stream URL: the server answers Range requests, so the
+  // player starts right away and seeks without downloading the whole file
   const handlePlay = useCallback(
     async (recordingId: string) => {
-      if (playingId === recordingId) {
-        setPlayingId(null);
+      if (player?.id === recordingId) {
+        setPlayer(null);
         return;
       }
       if (!token) return;
-      if (blobUrls[recordingId]) {
-        setPlayingId(recordingId);
-        return;
-      }
-      setLoadingBlob(recordingId);
+      setLoadingId(recordingId);
       try {
-        const blobUrl = await fetchRecordingBlob(recordingId, token);
-        setBlobUrls((prev) => ({ ...prev, [recordingId]: blobUrl }));
-        setPlayingId(recordingId);
+        // Markers are extras; the recording still plays without them
+        const [url, markers] = await Promise.all([
+          getRecordingStreamUrl(recordingId, token),
+          getRecordingMarkers(recordingId, token).catch((err) => {
+            console.error('Failed to load markers:', err);
+            return [];
+          }),
+        ]);
+        const chaptersUrl =
+          markers.length > 0 ? await fetchRecordingChapters(recordingId, token).catch(() => null) : null;
+        setPlayer({ id: recordingId, url, markers, chaptersUrl });
       } catch (err) {
         console.error('Failed to load recording:', err);
       } finally {
-        setLoadingBlob(null);
+        setLoadingId(null);
       }
     },
-    [playingId, token, blobUrls]
+    [player, token]
   );
 
+  useEffect(() => {
+    const chaptersUrl = player?.chaptersUrl;
+    return () => {
+      if (chaptersUrl) URL.revokeObjectURL(chaptersUrl);
+    };
+  }, [player?.chaptersUrl]);
+
+  const seekTo = useCallback((offsetMs: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = offsetMs / 1000;
+    video.play().catch(() => {});
+  }, []);
+
   const handleDownload = useCallback(
-    async (recordingId: string, filename: string) => {
+    async (recordingId: string, format?: 'mp4') => {
       if (!token) return;
-      let url = blobUrls[recordingId];
-      if (!url) {
-        try {
-          url = await fetchRecordingBlob(recordingId, token);
-          setBlobUrls((prev) => ({ ...prev, [recordingId]: url }));
-        } catch (err) {
-          console.error('Failed to download recording:', err);
-          return;
-        }
+      try {
+        const url = await getRecordingStreamUrl(recordingId, token, { format, download: true });
+        // The server marks the response as an attachment, so this downloads rather than navigates
+        const a = document.createElement('a');
+        a.href = url;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+      } catch (err) {
+        console.error('Failed to download recording:', err);
       }
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = filename || `recording-${recordingId}.webm`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
     },
-    [token, blobUrls]
+    [token]
   );
 
+  const handleSave = useCallback(async () => {
+    if (!token || !editing) return;
+    setBusyId(editing.id);
+    setActionError(null);
+    try {
+      await updateRecording(editing.id, { title: editing.title, description: editing.description }, token);
+      setEditing(null);
+      onRefresh();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to update recording');
+    } finally {
+      setBusyId(null);
+    }
+  }, [token, editing, onRefresh]);
+
+  const handleDelete = useCallback(
+    async (recording: Recording) => {
+      if (!token) return;
+      const name = recording.title || `the recording from ${formatDate(recording.started_at)}`;
+      if (!window.confirm(`Delete ${name}? This can't be undone.`)) return;
+      setBusyId(recording.id);
+      setActionError(null);
+      try {
+        await deleteRecording(recording.id, token);
+        if (player?.id === recording.id) setPlayer(null);
+        onRefresh();
+      } catch (err) {
+        setActionError(err instanceof Error ? err.message : 'Failed to delete recording');
+      } finally {
+        setBusyId(null);
+      }
+    },
+    [token, player, onRefresh]
+  );
+
+  const inputClass =
+    'w-full px-2 py-1.5 rounded-md bg-surface-700 border border-surface-border text-primary focus:outline-none focus:ring-2 focus:ring-brand';
+
   return (
     <div className="bg-surface-800/95 backdrop-blur rounded-xl p-4 border border-surface-border shadow-xl">
       <div className="flex items-center justify-between mb-3">
@@ -109,24 +234,80 @@ export function RecordingsList({ recordings, loading, onRefresh, token, onClose
               key={r.id}
               className="text-xs text-secondary py-1.5 border-b border-surface-border last:border-0"
             >
-              <div className="flex justify-between items-center">
-                <span>{formatDuration(r.duration_seconds)}</span>
+              <div className="flex justify-between items-center gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  {thumbnails[r.id] ? (
+                    <img src={thumbnails[r.id]} alt="" className="w-16 h-9 shrink-0 rounded object-cover bg-surface-700" />
+                  ) : (
+                    <div className="w-16 h-9 shrink-0 rounded bg-surface-700" />
+                  )}
+                  <span className="truncate">
+                    {r.title && <span className="block truncate text-primary font-medium">{r.title}</span>}
+                    {formatDuration(r.duration_seconds)}
+                    <span className="ml-2 text-muted">{r.mode === 'composite' ? 'Whole meeting' : 'Camera'}</span>
+                    {(r.processing_status === 'pending' || r.processing_status === 'processing') && (
+                      <span className="ml-2 text-amber-400">Processing...</span>
+                    )}
+                    {r.processing_status === 'failed' && (
+                      <span className="ml-2 text-red-400" title={r.processing_error ?? undefined}>
+                        Processing failed
+                      </span>
+                    )}
+                  </span>
+                </div>
                 <div className="flex items-center gap-2">
+                  {(isRoomOwner || r.user_id === currentUserId) && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setEditing((e) =>
+                            e?.id === r.id
+                              ? null
+                              : { id: r.id, title: r.title ?? '', description: r.description ?? '' }
+                          )
+                        }
+                        className="text-brand hover:text-brand-light transition-colors"
+                        title="Edit title and description"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(r)}
+                        disabled={busyId === r.id}
+                        className="text-red-400 hover:text-red-300 disabled:opacity-50 transition-colors"
+                        title="Delete"
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                  {(canManageAll || r.user_id === currentUserId) && (
+                    <button
+                      type="button"
+                      onClick={() => setSharingId((id) => (id === r.id ? null : r.id))}
+                      className="text-brand hover:text-brand-light transition-colors"
+                      title="Share"
+                    >
+                      {sharingId === r.id ? 'Done' : 'Share'}
+                    </button>
+                  )}
                   <button
                     type="button"
                     onClick={() => handlePlay(r.id)}
-                    disabled={loadingBlob === r.id}
+                    disabled={loadingId === r.id}
                     className="text-brand hover:text-brand-light transition-colors disabled:opacity-50"
-                    title={playingId === r.id ? 'Close' : 'Play'}
+                    title={player?.id === r.id ? 'Close' : 'Play'}
                   >
-                    {loadingBlob === r.id ? '...' : playingId === r.id ? 'Close' : 'Play'}
+                    {loadingId === r.id ? '...' : player?.id === r.id ? 'Close' : 'Play'}
                   </button>
                   <button
                     type="button"
-                    onClick={() => handleDownload(r.id, `recording-${r.id}.webm`)}
+                    onClick={() => handleDownload(r.id, r.mp4_path ? 'mp4' : undefined)}
                     className="p-1 text-green-400 hover:text-green-300 transition-colors rounded"
-                    title="Download"
-                    aria-label="Download"
+                    title={r.mp4_path ? 'Download MP4' : 'Download'}
+                    aria-label={r.mp4_path ? 'Download MP4' : 'Download'}
                   >
                     <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-4 h-4">
                       <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
@@ -139,18 +320,90 @@ export function RecordingsList({ recordings, loading, onRefresh, token, onClose
               <span className="text-muted block truncate">
                 {formatDate(r.started_at)}
               </span>
-              {playingId === r.id && blobUrls[r.id] && (
-                <video
-                  src={blobUrls[r.id]}
-                  controls
-                  autoPlay
-                  className="mt-2 w-full rounded-lg"
-                />
+              {r.description && editing?.id !== r.id && (
+                <p className="text-muted mt-1 whitespace-pre-wrap break-words">{r.description}</p>
+              )}
+              {editing?.id === r.id && (
+                <form
+                  className="mt-2 p-3 rounded-lg bg-surface-900/60 border border-surface-border space-y-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleSave();
+                  }}
+                >
+                  <input
+                    type="text"
+                    value={editing.title}
+                    onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+                    placeholder="Title"
+                    maxLength={200}
+                    className={inputClass}
+                  />
+                  <textarea
+                    value={editing.description}
+                    onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                    placeholder="Description"
+                    maxLength={2000}
+                    rows={3}
+                    className={inputClass}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setEditing(null)}
+                      className="px-2 py-1.5 text-muted hover:text-secondary transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={busyId === r.id}
+                      className="px-2 py-1.5 rounded-md bg-brand hover:bg-brand-light disabled:opacity-40 text-white font-medium transition-colors"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </form>
+              )}
+              {sharingId === r.id && token && <RecordingSharePanel recordingId={r.id} token={token} />}
+              {player?.id === r.id && (
+                <>
+                  <video ref={videoRef} src={player.url} controls autoPlay className="mt-2 w-full rounded-lg">
+                    {player.chaptersUrl && <track kind="chapters" src={player.chaptersUrl} default />}
+                  </video>
+                  {player.markers.length > 0 && (
+                    <ol className="mt-2 space-y-0.5">
+                      {player.markers.map((m) => (
+                        <li key={m.id}>
+                          <button
+                            type="button"
+                            onClick={() => seekTo(m.offset_ms)}
+                            className="w-full flex items-center gap-2 px-1.5 py-1 rounded-md hover:bg-surface-700 text-left text-xs transition-colors"
+                            title={m.display_name ? `Marked by ${m.display_name}` : undefined}
+                          >
+                            <span className="text-brand tabular-nums shrink-0">
+                              {formatDuration(Math.floor(m.offset_ms / 1000))}
+                            </span>
+                            <span className="text-secondary truncate">{m.label}</span>
+                          </button>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </>
               )}
             </li>
           ))}
         </ul>
       )}
+      {actionError && <p className="mt-2 text-xs text-red-400">{actionError}</p>}
+      {usage && (
+        <p className="mt-3 text-xs text-muted">
+          {usage.quota_bytes === null
+            ? `You are using ${formatBytes(usage.used_bytes)}`
+            : `You are using ${formatBytes(usage.used_bytes)} of ${formatBytes(usage.quota_bytes)}`}
+        </p>
+      )}
     </div>
   );
 }
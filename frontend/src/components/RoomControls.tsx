@@ -1,3 +1,5 @@
+import type { RecordingMode } from '../api/client';
+
 type RoomControlsProps = {
   isRecording: boolean;
   onMuteToggle: () => void;
@@ -12,6 +14,26 @@ type RoomControlsProps = {
   showRecordings?: boolean;
   onToggleRecordings?: () => void;
   recordingsCount?: number;
+  showChat?: boolean;
+  onToggleChat?: () => void;
+  unreadCount?: number;
+  isScreenSharing?: boolean;
+  onScreenShareToggle?: () => void;
+  canScreenShare?: boolean;
+  /** Moderators only */
+  onMuteAll?: () => void;
+  isHandRaised?: boolean;
+  onRaiseHandToggle?: () => void;
+  showHandQueue?: boolean;
+  onToggleHandQueue?: () => void;
+  raisedHandCount?: number;
+  /** What the record button captures; locked while a recording is running */
+  recordingMode?: RecordingMode;
+  onRecordingModeChange?: (mode: RecordingMode) => void;
+  /** Bookmark this moment in every recording running in the room; only set while one is */
+  onAddMarker?: () => void;
+  /** False hides the record button (guests can't record) */
+  canRecord?: boolean;
 };
 
 export function RoomControls({
@@ -28,6 +50,22 @@ export function RoomControls({
   showRecordings,
   onToggleRecordings,
   recordingsCount = 0,
+  showChat,
+  onToggleChat,
+  unreadCount = 0,
+  isScreenSharing = false,
+  onScreenShareToggle,
+  canScreenShare = true,
+  onMuteAll,
+  isHandRaised = false,
+  onRaiseHandToggle,
+  showHandQueue,
+  onToggleHandQueue,
+  raisedHandCount = 0,
+  onAddMarker,
+  recordingMode = 'local',
+  canRecord = true,
+  onRecordingModeChange,
 }: RoomControlsProps) {
   const btnBase = 'p-3 rounded-full transition-colors';
   const btnOff = 'bg-red-600 hover:bg-red-500 text-white';
@@ -85,25 +123,87 @@ export function RoomControls({
         )}
       </button>
 
-      {/* Record */}
-      <button
-        type="button"
-        onClick={isRecording ? onRecordStop : onRecordStart}
-        className={`${btnBase} ${isRecording ? 'bg-red-600 hover:bg-red-500 text-white animate-pulse' : btnOn}`}
-        title={isRecording ? 'Stop recording' : 'Start recording'}
-        aria-label={isRecording ? 'Stop recording' : 'Start recording'}
-      >
-        {isRecording ? (
-          <svg viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
-            <rect x="6" y="6" width="12" height="12" rx="1" />
+      {/* Screen share — hidden when the browser has no getDisplayMedia */}
+      {onScreenShareToggle && canScreenShare && (
+        <button
+          type="button"
+          onClick={onScreenShareToggle}
+          className={`${btnBase} ${isScreenSharing ? 'bg-brand hover:bg-brand-light text-white' : btnOn}`}
+          title={isScreenSharing ? 'Stop presenting' : 'Present screen'}
+          aria-label={isScreenSharing ? 'Stop presenting' : 'Present screen'}
+        >
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5">
+            <rect x="2" y="3" width="20" height="14" rx="2" />
+            <path d="M8 21h8M12 17v4" />
+            {isScreenSharing ? <path d="M9 7l6 6M15 7l-6 6" /> : <path d="M12 13V7M9 10l3-3 3 3" />}
           </svg>
-        ) : (
-          <svg viewBox="0 0 24 24" fill="none" className="w-5 h-5">
-            <circle cx="12" cy="12" r="8" stroke="currentColor" strokeWidth="2" />
-            <circle cx="12" cy="12" r="4" fill="currentColor" />
+        </button>
+      )}
+
+      {/* Raise hand */}
+      {onRaiseHandToggle && (
+        <button
+          type="button"
+          onClick={onRaiseHandToggle}
+          className={`${btnBase} ${isHandRaised ? 'bg-amber-500 hover:bg-amber-400 text-white' : btnOn}`}
+          title={isHandRaised ? 'Lower hand' : 'Raise hand'}
+          aria-label={isHandRaised ? 'Lower hand' : 'Raise hand'}
+        >
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5">
+            <path d="M18 11V6a2 2 0 0 0-4 0M14 10V4a2 2 0 0 0-4 0v2M10 10.5V6a2 2 0 0 0-4 0v8M18 8a2 2 0 1 1 4 0v6a8 8 0 0 1-8 8h-2c-2.8 0-4.5-.86-5.99-2.34l-3.6-3.6a2 2 0 0 1 2.83-2.82L7 15" />
           </svg>
-        )}
-      </button>
+        </button>
+      )}
+
+      {/* Record */}
+      {canRecord && (
+        <button
+          type="button"
+          onClick={isRecording ? onRecordStop : onRecordStart}
+          className={`${btnBase} ${isRecording ? 'bg-red-600 hover:bg-red-500 text-white animate-pulse' : btnOn}`}
+          title={isRecording ? 'Stop recording' : 'Start recording'}
+          aria-label={isRecording ? 'Stop recording' : 'Start recording'}
+        >
+          {isRecording ? (
+            <svg viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
+              <rect x="6" y="6" width="12" height="12" rx="1" />
+            </svg>
+          ) : (
+            <svg viewBox="0 0 24 24" fill="none" className="w-5 h-5">
+              <circle cx="12" cy="12" r="8" stroke="currentColor" strokeWidth="2" />
+              <circle cx="12" cy="12" r="4" fill="currentColor" />
+            </svg>
+          )}
+        </button>
+      )}
+
+      {canRecord && onRecordingModeChange && (
+        <select
+          value={recordingMode}
+          onChange={(e) => onRecordingModeChange(e.target.value as RecordingMode)}
+          disabled={isRecording}
+          className="px-3 py-3 rounded-full bg-surface-700 text-primary text-sm font-medium border-0 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-brand"
+          title="What to record"
+          aria-label="What to record"
+        >
+          <option value="composite">Whole meeting</option>
+          <option value="local">My camera</option>
+        </select>
+      )}
+
+      {onAddMarker && (
+        <button
+          type="button"
+          onClick={onAddMarker}
+          className={`${btnBase} ${btnOn}`}
+          title="Mark this moment in the recording"
+          aria-label="Mark this moment in the recording"
+        >
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5">
+            <path d="M19 21l-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2z" />
+          </svg>
+        </button>
+      )}
 
       {/* Recordings toggle — "saved/recorded meetings" icon */}
       {onToggleRecordings && (
@@ -126,6 +226,59 @@ export function RoomControls({
         </button>
       )}
 
+      {/* Chat toggle — badge shows unread messages while the panel is closed */}
+      {onToggleChat && (
+        <button
+          type="button"
+          onClick={onToggleChat}
+          className={`${btnBase} relative ${showChat ? 'bg-brand hover:bg-brand-light text-white' : btnOn}`}
+          title={showChat ? 'Hide chat' : 'Show chat'}
+          aria-label={showChat ? 'Hide chat' : 'Show chat'}
+        >
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5">
+            <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
+          </svg>
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 w-4 h-4 bg-red-600 text-white text-[10px] rounded-full flex items-center justify-center font-semibold">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </button>
+      )}
+
+      {/* Raised-hands queue — badge shows how many are waiting to speak */}
+      {onToggleHandQueue && (
+        <button
+          type="button"
+          onClick={onToggleHandQueue}
+          className={`${btnBase} relative ${showHandQueue ? 'bg-brand hover:bg-brand-light text-white' : btnOn}`}
+          title={showHandQueue ? 'Hide raised hands' : 'Show raised hands'}
+          aria-label={showHandQueue ? 'Hide raised hands' : 'Show raised hands'}
+        >
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5">
+            <path d="M8 6h13M8 12h13M8 18h13M3 6h.01M3 12h.01M3 18h.01" />
+          </svg>
+          {raisedHandCount > 0 && (
+            <span className="absolute -top-1 -right-1 w-4 h-4 bg-amber-500 text-white text-[10px] rounded-full flex items-center justify-center font-semibold">
+              {raisedHandCount > 9 ? '9+' : raisedHandCount}
+            </span>
+          )}
+        </button>
+      )}
+
+      {/* Mute everyone — moderators only */}
+      {onMuteAll && (
+        <button
+          type="button"
+          onClick={onMuteAll}
+          className="px-4 py-3 rounded-full bg-surface-700 hover:bg-surface-600 text-primary transition-colors font-medium text-sm"
+          title="Mute everyone else"
+          aria-label="Mute everyone else"
+        >
+          Mute all
+        </button>
+      )}
+
       {/* Divider */}
       <div className="w-px h-8 bg-surface-border mx-1" />
 
@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import type { AttendanceEntry, LeaveReason, MeetingSession } from '../api/client';
+import { listMeetingSessions, fetchAttendanceCsv, isGuestUserId } from '../api/client';
+
+type RoomHistoryPanelProps = {
+  roomId: string;
+  fileName: string;
+  getToken: () => Promise<string | null>;
+  onClose?: () => void;
+};
+
+const LEAVE_REASONS: Record<LeaveReason, string> = {
+  left: 'left',
+  disconnected: 'lost connection',
+  kicked: 'removed',
+  'server-restart': 'server restarted',
+};
+
+type Attendee = {
+  userId: string;
+  displayName: string | null;
+  minutes: number;
+  stints: number;
+  // null while they're still in the call
+  lastReason: LeaveReason | null;
+  present: boolean;
+};
+
+function minutesBetween(from: string, to: string | null): number {
+  const end = to ? new Date(to).getTime() : Date.now();
+  return Math.max(0, Math.round((end - new Date(from).getTime()) / 60000));
+}
+
+/** Per-person totals; someone who dropped out and came back counts once */
+function summarize(entries: AttendanceEntry[]): Attendee[] {
+  const byUser = new Map<string, Attendee>();
+  for (const e of entries) {
+    const a = byUser.get(e.user_id) ?? {
+      userId: e.user_id,
+      displayName: e.display_name,
+      minutes: 0,
+      stints: 0,
+      lastReason: null,
+      present: false,
+    };
+    a.displayName = e.display_name ?? a.displayName;
+    a.minutes += minutesBetween(e.joined_at, e.left_at);
+    a.stints += 1;
+    a.lastReason = e.leave_reason;
+    a.present = a.present || !e.left_at;
+    byUser.set(e.user_id, a);
+  }
+  return [...byUser.values()].sort((a, b) => b.minutes - a.minutes);
+}
+
+function formatMinutes(minutes: number): string {
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+function formatStart(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/** Past and ongoing sessions of a room with who attended and for how long; hosts only */
+export function RoomHistoryPanel({ roomId, fileName, getToken, onClose }: RoomHistoryPanelProps) {
+  const [sessions, setSessions] = useState<MeetingSession[] | null>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const token = await getToken();
+        if (!token) return;
+        const list = await listMeetingSessions(roomId, token);
+        if (cancelled) return;
+        setSessions(list);
+        setOpenId(list[0]?.id ?? null);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Could not load meeting history');
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, getToken]);
+
+  const handleExport = async (sessionId?: string) => {
+    try {
+      const token = await getToken();
+      if (!token) return;
+      const url = await fetchAttendanceCsv(roomId, token, sessionId);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch {
+      setError('Could not download the attendance report');
+    }
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-surface-border text-xs">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-sm text-primary font-heading">History</h3>
+        <div className="flex items-center gap-3">
+          {sessions && sessions.length > 0 && (
+            <button
+              type="button"
+              onClick={() => handleExport()}
+              className="text-brand hover:text-brand-light transition-colors"
+            >
+              Export all (CSV)
+            </button>
+          )}
+          {onClose && (
+            <button type="button" onClick={onClose} className="text-muted hover:text-secondary transition-colors">
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!sessions ? (
+        <p className="text-muted">{error ?? 'Loading...'}</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-muted">Nobody has met in this room yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {sessions.map((s) => {
+            const attendees = summarize(s.attendance);
+            const isOpen = openId === s.id;
+            return (
+              <li key={s.id} className="rounded-lg bg-surface-800/60 border border-surface-border">
+                <button
+                  type="button"
+                  onClick={() => setOpenId(isOpen ? null : s.id)}
+                  className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left"
+                >
+                  <span className="text-primary">{formatStart(s.started_at)}</span>
+                  <span className="text-muted shrink-0">
+                    {s.ended_at ? formatMinutes(minutesBetween(s.started_at, s.ended_at)) : 'In progress'} ·{' '}
+                    {attendees.length} {attendees.length === 1 ? 'person' : 'people'}
+                  </span>
+                </button>
+                {isOpen && (
+                  <div className="px-3 pb-3">
+                    <ul className="space-y-1 mb-2">
+                      {attendees.map((a) => (
+                        <li key={a.userId} className="flex items-center justify-between gap-2">
+                          <span className="truncate text-secondary">
+                            {a.displayName || a.userId}
+                            {isGuestUserId(a.userId) && <span className="text-muted"> (guest)</span>}
+                          </span>
+                          <span className="text-muted shrink-0">
+                            {formatMinutes(a.minutes)}
+                            {a.stints > 1 && `, joined ${a.stints}×`}
+                            {a.present ? ', still here' : a.lastReason && `, ${LEAVE_REASONS[a.lastReason]}`}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    <button
+                      type="button"
+                      onClick={() => handleExport(s.id)}
+                      className="text-brand hover:text-brand-light transition-colors"
+                    >
+                      Export this session (CSV)
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {sessions && error && <p className="text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import { useEffect, useState } from 'react';
+import type { RoomInvite, RoomInvites } from '../api/client';
+import {
+  listRoomInvites,
+  inviteToRoom,
+  createRoomInviteLink,
+  removeRoomInvite,
+  getInviteUrl,
+  getGuestUrl,
+} from '../api/client';
+
+type RoomInvitePanelProps = {
+  roomId: string;
+  token: string;
+  onClose?: () => void;
+};
+
+const LINK_USES = [
+  { uses: 1, label: 'Single use' },
+  { uses: 10, label: 'Up to 10 people' },
+  { uses: null, label: 'Unlimited' },
+];
+
+const LINK_DURATIONS = [
+  { hours: 24, label: '1 day' },
+  { hours: 24 * 7, label: '7 days' },
+  { hours: 24 * 30, label: '30 days' },
+  { hours: null, label: 'never' },
+];
+
+function describeLink(link: RoomInvite): string {
+  const uses = link.max_uses === null ? `Used ${link.use_count}×` : `${link.use_count}/${link.max_uses} used`;
+  const expiry = link.expires_at
+    ? `expires ${new Date(link.expires_at).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}`
+    : 'no expiry';
+  return `${uses}, ${expiry}`;
+}
+
+/** People and links that get into the meeting without waiting in the lobby; host only */
+export function RoomInvitePanel({ roomId, token, onClose }: RoomInvitePanelProps) {
+  const [invites, setInvites] = useState<RoomInvites | null>(null);
+  const [invitee, setInvitee] = useState('');
+  const [linkUses, setLinkUses] = useState<number | null>(1);
+  const [linkHours, setLinkHours] = useState<number | null>(24 * 7);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listRoomInvites(roomId, token)
+      .then((i) => !cancelled && setInvites(i))
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : 'Could not load invitations'));
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, token]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleInvite = () =>
+    run(async () => {
+      const value = invitee.trim();
+      const invite = await inviteToRoom(roomId, value.includes('@') ? { email: value } : { userId: value }, token);
+      setInvites((prev) => prev && { ...prev, people: [...prev.people.filter((p) => p.id !== invite.id), invite] });
+      setInvitee('');
+    });
+
+  const copy = async (copyId: string, url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedId(copyId);
+      setTimeout(() => setCopiedId((id) => (id === copyId ? null : id)), 2000);
+    } catch {
+      setError('Could not copy the link');
+    }
+  };
+
+  const handleCopy = (link: RoomInvite) => (link.token ? copy(link.id, getInviteUrl(link.token)) : undefined);
+
+  const handleCreateLink = () =>
+    run(async () => {
+      const link = await createRoomInviteLink(roomId, { maxUses: linkUses, expiresInHours: linkHours }, token);
+      setInvites((prev) => prev && { ...prev, links: [...prev.links, link] });
+      await handleCopy(link);
+    });
+
+  const handleRemove = (inviteId: string) =>
+    run(async () => {
+      await removeRoomInvite(roomId, inviteId, token);
+      setInvites(
+        (prev) =>
+          prev && {
+            people: prev.people.filter((p) => p.id !== inviteId),
+            links: prev.links.filter((l) => l.id !== inviteId),
+          }
+      );
+    });
+
+  const inputClass =
+    'min-w-0 flex-1 px-2 py-1.5 rounded-md bg-surface-700 border border-surface-border text-primary focus:outline-none focus:ring-2 focus:ring-brand';
+  const buttonClass =
+    'shrink-0 px-2 py-1.5 rounded-md bg-brand hover:bg-brand-light disabled:opacity-40 disabled:cursor-not-allowed text-white font-medium transition-colors';
+
+  return (
+    <div className="bg-surface-800/95 backdrop-blur rounded-xl p-4 border border-surface-border shadow-xl">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-sm text-primary font-heading">Invite people</h3>
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-muted hover:text-secondary transition-colors"
+            title="Close"
+          >
+            <svg viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+              <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4 text-xs">
+        {!invites ? (
+          <p className="text-muted">{error ?? 'Loading...'}</p>
+        ) : (
+          <>
+            <div>
+              <p className="text-secondary font-medium mb-1">People</p>
+              <p className="text-muted mb-2">Invited people skip the lobby and the passcode.</p>
+              {invites.people.length > 0 && (
+                <ul className="space-y-1 mb-2">
+                  {invites.people.map((p) => (
+                    <li key={p.id} className="flex items-center justify-between gap-2">
+                      <span className="truncate text-primary">
+                        {p.email || p.user_id}
+                        {!p.user_id && <span className="text-muted"> (not signed up yet)</span>}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(p.id)}
+                        disabled={busy}
+                        className="text-red-400 hover:text-red-300 disabled:opacity-50 transition-colors"
+                      >
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (invitee.trim()) handleInvite();
+                }}
+              >
+                <input
+                  type="text"
+                  value={invitee}
+                  onChange={(e) => setInvitee(e.target.value)}
+                  placeholder="Email or user id"
+                  className={inputClass}
+                />
+                <button type="submit" disabled={busy || !invitee.trim()} className={buttonClass}>
+                  Invite
+                </button>
+              </form>
+            </div>
+
+            <div>
+              <p className="text-secondary font-medium mb-1">Invite links</p>
+              <p className="text-muted mb-2">Whoever opens a link joins as an invitee, until it is used up or expires.</p>
+              {invites.links.length > 0 && (
+                <ul className="space-y-1 mb-2">
+                  {invites.links.map((l) => (
+                    <li key={l.id} className="flex items-center justify-between gap-2">
+                      <span className="text-muted truncate">{describeLink(l)}</span>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <button
+                          type="button"
+                          onClick={() => handleCopy(l)}
+                          className="text-brand hover:text-brand-light transition-colors"
+                        >
+                          {copiedId === l.id ? 'Copied' : 'Copy'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleRemove(l.id)}
+                          disabled={busy}
+                          className="text-red-400 hover:text-red-300 disabled:opacity-50 transition-colors"
+                        >
+                          Revoke
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex gap-2 mb-2">
+                <select
+                  value={String(linkUses)}
+                  onChange={(e) => setLinkUses(e.target.value === 'null' ? null : Number(e.target.value))}
+                  className={inputClass}
+                >
+                  {LINK_USES.map((u) => (
+                    <option key={String(u.uses)} value={String(u.uses)}>
+                      {u.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={String(linkHours)}
+                  onChange={(e) => setLinkHours(e.target.value === 'null' ? null : Number(e.target.value))}
+                  className={inputClass}
+                >
+                  {LINK_DURATIONS.map((d) => (
+                    <option key={String(d.hours)} value={String(d.hours)}>
+                      Expires {d.hours === null ? d.label : `in ${d.label}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button type="button" onClick={handleCreateLink} disabled={busy} className={`${buttonClass} w-full`}>
+                Create and copy link
+              </button>
+            </div>
+
+            <div>
+              <p className="text-secondary font-medium mb-1">Guests</p>
+              <p className="text-muted mb-2">
+                People without an account can enter a name on this page. They always wait in the lobby and can't
+                record.
+              </p>
+              <button
+                type="button"
+                onClick={() => copy('guest', getGuestUrl(roomId))}
+                className="text-brand hover:text-brand-light transition-colors"
+              >
+                {copiedId === 'guest' ? 'Copied' : 'Copy guest link'}
+              </button>
+            </div>
+
+            {error && <p className="text-red-400">{error}</p>}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
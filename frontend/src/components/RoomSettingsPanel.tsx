@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import type { Room, RoomSettings, AbsentHostPolicy, AdmissionPolicy } from '../api/client';
+
+type RoomSettingsPanelProps = {
+  room: Room;
+  onSave: (settings: RoomSettings) => Promise<void>;
+  onClose?: () => void;
+};
+
+export function RoomSettingsPanel({ room, onSave, onClose }: RoomSettingsPanelProps) {
+  const [absentHostPolicy, setAbsentHostPolicy] = useState<AbsentHostPolicy>(room.absent_host_policy ?? 'lobby');
+  const [lobbyTimeoutMinutes, setLobbyTimeoutMinutes] = useState(Math.round((room.lobby_timeout_seconds ?? 300) / 60));
+  const [promoteOnHostLeave, setPromoteOnHostLeave] = useState(!!room.promote_on_host_leave);
+  const [admissionPolicy, setAdmissionPolicy] = useState<AdmissionPolicy>(room.admission_policy ?? 'lobby');
+  const [allowedDomains, setAllowedDomains] = useState((room.allowed_domains ?? []).join(', '));
+  // Empty means "leave the current passcode alone"
+  const [newPasscode, setNewPasscode] = useState('');
+  const [removePasscode, setRemovePasscode] = useState(false);
+  // Empty means keep recordings forever
+  const [retentionDays, setRetentionDays] = useState(room.recording_retention_days?.toString() ?? '');
+  const [recordingRequiresApproval, setRecordingRequiresApproval] = useState(!!room.recording_requires_approval);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const settings: RoomSettings = {
+        absentHostPolicy,
+        lobbyTimeoutSeconds: Math.max(0, Math.min(60, lobbyTimeoutMinutes)) * 60,
+        promoteOnHostLeave,
+        admissionPolicy,
+        allowedDomains: allowedDomains
+          .split(/[\s,]+/)
+          .map((d) => d.trim())
+          .filter(Boolean),
+        recordingRetentionDays: retentionDays.trim() ? parseInt(retentionDays, 10) : null,
+        recordingRequiresApproval,
+      };
+      if (removePasscode) settings.passcode = null;
+      else if (newPasscode) settings.passcode = newPasscode;
+      await onSave(settings);
+      onClose?.();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-surface-800/95 backdrop-blur rounded-xl p-4 border border-surface-border shadow-xl">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-sm text-primary font-heading">Meeting settings</h3>
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-muted hover:text-secondary transition-colors"
+            title="Close"
+          >
+            <svg viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+              <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4 text-xs">
+        <label className="block">
+          <span className="text-secondary font-medium block mb-1">Who can join</span>
+          <select
+            value={admissionPolicy}
+            onChange={(e) => setAdmissionPolicy(e.target.value as AdmissionPolicy)}
+            className="w-full px-3 py-2 rounded-lg bg-surface-700 border border-surface-border text-primary focus:outline-none focus:ring-2 focus:ring-brand"
+          >
+            <option value="open">Anyone with the link, no lobby</option>
+            <option value="lobby">Ask a host before joining</option>
+            <option value="locked">Nobody new (locked)</option>
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="text-secondary font-medium block mb-1">Skip the lobby for these email domains</span>
+          <input
+            type="text"
+            value={allowedDomains}
+            onChange={(e) => setAllowedDomains(e.target.value)}
+            placeholder="example.com, partner.org"
+            className="w-full px-3 py-2 rounded-lg bg-surface-700 border border-surface-border text-primary placeholder-muted focus:outline-none focus:ring-2 focus:ring-brand"
+          />
+        </label>
+
+        <div>
+          <span className="text-secondary font-medium block mb-1">
+            Passcode {room.has_passcode ? '(set)' : '(none)'}
+          </span>
+          <input
+            type="password"
+            value={newPasscode}
+            onChange={(e) => setNewPasscode(e.target.value)}
+            disabled={removePasscode}
+            placeholder={room.has_passcode ? 'Enter a new passcode to change it' : 'Optional, at least 4 characters'}
+            autoComplete="new-password"
+            className="w-full px-3 py-2 rounded-lg bg-surface-700 border border-surface-border text-primary placeholder-muted disabled:opacity-40 focus:outline-none focus:ring-2 focus:ring-brand"
+          />
+          {room.has_passcode && (
+            <label className="flex items-center gap-2 mt-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={removePasscode}
+                onChange={(e) => setRemovePasscode(e.target.checked)}
+                className="accent-brand"
+              />
+              <span className="text-secondary">Remove passcode</span>
+            </label>
+          )}
+        </div>
+
+        <label className="block">
+          <span className="text-secondary font-medium block mb-1">When no host is in the meeting</span>
+          <select
+            value={absentHostPolicy}
+            onChange={(e) => setAbsentHostPolicy(e.target.value as AbsentHostPolicy)}
+            className="w-full px-3 py-2 rounded-lg bg-surface-700 border border-surface-border text-primary focus:outline-none focus:ring-2 focus:ring-brand"
+          >
+            <option value="lobby">Keep people in the lobby</option>
+            <option value="auto-admit">Let people in automatically</option>
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="text-secondary font-medium block mb-1">Lobby timeout (minutes, 0 = never)</span>
+          <input
+            type="number"
+            min={0}
+            max={60}
+            value={lobbyTimeoutMinutes}
+            onChange={(e) => setLobbyTimeoutMinutes(parseInt(e.target.value, 10) || 0)}
+            className="w-full px-3 py-2 rounded-lg bg-surface-700 border border-surface-border text-primary focus:outline-none focus:ring-2 focus:ring-brand"
+          />
+        </label>
+
+        <label className="block">
+          <span className="text-secondary font-medium block mb-1">Delete recordings after (days, empty = keep)</span>
+          <input
+            type="number"
+            min={1}
+            max={3650}
+            value={retentionDays}
+            onChange={(e) => setRetentionDays(e.target.value)}
+            placeholder="Keep forever"
+            className="w-full px-3 py-2 rounded-lg bg-surface-700 border border-surface-border text-primary placeholder-muted focus:outline-none focus:ring-2 focus:ring-brand"
+          />
+        </label>
+
+        <label className="flex items-start gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={recordingRequiresApproval}
+            onChange={(e) => setRecordingRequiresApproval(e.target.checked)}
+            className="mt-0.5 accent-brand"
+          />
+          <span className="text-secondary">Participants need a host's approval before they can record</span>
+        </label>
+
+        <label className="flex items-start gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={promoteOnHostLeave}
+            onChange={(e) => setPromoteOnHostLeave(e.target.checked)}
+            className="mt-0.5 accent-brand"
+          />
+          <span className="text-secondary">
+            If every host leaves, make the longest-present participant host for the rest of the meeting
+          </span>
+        </label>
+      </div>
+
+      {error && <p className="text-xs text-red-400 mt-3">{error}</p>}
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={saving}
+        className="mt-4 w-full px-3 py-2 rounded-lg bg-brand hover:bg-brand-light disabled:opacity-40 text-white text-xs font-medium transition-colors"
+      >
+        {saving ? 'Saving...' : 'Save'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { REPEAT_LABELS, DURATIONS } from './scheduleDraft';
+import type { RepeatOption, ScheduleDraft } from './scheduleDraft';
+
+const TIME_ZONES = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+
+type ScheduleFieldsProps = {
+  value: ScheduleDraft;
+  onChange: (draft: ScheduleDraft) => void;
+};
+
+const inputClass =
+  'w-full px-3 py-2 rounded-lg bg-surface-700 border border-surface-border text-primary placeholder-muted focus:outline-none focus:ring-2 focus:ring-brand';
+
+export function ScheduleFields({ value, onChange }: ScheduleFieldsProps) {
+  const set = (patch: Partial<ScheduleDraft>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="grid grid-cols-2 gap-3 text-xs">
+      <label className="block col-span-2 sm:col-span-1">
+        <span className="text-secondary font-medium block mb-1">Starts</span>
+        <input
+          type="datetime-local"
+          value={value.startsAt}
+          onChange={(e) => set({ startsAt: e.target.value })}
+          className={inputClass}
+        />
+      </label>
+      <label className="block col-span-2 sm:col-span-1">
+        <span className="text-secondary font-medium block mb-1">Duration</span>
+        <select
+          value={value.durationMinutes}
+          onChange={(e) => set({ durationMinutes: parseInt(e.target.value, 10) })}
+          className={inputClass}
+        >
+          {[...new Set([...DURATIONS, value.durationMinutes])]
+            .sort((a, b) => a - b)
+            .map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+              </option>
+            ))}
+        </select>
+      </label>
+      <label className="block col-span-2 sm:col-span-1">
+        <span className="text-secondary font-medium block mb-1">Time zone</span>
+        <input
+          type="text"
+          list="schedule-time-zones"
+          value={value.timeZone}
+          onChange={(e) => set({ timeZone: e.target.value })}
+          className={inputClass}
+        />
+        <datalist id="schedule-time-zones">
+          {TIME_ZONES.map((zone) => (
+            <option key={zone} value={zone} />
+          ))}
+        </datalist>
+      </label>
+      <label className="block col-span-2 sm:col-span-1">
+        <span className="text-secondary font-medium block mb-1">Repeats</span>
+        <select
+          value={value.repeat}
+          onChange={(e) => set({ repeat: e.target.value as RepeatOption })}
+          className={inputClass}
+        >
+          {(Object.keys(REPEAT_LABELS) as RepeatOption[]).map((option) => (
+            <option key={option} value={option}>
+              {REPEAT_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {value.repeat === 'custom' && (
+        <label className="block col-span-2">
+          <span className="text-secondary font-medium block mb-1">Recurrence rule</span>
+          <input
+            type="text"
+            value={value.customRule}
+            onChange={(e) => set({ customRule: e.target.value })}
+            placeholder="FREQ=MONTHLY;BYDAY=1MO"
+            className={`${inputClass} font-mono`}
+          />
+        </label>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { ParticipantVideo } from './ParticipantVideo';
 import type { PeerStream } from '../hooks/useWebRTC';
+import type { RoomRole } from '../api/client';
+import { isModeratorRole, outranksRole, isGuestUserId } from '../api/client';
 
 type VideoGridProps = {
   localStream: MediaStream | null;
@@ -8,8 +10,27 @@ type VideoGridProps = {
   currentUserId: string;
   currentAvatarUrl?: string | null;
   isVideoOff?: boolean;
-  roomCreatedBy?: string;
+  isMuted?: boolean;
+  currentRole?: RoomRole | null;
   onKick?: (socketId: string) => void;
+  onMute?: (socketId: string) => void;
+  onAskToUnmute?: (socketId: string) => void;
+  onToggleCoHost?: (userId: string, role?: RoomRole) => void;
+  onTransferHost?: (socketId: string, label: string) => void;
+  /** Our own screen while we are presenting */
+  localScreenStream?: MediaStream | null;
+  /** Remote participant currently presenting (their video track carries the screen) */
+  presenterSocketId?: string | null;
+  currentSocketId?: string | null;
+  /** Socket ids with raised hands, in queue order */
+  raisedHands?: string[];
+  /** Socket ids of everyone recording the call */
+  recordingIds?: string[];
+  /** Sticky active speaker (socket id; ours is currentSocketId) and who is audible right now */
+  activeSpeakerId?: string | null;
+  speakingIds?: string[];
+  /** 'speaker' enlarges the active speaker and puts everyone else in a strip */
+  layout?: 'grid' | 'speaker';
 };
 
 function getDisplayLabel(p: PeerStream): string {
@@ -23,14 +44,157 @@ export function VideoGrid({
   currentUserId,
   currentAvatarUrl,
   isVideoOff = false,
-  roomCreatedBy,
+  isMuted = false,
+  currentRole,
   onKick,
+  onMute,
+  onAskToUnmute,
+  onToggleCoHost,
+  onTransferHost,
+  localScreenStream,
+  presenterSocketId,
+  currentSocketId,
+  raisedHands = [],
+  recordingIds = [],
+  activeSpeakerId,
+  speakingIds = [],
+  layout = 'grid',
 }: VideoGridProps) {
   const total = (localStream ? 1 : 0) + peerStreams.length;
   const cols = total <= 1 ? 1 : total <= 4 ? 2 : Math.ceil(Math.sqrt(total));
   const rows = Math.ceil(total / cols);
   const isAlone = total === 1;
-  const isRoomOwner = roomCreatedBy === currentUserId;
+  const isModerator = isModeratorRole(currentRole);
+  const canKickPeer = (p: PeerStream) => isModerator && outranksRole(currentRole, p.role);
+  const muteAction = (p: PeerStream) => (onMute && canKickPeer(p) ? () => onMute(p.socketId) : undefined);
+  const askToUnmuteAction = (p: PeerStream) =>
+    onAskToUnmute && isModerator ? () => onAskToUnmute(p.socketId) : undefined;
+  // Only the owner manages co-hosts, and never their own role; guests can't be given one
+  const canManageRole = (p: PeerStream) => currentRole === 'owner' && !isGuestUserId(p.userId);
+  const coHostToggle = (p: PeerStream) =>
+    canManageRole(p) && onToggleCoHost && p.role !== 'owner' ? () => onToggleCoHost(p.userId, p.role) : undefined;
+  const hostTransfer = (p: PeerStream) =>
+    canManageRole(p) && onTransferHost ? () => onTransferHost(p.socketId, getDisplayLabel(p)) : undefined;
+
+  const handPosition = (socketId?: string | null) => {
+    const idx = socketId ? raisedHands.indexOf(socketId) : -1;
+    return idx >= 0 ? idx + 1 : undefined;
+  };
+
+  // Only highlight the active speaker while they are actually audible
+  const isSpeaking = (socketId?: string | null) =>
+    !!socketId && socketId === activeSpeakerId && speakingIds.includes(socketId);
+
+  const presenter = presenterSocketId ? peerStreams.find((p) => p.socketId === presenterSocketId) : undefined;
+
+  const localTile = localStream && (
+    <ParticipantVideo
+      stream={localStream}
+      label={currentDisplayName || currentUserId}
+      muted
+      isLocal
+      showAvatar={isVideoOff}
+      avatarUrl={currentAvatarUrl}
+      role={currentRole ?? undefined}
+      isMicMuted={isMuted}
+      isCameraOff={isVideoOff}
+      handPosition={handPosition(currentSocketId)}
+      isSpeaking={isSpeaking(currentSocketId)}
+      isRecording={!!currentSocketId && recordingIds.includes(currentSocketId)}
+      isGuest={isGuestUserId(currentUserId)}
+    />
+  );
+
+  // Remote tracks stay "enabled" when the sender turns the camera off, so prefer the signaled state
+  const renderPeerTile = (p: PeerStream) => (
+    <ParticipantVideo
+      key={p.socketId}
+      stream={p.stream}
+      label={getDisplayLabel(p)}
+      connectionState={p.connectionState}
+      reconnectAttempt={p.reconnectAttempt}
+      showAvatar={p.isVideoOff ?? !p.stream.getVideoTracks().some((t) => t.enabled)}
+      role={p.role}
+      isMicMuted={p.isMuted}
+      isCameraOff={p.isVideoOff}
+      canKick={canKickPeer(p)}
+      onKick={onKick ? () => onKick(p.socketId) : undefined}
+      onMute={muteAction(p)}
+      onAskToUnmute={askToUnmuteAction(p)}
+      handPosition={handPosition(p.socketId)}
+      isSpeaking={isSpeaking(p.socketId)}
+      isRecording={recordingIds.includes(p.socketId)}
+      isGuest={isGuestUserId(p.userId)}
+      onToggleCoHost={coHostToggle(p)}
+      onMakeHost={hostTransfer(p)}
+    />
+  );
+
+  /* ─── Presenter layout: shared screen large, cameras in a strip ─── */
+  if (localScreenStream || presenter) {
+    const stripPeers = presenter ? peerStreams.filter((p) => p.socketId !== presenter.socketId) : peerStreams;
+    return (
+      <div className="flex flex-col w-full h-full gap-2 p-2 relative z-10 min-h-0">
+        <div className="flex-1 min-h-0">
+          {localScreenStream ? (
+            <ParticipantVideo
+              stream={localScreenStream}
+              label={`${currentDisplayName || currentUserId}'s screen`}
+              muted
+              isLocal
+              fit="contain"
+            />
+          ) : (
+            presenter && (
+              <ParticipantVideo
+                stream={presenter.stream}
+                label={`${getDisplayLabel(presenter)}'s screen`}
+                connectionState={presenter.connectionState}
+                reconnectAttempt={presenter.reconnectAttempt}
+                fit="contain"
+                role={presenter.role}
+                isMicMuted={presenter.isMuted}
+                isRecording={recordingIds.includes(presenter.socketId)}
+                canKick={canKickPeer(presenter)}
+                onKick={onKick ? () => onKick(presenter.socketId) : undefined}
+              />
+            )
+          )}
+        </div>
+        <div className="h-32 shrink-0 flex gap-2 overflow-x-auto">
+          {localTile && <div className="w-48 h-full shrink-0">{localTile}</div>}
+          {stripPeers.map((p) => (
+            <div key={p.socketId} className="w-48 h-full shrink-0">
+              {renderPeerTile(p)}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  /* ─── Speaker layout: active speaker large, everyone else in a strip ─── */
+  if (layout === 'speaker' && total > 1) {
+    const localIsSpeaker = !!localTile && !!currentSocketId && activeSpeakerId === currentSocketId;
+    // Before anyone has spoken, feature the first remote participant
+    const featured = localIsSpeaker
+      ? undefined
+      : (peerStreams.find((p) => p.socketId === activeSpeakerId) ?? peerStreams[0]);
+    const stripPeers = featured ? peerStreams.filter((p) => p.socketId !== featured.socketId) : peerStreams;
+    return (
+      <div className="flex flex-col w-full h-full gap-2 p-2 relative z-10 min-h-0">
+        <div className="flex-1 min-h-0">{featured ? renderPeerTile(featured) : localTile}</div>
+        <div className="h-32 shrink-0 flex gap-2 overflow-x-auto">
+          {featured && localTile && <div className="w-48 h-full shrink-0">{localTile}</div>}
+          {stripPeers.map((p) => (
+            <div key={p.socketId} className="w-48 h-full shrink-0">
+              {renderPeerTile(p)}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="flex flex-col w-full h-full relative">
@@ -48,30 +212,10 @@ export function VideoGrid({
           gridTemplateRows: `repeat(${rows}, minmax(0, 1fr))`,
         }}
       >
-        {localStream && (
-          <div className="min-h-0 min-w-0">
-            <ParticipantVideo
-            stream={localStream}
-            label={currentDisplayName || currentUserId}
-            muted
-            isLocal
-            showAvatar={isVideoOff}
-            avatarUrl={currentAvatarUrl}
-            isOwner={isRoomOwner}
-          />
-          </div>
-        )}
+        {localTile && <div className="min-h-0 min-w-0">{localTile}</div>}
         {peerStreams.map((p) => (
           <div key={p.socketId} className="min-h-0 min-w-0">
-            <ParticipantVideo
-            key={p.socketId}
-            stream={p.stream}
-            label={getDisplayLabel(p)}
-            connectionState={p.connectionState}
-            showAvatar={!p.stream.getVideoTracks().some((t) => t.enabled)}
-            canKick={isRoomOwner}
-            onKick={onKick ? () => onKick(p.socketId) : undefined}
-          />
+            {renderPeerTile(p)}
           </div>
         ))}
       </div>
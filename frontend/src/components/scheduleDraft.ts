@@ -0,0 +1,108 @@
+import type { Room, RoomSchedule } from '../api/client';
+
+export type RepeatOption = 'none' | 'daily' | 'weekdays' | 'weekly' | 'biweekly' | 'monthly' | 'custom';
+
+/** Form state; startsAt is a datetime-local value read in timeZone */
+export type ScheduleDraft = {
+  startsAt: string;
+  durationMinutes: number;
+  timeZone: string;
+  repeat: RepeatOption;
+  customRule: string;
+};
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const REPEAT_LABELS: Record<RepeatOption, string> = {
+  none: 'Does not repeat',
+  daily: 'Every day',
+  weekdays: 'Every weekday',
+  weekly: 'Every week',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Every month',
+  custom: 'Custom (RRULE)',
+};
+
+export const DURATIONS = [15, 30, 45, 60, 90, 120];
+
+function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/** Day of the week of a datetime-local value, without involving the browser's zone */
+function weekdayOf(startsAt: string): number {
+  return new Date(`${startsAt.slice(0, 10)}T00:00:00Z`).getUTCDay();
+}
+
+function ruleFor(repeat: RepeatOption, startsAt: string, customRule = ''): string | null {
+  const day = WEEKDAY_CODES[weekdayOf(startsAt)];
+  switch (repeat) {
+    case 'daily':
+      return 'FREQ=DAILY';
+    case 'weekdays':
+      return 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR';
+    case 'weekly':
+      return `FREQ=WEEKLY;BYDAY=${day}`;
+    case 'biweekly':
+      return `FREQ=WEEKLY;INTERVAL=2;BYDAY=${day}`;
+    case 'monthly':
+      return 'FREQ=MONTHLY';
+    case 'custom':
+      return customRule.trim().replace(/^RRULE:/i, '') || null;
+    default:
+      return null;
+  }
+}
+
+/** An instant as a datetime-local value in the given zone */
+function toLocalInput(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '00';
+  return `${get('year')}-${get('month')}-${get('day')}T${get('hour')}:${get('minute')}`;
+}
+
+export function draftFromRoom(room?: Room | null): ScheduleDraft {
+  const timeZone = room?.time_zone || browserTimeZone();
+  if (!room?.scheduled_start) {
+    // Default to the next full hour
+    const next = new Date();
+    next.setHours(next.getHours() + 1, 0, 0, 0);
+    return { startsAt: toLocalInput(next, timeZone), durationMinutes: 30, timeZone, repeat: 'none', customRule: '' };
+  }
+  const startsAt = toLocalInput(new Date(room.scheduled_start), timeZone);
+  const rule = room.recurrence_rule ?? null;
+  const preset = (Object.keys(REPEAT_LABELS) as RepeatOption[]).find(
+    (option) => option !== 'custom' && ruleFor(option, startsAt) === rule
+  );
+  return {
+    startsAt,
+    durationMinutes: room.duration_minutes ?? 30,
+    timeZone,
+    repeat: preset ?? 'custom',
+    customRule: preset ? '' : (rule ?? ''),
+  };
+}
+
+export function toRoomSchedule(draft: ScheduleDraft): RoomSchedule {
+  return {
+    startsAt: draft.startsAt,
+    durationMinutes: draft.durationMinutes,
+    timeZone: draft.timeZone,
+    recurrenceRule: ruleFor(draft.repeat, draft.startsAt, draft.customRule),
+  };
+}
+
+/** "Every week", "Custom repeat", or null for a one-off meeting */
+export function describeRecurrence(room: Room): string | null {
+  if (!room.recurrence_rule) return null;
+  const { repeat } = draftFromRoom(room);
+  return repeat === 'custom' ? 'Custom repeat' : REPEAT_LABELS[repeat];
+}
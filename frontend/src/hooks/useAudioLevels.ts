@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from 'react';
+
+export type AudioSource = {
+  id: string;
+  stream: MediaStream;
+};
+
+// Sampling every 100ms is plenty for a speaking indicator and keeps re-renders cheap
+const SAMPLE_INTERVAL_MS = 100;
+// RMS level (0..1) above which someone counts as speaking
+const SPEAKING_THRESHOLD = 0.02;
+// Hysteresis: a new speaker must lead for this long before the active speaker changes...
+const SWITCH_AFTER_MS = 600;
+// ...and a speaker still counts as speaking for this long after going quiet
+const RELEASE_AFTER_MS = 800;
+
+type Analysis = {
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  buffer: Float32Array<ArrayBuffer>;
+};
+
+function rms(buffer: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) sum += buffer[i] * buffer[i];
+  return Math.sqrt(sum / buffer.length);
+}
+
+/**
+ * Audio level per source (0..1, rounded to keep state stable) plus the active speaker.
+ * The active speaker is sticky: it survives silence and only changes once someone else has
+ * been the loudest speaker for SWITCH_AFTER_MS, so speaker view doesn't flicker.
+ */
+export function useAudioLevels(sources: AudioSource[]) {
+  const [levels, setLevels] = useState<Record<string, number>>({});
+  const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null);
+  const [speakingIds, setSpeakingIds] = useState<string[]>([]);
+  const contextRef = useRef<AudioContext | null>(null);
+  const analysesRef = useRef<Map<string, Analysis>>(new Map());
+  const lastSpokeRef = useRef<Map<string, number>>(new Map());
+  const candidateRef = useRef<{ id: string; since: number } | null>(null);
+  const activeRef = useRef<string | null>(null);
+
+  // Streams with audio, keyed so the effect only re-runs when the set actually changes
+  const withAudio = sources.filter((s) => s.stream.getAudioTracks().length > 0);
+  const sourceKey = withAudio.map((s) => `${s.id}:${s.stream.id}`).join('|');
+  const sourcesRef = useRef(withAudio);
+  useEffect(() => {
+    sourcesRef.current = withAudio;
+  });
+
+  useEffect(() => {
+    if (typeof AudioContext === 'undefined') return;
+    if (!contextRef.current) contextRef.current = new AudioContext();
+    const ctx = contextRef.current;
+    // Created outside a user gesture the context may start suspended
+    ctx.resume().catch(() => {});
+
+    const analyses = analysesRef.current;
+    const wanted = new Map(sourcesRef.current.map((s) => [s.id, s.stream]));
+
+    analyses.forEach((a, id) => {
+      const stream = wanted.get(id);
+      if (!stream || a.source.mediaStream !== stream) {
+        a.source.disconnect();
+        analyses.delete(id);
+      }
+    });
+    wanted.forEach((stream, id) => {
+      if (analyses.has(id)) return;
+      try {
+        const source = ctx.createMediaStreamSource(stream);
+        const analyser = ctx.createAnalyser();
+        analyser.fftSize = 512;
+        // Analyser only, never routed to the speakers (the <video> elements play the audio)
+        source.connect(analyser);
+        analyses.set(id, { source, analyser, buffer: new Float32Array(analyser.fftSize) });
+      } catch {
+        // Stream without a live audio track; it just never shows as speaking
+      }
+    });
+  }, [sourceKey]);
+
+  useEffect(() => {
+    const analyses = analysesRef.current;
+    const lastSpoke = lastSpokeRef.current;
+
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const next: Record<string, number> = {};
+      let loudest: { id: string; level: number } | null = null;
+
+      for (const [id, a] of analyses) {
+        a.analyser.getFloatTimeDomainData(a.buffer);
+        const level = Math.min(1, rms(a.buffer) * 4);
+        next[id] = Math.round(level * 20) / 20;
+        if (level >= SPEAKING_THRESHOLD) {
+          lastSpoke.set(id, now);
+          if (!loudest || level > loudest.level) loudest = { id, level };
+        }
+      }
+
+      const speaking = [...analyses.keys()].filter((id) => now - (lastSpoke.get(id) ?? 0) < RELEASE_AFTER_MS);
+
+      const leader = loudest?.id ?? null;
+      if (leader && leader !== activeRef.current) {
+        if (candidateRef.current?.id !== leader) candidateRef.current = { id: leader, since: now };
+        // The first speaker takes over immediately; later switches wait out the hysteresis
+        if (!activeRef.current || now - candidateRef.current.since >= SWITCH_AFTER_MS) {
+          activeRef.current = leader;
+          candidateRef.current = null;
+          setActiveSpeakerId(leader);
+        }
+      } else {
+        candidateRef.current = null;
+      }
+
+      setLevels((prev) => {
+        const keys = Object.keys(next);
+        const same = keys.length === Object.keys(prev).length && keys.every((k) => prev[k] === next[k]);
+        return same ? prev : next;
+      });
+      setSpeakingIds((prev) =>
+        prev.length === speaking.length && prev.every((id, i) => id === speaking[i]) ? prev : speaking
+      );
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, []);
+
+  // Tear down the audio graph when the component goes away
+  useEffect(() => {
+    const analyses = analysesRef.current;
+    return () => {
+      analyses.forEach((a) => a.source.disconnect());
+      analyses.clear();
+      contextRef.current?.close().catch(() => {});
+      contextRef.current = null;
+    };
+  }, []);
+
+  // A speaker who has left can't stay on stage
+  const currentActive = activeSpeakerId && sources.some((s) => s.id === activeSpeakerId) ? activeSpeakerId : null;
+
+  return { levels, activeSpeakerId: currentActive, speakingIds };
+}
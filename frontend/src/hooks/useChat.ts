@@ -0,0 +1,80 @@
+import { useEffect, useState, useCallback, useRef } from 'react';
+import type { io } from 'socket.io-client';
+import { getMessagesByRoom } from '../api/client';
+import type { ChatMessage } from '../api/client';
+
+export function useChat(
+  socket: ReturnType<typeof io> | null,
+  roomId: string | null | undefined,
+  token: string | null,
+  currentUserId: string | null | undefined,
+  joined: boolean,
+  isOpen: boolean
+) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [wasOpen, setWasOpen] = useState(isOpen);
+  const isOpenRef = useRef(isOpen);
+  const userIdRef = useRef(currentUserId);
+
+  useEffect(() => {
+    userIdRef.current = currentUserId;
+  }, [currentUserId]);
+
+  // Opening the panel marks everything as read
+  if (isOpen !== wasOpen) {
+    setWasOpen(isOpen);
+    if (isOpen) setUnreadCount(0);
+  }
+
+  useEffect(() => {
+    isOpenRef.current = isOpen;
+  }, [isOpen]);
+
+  // Replay history once admitted so late joiners see the backlog
+  useEffect(() => {
+    if (!roomId || !token || !joined) return;
+    let cancelled = false;
+    getMessagesByRoom(roomId, token)
+      .then((list) => {
+        if (cancelled) return;
+        setMessages((prev) => {
+          // Keep live messages that arrived while history was loading
+          const known = new Set(list.map((m) => m.id));
+          return [...list, ...prev.filter((m) => !known.has(m.id))];
+        });
+      })
+      .catch((e) => console.error('Failed to load chat history:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, token, joined]);
+
+  useEffect(() => {
+    if (!socket) return;
+    const handler = (message: ChatMessage) => {
+      setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+      if (!isOpenRef.current && message.user_id !== userIdRef.current) {
+        setUnreadCount((n) => n + 1);
+      }
+    };
+    socket.on('chat-message', handler);
+    return () => {
+      socket.off('chat-message', handler);
+    };
+  }, [socket]);
+
+  const sendMessage = useCallback(
+    (body: string): Promise<void> =>
+      new Promise((resolve, reject) => {
+        if (!socket) return reject(new Error('Not connected'));
+        socket.emit('send-message', body, (res: { message?: ChatMessage; error?: string }) => {
+          if (res?.error) reject(new Error(res.error));
+          else resolve();
+        });
+      }),
+    [socket]
+  );
+
+  return { messages, unreadCount, sendMessage };
+}
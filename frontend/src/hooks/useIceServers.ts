@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { getIceServers } from '../api/client';
+
+/** Used until the backend answers, or if it cannot be reached */
+export const FALLBACK_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+];
+
+// Refresh this long before TURN credentials expire so ICE restarts never use stale ones
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const MIN_REFRESH_MS = 30 * 1000;
+const RETRY_MS = 30 * 1000;
+
+export function useIceServers(getToken: () => Promise<string | null>, enabled = true) {
+  const [iceServers, setIceServers] = useState<RTCIceServer[]>(FALLBACK_ICE_SERVERS);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const load = async () => {
+      try {
+        const token = await getToken();
+        if (!token) throw new Error('Not authenticated');
+        const config = await getIceServers(token);
+        if (cancelled) return;
+        if (config.iceServers.length) setIceServers(config.iceServers);
+        // STUN-only configs never expire; nothing to refresh
+        if (config.expiresAt) {
+          const refreshIn = new Date(config.expiresAt).getTime() - Date.now() - REFRESH_MARGIN_MS;
+          timer = setTimeout(load, Math.max(refreshIn, MIN_REFRESH_MS));
+        }
+      } catch (e) {
+        if (cancelled) return;
+        console.warn('Could not load ICE servers, retrying:', e);
+        timer = setTimeout(load, RETRY_MS);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [getToken, enabled]);
+
+  return iceServers;
+}
@@ -1,21 +1,26 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 
-export function useMediaRecorder(
-  stream: MediaStream | null,
-  onRecordingComplete?: (blob: Blob, durationMs: number, startedAt: Date, endedAt: Date) => void
-) {
+type RecorderHandlers = {
+  onStart?: (mimeType: string, startedAt: Date) => void;
+  /** Called with each chunk as it is captured (every second); nothing is kept in memory */
+  onChunk?: (chunk: Blob) => void;
+  onStop?: (durationMs: number, startedAt: Date, endedAt: Date) => void;
+};
+
+export function useMediaRecorder(stream: MediaStream | null, handlers: RecorderHandlers = {}) {
   const [isRecording, setIsRecording] = useState(false);
   const recorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
   const startTimeRef = useRef<Date | null>(null);
-  // Always use latest callback via ref so onstop never calls a stale closure
-  const callbackRef = useRef(onRecordingComplete);
+  // Always use the latest handlers via ref so recorder events never call a stale closure
+  const handlersRef = useRef(handlers);
   useEffect(() => {
-    callbackRef.current = onRecordingComplete;
-  }, [onRecordingComplete]);
+    handlersRef.current = handlers;
+  });
 
-  const startRecording = useCallback(() => {
-    if (!stream || isRecording) return;
+  // `source` overrides the hook's stream, e.g. with a composited meeting stream
+  const startRecording = useCallback((source?: MediaStream | null) => {
+    const target = source ?? stream;
+    if (!target || isRecording) return;
 
     const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9,opus')
       ? 'video/webm;codecs=vp9,opus'
@@ -27,7 +32,7 @@ export function useMediaRecorder(
 
     let recorder: MediaRecorder;
     try {
-      recorder = new MediaRecorder(stream, {
+      recorder = new MediaRecorder(target, {
         mimeType,
         videoBitsPerSecond: 2500000,
         audioBitsPerSecond: 128000,
@@ -37,25 +42,19 @@ export function useMediaRecorder(
       return;
     }
 
-    chunksRef.current = [];
     startTimeRef.current = new Date();
+    handlersRef.current.onStart?.(mimeType, startTimeRef.current);
 
     recorder.ondataavailable = (e) => {
-      if (e.data && e.data.size > 0) chunksRef.current.push(e.data);
+      if (e.data && e.data.size > 0) handlersRef.current.onChunk?.(e.data);
     };
 
     recorder.onstop = () => {
       setIsRecording(false);
-      if (chunksRef.current.length === 0) {
-        console.warn('Recording stopped but no data chunks were captured');
-        return;
-      }
-      const blob = new Blob(chunksRef.current, { type: mimeType });
       const endedAt = new Date();
       const startedAt = startTimeRef.current ?? endedAt;
       const durationMs = endedAt.getTime() - startedAt.getTime();
-      // Use ref to get the latest callback, not the one from when startRecording was called
-      callbackRef.current?.(blob, durationMs, startedAt, endedAt);
+      handlersRef.current.onStop?.(durationMs, startedAt, endedAt);
     };
 
     recorder.onerror = (e) => {
@@ -0,0 +1,213 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+export type CompositorSource = {
+  id: string;
+  stream: MediaStream;
+  label: string;
+  /** Draw the initials card instead of the (black) video */
+  isVideoOff?: boolean;
+  /** Shared screens are letterboxed rather than cropped */
+  fit?: 'cover' | 'contain';
+};
+
+type Tile = {
+  stream: MediaStream;
+  video: HTMLVideoElement;
+  audio: MediaStreamAudioSourceNode | null;
+};
+
+type Session = {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  audioContext: AudioContext;
+  destination: MediaStreamAudioDestinationNode;
+  tiles: Map<string, Tile>;
+  timer: ReturnType<typeof setInterval>;
+  output: MediaStream;
+};
+
+type Rect = { x: number; y: number; w: number; h: number };
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+const FPS = 30;
+const GAP = 8;
+const STRIP_HEIGHT = 150;
+
+function getInitials(name: string): string {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length >= 2) return (parts[0][0] + parts[1][0]).toUpperCase();
+  return name.slice(0, 2).toUpperCase() || '?';
+}
+
+/** Same column rule as VideoGrid so the recording looks like the call */
+function gridRects(count: number): Rect[] {
+  const cols = count <= 1 ? 1 : count <= 4 ? 2 : Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / cols);
+  const w = (WIDTH - GAP * (cols + 1)) / cols;
+  const h = (HEIGHT - GAP * (rows + 1)) / rows;
+  return Array.from({ length: count }, (_, i) => ({
+    x: GAP + (i % cols) * (w + GAP),
+    y: GAP + Math.floor(i / cols) * (h + GAP),
+    w,
+    h,
+  }));
+}
+
+/** Featured source large on top, everyone else in a strip below (presenter layout) */
+function stageRects(count: number): Rect[] {
+  const stage = { x: GAP, y: GAP, w: WIDTH - GAP * 2, h: HEIGHT - STRIP_HEIGHT - GAP * 3 };
+  const others = count - 1;
+  const tileW = Math.min((STRIP_HEIGHT * 16) / 9, (WIDTH - GAP * (others + 1)) / Math.max(others, 1));
+  const strip = Array.from({ length: others }, (_, i) => ({
+    x: GAP + i * (tileW + GAP),
+    y: HEIGHT - STRIP_HEIGHT - GAP,
+    w: tileW,
+    h: STRIP_HEIGHT,
+  }));
+  return [stage, ...strip];
+}
+
+function drawTile(ctx: CanvasRenderingContext2D, source: CompositorSource, video: HTMLVideoElement | undefined, r: Rect) {
+  ctx.save();
+  ctx.beginPath();
+  ctx.roundRect(r.x, r.y, r.w, r.h, 12);
+  ctx.clip();
+  ctx.fillStyle = '#1f2937';
+  ctx.fillRect(r.x, r.y, r.w, r.h);
+
+  const hasFrame = !!video && video.readyState >= 2 && video.videoWidth > 0;
+  if (hasFrame && !source.isVideoOff) {
+    const scale =
+      source.fit === 'contain'
+        ? Math.min(r.w / video.videoWidth, r.h / video.videoHeight)
+        : Math.max(r.w / video.videoWidth, r.h / video.videoHeight);
+    const w = video.videoWidth * scale;
+    const h = video.videoHeight * scale;
+    ctx.drawImage(video, r.x + (r.w - w) / 2, r.y + (r.h - h) / 2, w, h);
+  } else {
+    const radius = Math.min(r.w, r.h) * 0.18;
+    ctx.fillStyle = '#6366f1';
+    ctx.beginPath();
+    ctx.arc(r.x + r.w / 2, r.y + r.h / 2, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `600 ${Math.round(radius * 0.8)}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(getInitials(source.label), r.x + r.w / 2, r.y + r.h / 2);
+  }
+
+  // Name bar
+  const barHeight = Math.max(22, Math.min(34, r.h * 0.12));
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(r.x, r.y + r.h - barHeight, r.w, barHeight);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `500 ${Math.round(barHeight * 0.5)}px sans-serif`;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(source.label, r.x + 10, r.y + r.h - barHeight / 2, r.w - 20);
+  ctx.restore();
+}
+
+/** Add/remove hidden <video> elements and audio inputs so they match the current sources */
+function syncTiles(session: Session, sources: CompositorSource[]) {
+  const wanted = new Map(sources.map((s) => [s.id, s.stream]));
+  session.tiles.forEach((tile, id) => {
+    if (wanted.get(id) === tile.stream) return;
+    tile.video.srcObject = null;
+    tile.audio?.disconnect();
+    session.tiles.delete(id);
+  });
+  wanted.forEach((stream, id) => {
+    if (session.tiles.has(id)) return;
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    video.play().catch(() => {});
+    let audio: MediaStreamAudioSourceNode | null = null;
+    if (stream.getAudioTracks().length > 0) {
+      audio = session.audioContext.createMediaStreamSource(stream);
+      audio.connect(session.destination);
+    }
+    session.tiles.set(id, { stream, video, audio });
+  });
+}
+
+/**
+ * Renders every participant onto one canvas and mixes all their audio, producing a single
+ * stream for MediaRecorder. Layout follows sources as people join and leave; `featuredId`
+ * (a presenter) gets the large stage. Drawing uses a timer rather than requestAnimationFrame
+ * so the recording keeps going while the tab is in the background (at a reduced rate).
+ */
+export function useMeetingCompositor(sources: CompositorSource[], featuredId?: string | null) {
+  const sessionRef = useRef<Session | null>(null);
+  const sourcesRef = useRef(sources);
+  const featuredRef = useRef(featuredId);
+
+  useEffect(() => {
+    sourcesRef.current = sources;
+    featuredRef.current = featuredId;
+    if (sessionRef.current) syncTiles(sessionRef.current, sources);
+  }, [sources, featuredId]);
+
+  const stop = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    sessionRef.current = null;
+    clearInterval(session.timer);
+    session.output.getTracks().forEach((t) => t.stop());
+    session.tiles.forEach((tile) => {
+      tile.video.srcObject = null;
+      tile.audio?.disconnect();
+    });
+    session.audioContext.close().catch(() => {});
+  }, []);
+
+  const start = useCallback((): MediaStream | null => {
+    if (sessionRef.current) return sessionRef.current.output;
+    const canvas = document.createElement('canvas');
+    canvas.width = WIDTH;
+    canvas.height = HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx || typeof canvas.captureStream !== 'function') return null;
+
+    const audioContext = new AudioContext();
+    audioContext.resume().catch(() => {});
+    const destination = audioContext.createMediaStreamDestination();
+
+    const draw = () => {
+      const session = sessionRef.current;
+      if (!session) return;
+      const all = sourcesRef.current;
+      const featured = all.find((s) => s.id === featuredRef.current);
+      const ordered = featured ? [featured, ...all.filter((s) => s !== featured)] : all;
+      const rects = featured && ordered.length > 1 ? stageRects(ordered.length) : gridRects(ordered.length);
+      ctx.fillStyle = '#0b0b0f';
+      ctx.fillRect(0, 0, WIDTH, HEIGHT);
+      ordered.forEach((source, i) => drawTile(ctx, source, session.tiles.get(source.id)?.video, rects[i]));
+    };
+
+    const output = new MediaStream([
+      ...canvas.captureStream(FPS).getVideoTracks(),
+      ...destination.stream.getAudioTracks(),
+    ]);
+    sessionRef.current = {
+      canvas,
+      ctx,
+      audioContext,
+      destination,
+      tiles: new Map(),
+      timer: setInterval(draw, 1000 / FPS),
+      output,
+    };
+    syncTiles(sessionRef.current, sourcesRef.current);
+    draw();
+    return output;
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  return { start, stop };
+}
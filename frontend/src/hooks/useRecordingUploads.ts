@@ -0,0 +1,366 @@
+import { useCallback, useEffect, useRef } from 'react';
+import {
+  createRecordingUpload,
+  uploadRecordingChunk,
+  completeRecordingUpload,
+  cancelRecordingUpload,
+  QuotaExceededError,
+} from '../api/client';
+import type { Recording, RecordingMode } from '../api/client';
+
+/** A recording being uploaded, persisted so it survives a reload or a closed tab */
+type UploadMeta = {
+  localId: string;
+  roomId: string;
+  mode: RecordingMode;
+  mimeType: string;
+  startedAt: string;
+  /** Server session; created lazily so recording can start while offline */
+  uploadId: string | null;
+  /** Chunks captured so far, i.e. the index the next chunk gets */
+  chunkCount: number;
+  lastChunkAt: string;
+  /** Set once the recorder has stopped */
+  endedAt: string | null;
+  durationSeconds: number | null;
+};
+
+type StoredChunk = { localId: string; index: number; blob: Blob };
+
+type UploadHandlers = {
+  onComplete?: (recording: Recording) => void;
+  onFailed?: (message: string) => void;
+  /** Storage quota ran out; whatever reached the server has been saved as the recording */
+  onQuotaExceeded?: (message: string, localId: string) => void;
+};
+
+const DB_NAME = 'meet-recordings';
+const UPLOADS = 'uploads';
+const CHUNKS = 'chunks';
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 30000;
+// An unfinished upload that hasn't had a chunk for this long belongs to a closed tab
+const ABANDONED_AFTER_MS = 15000;
+// The recorder emits one chunk per second
+const CHUNK_SECONDS = 1;
+
+/** The server no longer has the upload session, so the remaining chunks can't be used */
+class UploadGoneError extends Error {}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(UPLOADS, { keyPath: 'localId' });
+        req.result.createObjectStore(CHUNKS, { keyPath: ['localId', 'index'] });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function run<T>(store: string, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const req = op(db.transaction(store, mode).objectStore(store));
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      })
+  );
+}
+
+const chunkRange = (localId: string, below = Infinity) => IDBKeyRange.bound([localId, 0], [localId, below], false, true);
+
+const getMeta = (localId: string) => run<UploadMeta | undefined>(UPLOADS, 'readonly', (s) => s.get(localId));
+const listMeta = () => run<UploadMeta[]>(UPLOADS, 'readonly', (s) => s.getAll());
+const putMeta = (meta: UploadMeta) => run(UPLOADS, 'readwrite', (s) => s.put(meta));
+const putChunk = (chunk: StoredChunk) => run(CHUNKS, 'readwrite', (s) => s.put(chunk));
+const getChunk = (localId: string, index: number) =>
+  run<StoredChunk | undefined>(CHUNKS, 'readonly', (s) => s.get([localId, index]));
+const listChunkIndexes = (localId: string) =>
+  run(CHUNKS, 'readonly', (s) => s.getAllKeys(chunkRange(localId))).then((keys) =>
+    keys.map((k) => (k as [string, number])[1])
+  );
+const deleteChunksBelow = (localId: string, index: number) =>
+  run(CHUNKS, 'readwrite', (s) => s.delete(chunkRange(localId, index)));
+
+async function deleteUpload(localId: string) {
+  await deleteChunksBelow(localId, Infinity);
+  await run(UPLOADS, 'readwrite', (s) => s.delete(localId));
+}
+
+/**
+ * Streams recordings to the server while they are being captured. Every chunk is written to
+ * IndexedDB first and removed once the server has it, so a dropped connection, a reload or
+ * a closed tab only delays the upload: pending uploads are resumed on mount and a recording
+ * whose tab went away is finalized with the chunks that made it to disk.
+ */
+export function useRecordingUploads(getToken: () => Promise<string | null>, handlers: UploadHandlers = {}) {
+  const getTokenRef = useRef(getToken);
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    getTokenRef.current = getToken;
+    handlersRef.current = handlers;
+  });
+
+  // Recordings captured by this tab; the in-memory copy is the source of truth for their meta
+  const activeRef = useRef<Map<string, UploadMeta>>(new Map());
+  // Per-upload chain so IndexedDB writes land in the order they were made
+  const writesRef = useRef<Map<string, Promise<unknown>>>(new Map());
+  const runningRef = useRef<Set<string>>(new Set());
+  const againRef = useRef<Set<string>>(new Set());
+  const retriesRef = useRef<Map<string, { attempt: number; timer: ReturnType<typeof setTimeout> | null }>>(new Map());
+  const unmountedRef = useRef(false);
+
+  const enqueueWrite = useCallback((localId: string, write: () => Promise<unknown>) => {
+    const next = (writesRef.current.get(localId) ?? Promise.resolve()).then(write);
+    const settled = next.catch((err) => console.error('Failed to store recording data:', err));
+    writesRef.current.set(localId, settled);
+    return settled;
+  }, []);
+
+  const updateMeta = useCallback(
+    async (localId: string, patch: Partial<UploadMeta>) => {
+      const active = activeRef.current.get(localId);
+      if (active) {
+        Object.assign(active, patch);
+        await enqueueWrite(localId, () => putMeta({ ...active }));
+        return;
+      }
+      const stored = await getMeta(localId);
+      if (stored) await putMeta({ ...stored, ...patch });
+    },
+    [enqueueWrite]
+  );
+
+  const discard = useCallback(async (localId: string) => {
+    activeRef.current.delete(localId);
+    writesRef.current.delete(localId);
+    const retry = retriesRef.current.get(localId);
+    if (retry?.timer) clearTimeout(retry.timer);
+    retriesRef.current.delete(localId);
+    await deleteUpload(localId);
+  }, []);
+
+  /** Finalize an upload with the first `chunkCount` chunks the server already has, dropping the rest */
+  const keepUploadedPart = useCallback(
+    async (localId: string, chunkCount: number) => {
+      const meta = activeRef.current.get(localId) ?? (await getMeta(localId));
+      await discard(localId);
+      const token = await getTokenRef.current();
+      if (!meta?.uploadId || !token) return;
+      if (chunkCount === 0) {
+        await cancelRecordingUpload(meta.uploadId, token);
+        return;
+      }
+      const startedAt = new Date(meta.startedAt);
+      const recording = await completeRecordingUpload(
+        meta.uploadId,
+        chunkCount * CHUNK_SECONDS,
+        startedAt,
+        new Date(startedAt.getTime() + chunkCount * CHUNK_SECONDS * 1000),
+        token
+      );
+      if (recording) handlersRef.current.onComplete?.(recording);
+    },
+    [discard]
+  );
+
+  const pump = useCallback(
+    async (localId: string): Promise<void> => {
+      if (runningRef.current.has(localId)) {
+        againRef.current.add(localId);
+        return;
+      }
+      runningRef.current.add(localId);
+      const retry = retriesRef.current.get(localId);
+      if (retry?.timer) {
+        clearTimeout(retry.timer);
+        retry.timer = null;
+      }
+
+      const requireToken = async () => {
+        const token = await getTokenRef.current();
+        if (!token) throw new Error('Not signed in');
+        return token;
+      };
+
+      try {
+        await writesRef.current.get(localId);
+        const meta = activeRef.current.get(localId) ?? (await getMeta(localId));
+        if (!meta) return;
+
+        // Stopped before anything was captured
+        if (meta.endedAt && meta.chunkCount === 0) {
+          if (meta.uploadId) await cancelRecordingUpload(meta.uploadId, await requireToken()).catch(() => {});
+          await discard(localId);
+          handlersRef.current.onFailed?.('Recording too short or no data captured. Try recording a bit longer.');
+          return;
+        }
+
+        let uploadId = meta.uploadId;
+        if (!uploadId) {
+          const upload = await createRecordingUpload(meta.roomId, meta.mode, meta.mimeType, await requireToken());
+          uploadId = upload.id;
+          await updateMeta(localId, { uploadId });
+        }
+
+        for (const index of await listChunkIndexes(localId)) {
+          const chunk = await getChunk(localId, index);
+          if (!chunk) continue;
+          const next = await uploadRecordingChunk(uploadId, index, chunk.blob, await requireToken());
+          // The server wants a chunk we already dropped, or has lost the session entirely
+          if (next === null || next < index) throw new UploadGoneError();
+          await deleteChunksBelow(localId, next);
+          retriesRef.current.delete(localId);
+        }
+
+        const latest = activeRef.current.get(localId) ?? (await getMeta(localId));
+        const remaining = await listChunkIndexes(localId);
+        if (!latest?.endedAt || latest.durationSeconds == null || remaining.length > 0) return;
+
+        const recording = await completeRecordingUpload(
+          uploadId,
+          latest.durationSeconds,
+          new Date(latest.startedAt),
+          new Date(latest.endedAt),
+          await requireToken()
+        );
+        await discard(localId);
+        // null: another tab resuming the same upload finished it first
+        if (recording) handlersRef.current.onComplete?.(recording);
+      } catch (err) {
+        if (err instanceof QuotaExceededError) {
+          await keepUploadedPart(localId, err.nextChunk).catch((e) => {
+            console.error('Failed to save the uploaded part of the recording:', e);
+          });
+          handlersRef.current.onQuotaExceeded?.(err.message, localId);
+          return;
+        }
+        if (err instanceof UploadGoneError) {
+          await discard(localId);
+          handlersRef.current.onFailed?.('The server no longer has this recording upload.');
+          return;
+        }
+        if (unmountedRef.current) return;
+        const state = retriesRef.current.get(localId) ?? { attempt: 0, timer: null };
+        const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** state.attempt);
+        console.warn('Recording upload interrupted, retrying in', delay, 'ms:', err);
+        state.attempt += 1;
+        state.timer = setTimeout(() => pump(localId), delay);
+        retriesRef.current.set(localId, state);
+      } finally {
+        runningRef.current.delete(localId);
+        if (againRef.current.delete(localId)) pump(localId);
+      }
+    },
+    [discard, updateMeta, keepUploadedPart]
+  );
+
+  /** Start a new upload; returns the id to pass to append() and finish() */
+  const begin = useCallback(
+    (options: { roomId: string; mode: RecordingMode; mimeType: string; startedAt: Date }) => {
+      const localId = crypto.randomUUID();
+      const meta: UploadMeta = {
+        localId,
+        roomId: options.roomId,
+        mode: options.mode,
+        mimeType: options.mimeType,
+        startedAt: options.startedAt.toISOString(),
+        uploadId: null,
+        chunkCount: 0,
+        lastChunkAt: options.startedAt.toISOString(),
+        endedAt: null,
+        durationSeconds: null,
+      };
+      activeRef.current.set(localId, meta);
+      enqueueWrite(localId, () => putMeta({ ...meta }));
+      pump(localId);
+      return localId;
+    },
+    [enqueueWrite, pump]
+  );
+
+  const append = useCallback(
+    (localId: string, blob: Blob) => {
+      const meta = activeRef.current.get(localId);
+      if (!meta) return;
+      const index = meta.chunkCount;
+      meta.chunkCount += 1;
+      meta.lastChunkAt = new Date().toISOString();
+      const snapshot = { ...meta };
+      enqueueWrite(localId, async () => {
+        await putChunk({ localId, index, blob });
+        await putMeta(snapshot);
+      });
+      pump(localId);
+    },
+    [enqueueWrite, pump]
+  );
+
+  const finish = useCallback(
+    (localId: string, durationMs: number, endedAt: Date) => {
+      if (!activeRef.current.has(localId)) return;
+      updateMeta(localId, {
+        endedAt: endedAt.toISOString(),
+        durationSeconds: Math.max(1, Math.round(durationMs / 1000)),
+      }).then(() => {
+        // Nothing else will be captured; from here on IndexedDB is the source of truth
+        activeRef.current.delete(localId);
+        pump(localId);
+      });
+    },
+    [updateMeta, pump]
+  );
+
+  // Resume uploads left over from earlier page loads, and retry everything when back online
+  useEffect(() => {
+    if (typeof indexedDB === 'undefined') return;
+    const resumeAll = () => {
+      activeRef.current.forEach((_, localId) => pump(localId));
+      listMeta()
+        .then(async (metas) => {
+          for (const meta of metas) {
+            if (activeRef.current.has(meta.localId)) continue;
+            if (!meta.endedAt) {
+              // Still being recorded by another tab
+              if (Date.now() - new Date(meta.lastChunkAt).getTime() < ABANDONED_AFTER_MS) continue;
+              const durationMs = new Date(meta.lastChunkAt).getTime() - new Date(meta.startedAt).getTime();
+              await putMeta({
+                ...meta,
+                endedAt: meta.lastChunkAt,
+                durationSeconds: Math.max(1, Math.round(durationMs / 1000)),
+              });
+            }
+            pump(meta.localId);
+          }
+        })
+        .catch((err) => console.error('Failed to resume recording uploads:', err));
+    };
+    resumeAll();
+    window.addEventListener('online', resumeAll);
+    return () => window.removeEventListener('online', resumeAll);
+  }, [pump]);
+
+  // Pending retries are picked up again on the next mount
+  useEffect(() => {
+    unmountedRef.current = false;
+    const retries = retriesRef.current;
+    return () => {
+      unmountedRef.current = true;
+      retries.forEach((r) => r.timer && clearTimeout(r.timer));
+      retries.clear();
+    };
+  }, []);
+
+  return { begin, append, finish };
+}
@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { io } from 'socket.io-client';
+import type { Recording, Room, RoomRole } from '../api/client';
 
 const WS_URL = import.meta.env.VITE_WS_URL || 'http://localhost:5000';
 
@@ -7,6 +8,29 @@ export type Participant = {
   socketId: string;
   userId: string;
   displayName?: string | null;
+  isSharingScreen?: boolean;
+  isMuted?: boolean;
+  isVideoOff?: boolean;
+  /** Recording the call locally; everyone in the room is told when this changes */
+  isRecording?: boolean;
+  role?: RoomRole;
+};
+
+export type MediaState = {
+  isMuted: boolean;
+  isVideoOff: boolean;
+};
+
+export type RaisedHand = {
+  socketId: string;
+  userId: string;
+  displayName?: string | null;
+  raisedAt: string;
+};
+
+export type UnmuteRequest = {
+  from: string;
+  displayName?: string | null;
 };
 
 export type PendingRequest = {
@@ -15,13 +39,56 @@ export type PendingRequest = {
   displayName?: string | null;
 };
 
+/** Someone asking a moderator for permission to record */
+export type RecordingRequest = {
+  socketId: string;
+  userId: string;
+  displayName?: string | null;
+};
+
+export type RecordingMarkerNotice = {
+  userId: string;
+  displayName?: string | null;
+  label: string;
+};
+
+export type LobbyInfo = {
+  hostPresent: boolean;
+  /** 0 means the request never times out */
+  timeoutSeconds: number;
+};
+
+export type HostTransfer = {
+  from: string;
+  to: string;
+  displayName?: string | null;
+};
+
 export function useSignaling(token: string | null) {
   const [socket, setSocket] = useState<ReturnType<typeof io> | null>(null);
   const [connected, setConnected] = useState(false);
   const [participants, setParticipants] = useState<Participant[]>([]);
   const [pendingRequests, setPendingRequests] = useState<PendingRequest[]>([]);
-  const [status, setStatus] = useState<'idle' | 'waiting' | 'joined' | 'rejected' | 'kicked' | 'room-deleted'>('idle');
+  const [recordingRequests, setRecordingRequests] = useState<RecordingRequest[]>([]);
+  const [status, setStatus] = useState<
+    | 'idle'
+    | 'waiting'
+    | 'joined'
+    | 'rejected'
+    | 'kicked'
+    | 'room-deleted'
+    | 'lobby-timeout'
+    | 'passcode-required'
+    | 'locked'
+  >('idle');
+  const [lobbyInfo, setLobbyInfo] = useState<LobbyInfo | null>(null);
+  /** Set when the last passcode we sent was wrong */
+  const [passcodeInvalid, setPasscodeInvalid] = useState(false);
+  const [role, setRole] = useState<RoomRole | null>(null);
+  /** Raised hands in speaking order (server-owned) */
+  const [handQueue, setHandQueue] = useState<RaisedHand[]>([]);
   const roomIdRef = useRef<string | null>(null);
+  const userIdRef = useRef<string | null>(null);
 
   useEffect(() => {
     if (!token) return;
@@ -45,9 +112,37 @@ export function useSignaling(token: string | null) {
       setParticipants((prev) => prev.filter((x) => x.socketId !== p.socketId));
     });
 
-    s.on('room-joined', (data: { roomId: string; isOwner?: boolean }) => {
+    s.on('screen-share-started', (p: { socketId: string }) => {
+      setParticipants((prev) => prev.map((x) => (x.socketId === p.socketId ? { ...x, isSharingScreen: true } : x)));
+    });
+
+    s.on('screen-share-stopped', (p: { socketId: string }) => {
+      setParticipants((prev) => prev.map((x) => (x.socketId === p.socketId ? { ...x, isSharingScreen: false } : x)));
+    });
+
+    s.on('recording-started', (p: { socketId: string }) => {
+      setParticipants((prev) => prev.map((x) => (x.socketId === p.socketId ? { ...x, isRecording: true } : x)));
+    });
+
+    s.on('recording-stopped', (p: { socketId: string }) => {
+      setParticipants((prev) => prev.map((x) => (x.socketId === p.socketId ? { ...x, isRecording: false } : x)));
+    });
+
+    s.on('media-state-changed', (p: { socketId: string } & MediaState & { isSharingScreen?: boolean }) => {
+      setParticipants((prev) =>
+        prev.map((x) =>
+          x.socketId === p.socketId
+            ? { ...x, isMuted: p.isMuted, isVideoOff: p.isVideoOff, isSharingScreen: p.isSharingScreen ?? x.isSharingScreen }
+            : x
+        )
+      );
+    });
+
+    s.on('room-joined', (data: { roomId: string; isOwner?: boolean; role?: RoomRole; userId?: string }) => {
       setStatus('joined');
       roomIdRef.current = data?.roomId;
+      userIdRef.current = data?.userId ?? null;
+      setRole(data?.role ?? (data?.isOwner ? 'owner' : 'member'));
       if (data?.roomId) {
         s.emit('get-participants', data.roomId, (list: Participant[]) => {
           setParticipants(list ?? []);
@@ -55,10 +150,35 @@ export function useSignaling(token: string | null) {
         s.emit('get-pending-requests', (list: PendingRequest[]) => {
           setPendingRequests(list ?? []);
         });
+        s.emit('get-recording-requests', (list: RecordingRequest[]) => {
+          setRecordingRequests(list ?? []);
+        });
+        s.emit('get-hand-queue', (list: RaisedHand[]) => {
+          setHandQueue(list ?? []);
+        });
       }
     });
 
-    s.on('waiting-for-host', () => setStatus('waiting'));
+    s.on('hand-queue', (list: RaisedHand[]) => {
+      setHandQueue(list ?? []);
+    });
+
+    s.on('role-changed', (data: { userId: string; role: RoomRole }) => {
+      setParticipants((prev) => prev.map((x) => (x.userId === data.userId ? { ...x, role: data.role } : x)));
+      // The server pushes pending-requests itself when we become a moderator
+      if (data.userId === userIdRef.current) setRole(data.role);
+    });
+
+    s.on('waiting-for-host', (info?: LobbyInfo) => {
+      setLobbyInfo(info ?? null);
+      setStatus('waiting');
+    });
+    s.on('lobby-timeout', () => setStatus('lobby-timeout'));
+    s.on('passcode-required', (data?: { invalid?: boolean }) => {
+      setPasscodeInvalid(!!data?.invalid);
+      setStatus('passcode-required');
+    });
+    s.on('room-locked', () => setStatus('locked'));
     s.on('join-rejected', () => setStatus('rejected'));
     s.on('you-were-kicked', () => setStatus('kicked'));
     s.on('join-error', () => setStatus('rejected'));
@@ -74,6 +194,27 @@ export function useSignaling(token: string | null) {
       setPendingRequests(list ?? []);
     });
 
+    // Another moderator admitted/declined them, they gave up, or the lobby timed out
+    s.on('pending-request-cancelled', (p: { socketId: string }) => {
+      setPendingRequests((prev) => prev.filter((x) => x.socketId !== p.socketId));
+    });
+
+    s.on('recording-request', (r: RecordingRequest) => {
+      setRecordingRequests((prev) => {
+        if (prev.some((x) => x.socketId === r.socketId)) return prev;
+        return [...prev, r];
+      });
+    });
+
+    s.on('recording-requests', (list: RecordingRequest[]) => {
+      setRecordingRequests(list ?? []);
+    });
+
+    // Another moderator answered, or the requester left
+    s.on('recording-request-resolved', (r: { socketId: string }) => {
+      setRecordingRequests((prev) => prev.filter((x) => x.socketId !== r.socketId));
+    });
+
     s.on('room-deleted', () => {
       setStatus('room-deleted');
     });
@@ -89,16 +230,19 @@ export function useSignaling(token: string | null) {
       setConnected(false);
       setParticipants([]);
       setPendingRequests([]);
+      setRecordingRequests([]);
       setStatus('idle');
+      setRole(null);
+      setHandQueue([]);
     };
   }, [token]);
 
   const joinRoom = useCallback(
-    (roomId: string, displayName?: string) => {
+    (roomId: string, displayName?: string, passcode?: string) => {
       if (!socket) return;
       roomIdRef.current = roomId;
       setStatus('idle');
-      socket.emit('join-room', roomId, displayName);
+      socket.emit('join-room', roomId, displayName, passcode !== undefined ? { passcode } : {});
     },
     [socket]
   );
@@ -107,6 +251,8 @@ export function useSignaling(token: string | null) {
     roomIdRef.current = null;
     setParticipants([]);
     setPendingRequests([]);
+    setRecordingRequests([]);
+    setHandQueue([]);
     setStatus('idle');
   }, []);
 
@@ -126,6 +272,125 @@ export function useSignaling(token: string | null) {
     [socket]
   );
 
+  const transferHost = useCallback(
+    (socketId: string): Promise<void> =>
+      new Promise((resolve, reject) => {
+        if (!socket) return reject(new Error('Not connected'));
+        socket.emit('transfer-host', socketId, (res: { ok?: boolean; error?: string }) => {
+          if (res?.error) reject(new Error(res.error));
+          else resolve();
+        });
+      }),
+    [socket]
+  );
+
+  /**
+   * Tell the room we're about to record. Resolves to 'pending' when the room requires a
+   * moderator's approval first; onRecordingApproved fires once they give it.
+   */
+  const announceRecordingStart = useCallback(
+    (): Promise<'started' | 'pending'> =>
+      new Promise((resolve, reject) => {
+        if (!socket) return reject(new Error('Not connected'));
+        socket.emit('start-recording', (res: { ok?: boolean; pending?: boolean; error?: string }) => {
+          if (res?.error) reject(new Error(res.error));
+          else resolve(res?.pending ? 'pending' : 'started');
+        });
+      }),
+    [socket]
+  );
+
+  const announceRecordingStop = useCallback(() => {
+    socket?.emit('stop-recording');
+  }, [socket]);
+
+  const respondToRecordingRequest = useCallback(
+    (socketId: string, approve: boolean) => {
+      socket?.emit('respond-to-recording-request', socketId, approve);
+      setRecordingRequests((prev) => prev.filter((r) => r.socketId !== socketId));
+    },
+    [socket]
+  );
+
+  const onRecordingApproved = useCallback(
+    (handler: (data: { by?: string | null }) => void) => {
+      if (!socket) return () => {};
+      socket.on('recording-approved', handler);
+      return () => {
+        socket.off('recording-approved', handler);
+      };
+    },
+    [socket]
+  );
+
+  const onRecordingDenied = useCallback(
+    (handler: (data: { by?: string | null }) => void) => {
+      if (!socket) return () => {};
+      socket.on('recording-denied', handler);
+      return () => {
+        socket.off('recording-denied', handler);
+      };
+    },
+    [socket]
+  );
+
+  /** Bookmark the current moment in every recording running in the room */
+  const addMarker = useCallback(
+    (label: string): Promise<void> =>
+      new Promise((resolve, reject) => {
+        if (!socket) return reject(new Error('Not connected'));
+        socket.emit('add-marker', label, (res: { ok?: boolean; error?: string }) => {
+          if (res?.error) reject(new Error(res.error));
+          else resolve();
+        });
+      }),
+    [socket]
+  );
+
+  const onMarkerAdded = useCallback(
+    (handler: (marker: RecordingMarkerNotice) => void) => {
+      if (!socket) return () => {};
+      socket.on('marker-added', handler);
+      return () => {
+        socket.off('marker-added', handler);
+      };
+    },
+    [socket]
+  );
+
+  const onRoomUpdated = useCallback(
+    (handler: (room: Room) => void) => {
+      if (!socket) return () => {};
+      socket.on('room-updated', handler);
+      return () => {
+        socket.off('room-updated', handler);
+      };
+    },
+    [socket]
+  );
+
+  const onHostTransferred = useCallback(
+    (handler: (transfer: HostTransfer) => void) => {
+      if (!socket) return () => {};
+      socket.on('host-transferred', handler);
+      return () => {
+        socket.off('host-transferred', handler);
+      };
+    },
+    [socket]
+  );
+
+  const onHostPromoted = useCallback(
+    (handler: () => void) => {
+      if (!socket) return () => {};
+      socket.on('host-promoted', handler);
+      return () => {
+        socket.off('host-promoted', handler);
+      };
+    },
+    [socket]
+  );
+
   const kickUser = useCallback(
     (socketId: string) => {
       socket?.emit('kick-user', socketId);
@@ -133,6 +398,80 @@ export function useSignaling(token: string | null) {
     [socket]
   );
 
+  const sendMediaState = useCallback(
+    (state: MediaState) => {
+      socket?.emit('media-state', state);
+    },
+    [socket]
+  );
+
+  const muteParticipant = useCallback(
+    (socketId: string) => {
+      socket?.emit('mute-participant', socketId);
+    },
+    [socket]
+  );
+
+  const muteAll = useCallback(() => {
+    socket?.emit('mute-all');
+  }, [socket]);
+
+  const askToUnmute = useCallback(
+    (socketId: string) => {
+      socket?.emit('ask-to-unmute', socketId);
+    },
+    [socket]
+  );
+
+  const onForceMuted = useCallback(
+    (handler: (data: { by?: string | null }) => void) => {
+      if (!socket) return () => {};
+      socket.on('force-muted', handler);
+      return () => {
+        socket.off('force-muted', handler);
+      };
+    },
+    [socket]
+  );
+
+  const onUnmuteRequested = useCallback(
+    (handler: (request: UnmuteRequest) => void) => {
+      if (!socket) return () => {};
+      socket.on('unmute-requested', handler);
+      return () => {
+        socket.off('unmute-requested', handler);
+      };
+    },
+    [socket]
+  );
+
+  const raiseHand = useCallback(() => {
+    socket?.emit('raise-hand');
+  }, [socket]);
+
+  /** Lower our own hand, or (moderators) someone else's */
+  const lowerHand = useCallback(
+    (socketId?: string) => {
+      socket?.emit('lower-hand', socketId);
+    },
+    [socket]
+  );
+
+  const callOnNext = useCallback(() => {
+    socket?.emit('call-on-next');
+  }, [socket]);
+
+  const onCalledOn = useCallback(
+    (handler: (data: { by?: string | null }) => void) => {
+      if (!socket) return () => {};
+      socket.on('called-on', handler);
+      return () => {
+        socket.off('called-on', handler);
+      };
+    },
+    [socket]
+  );
+
   const refreshPending = useCallback(() => {
     if (socket && roomIdRef.current) {
       socket.emit('get-pending-requests', (list: PendingRequest[]) => {
@@ -162,23 +501,46 @@ export function useSignaling(token: string | null) {
     [socket]
   );
 
+  const sendScreenShareState = useCallback(
+    (sharing: boolean) => {
+      socket?.emit('screen-share', sharing);
+    },
+    [socket]
+  );
+
+  // Each on* helper returns an unsubscribe function so effects can clean up their listeners
   const onOffer = useCallback(
     (handler: (from: string, sdp: RTCSessionDescriptionInit) => void) => {
-      socket?.on('offer', ({ from, sdp }: { from: string; sdp: RTCSessionDescriptionInit }) => handler(from, sdp));
+      if (!socket) return () => {};
+      const listener = ({ from, sdp }: { from: string; sdp: RTCSessionDescriptionInit }) => handler(from, sdp);
+      socket.on('offer', listener);
+      return () => {
+        socket.off('offer', listener);
+      };
     },
     [socket]
   );
 
   const onAnswer = useCallback(
     (handler: (from: string, sdp: RTCSessionDescriptionInit) => void) => {
-      socket?.on('answer', ({ from, sdp }: { from: string; sdp: RTCSessionDescriptionInit }) => handler(from, sdp));
+      if (!socket) return () => {};
+      const listener = ({ from, sdp }: { from: string; sdp: RTCSessionDescriptionInit }) => handler(from, sdp);
+      socket.on('answer', listener);
+      return () => {
+        socket.off('answer', listener);
+      };
     },
     [socket]
   );
 
   const onIceCandidate = useCallback(
     (handler: (from: string, candidate: RTCIceCandidateInit) => void) => {
-      socket?.on('ice-candidate', ({ from, candidate }: { from: string; candidate: RTCIceCandidateInit }) => handler(from, candidate));
+      if (!socket) return () => {};
+      const listener = ({ from, candidate }: { from: string; candidate: RTCIceCandidateInit }) => handler(from, candidate);
+      socket.on('ice-candidate', listener);
+      return () => {
+        socket.off('ice-candidate', listener);
+      };
     },
     [socket]
   );
@@ -192,25 +554,79 @@ export function useSignaling(token: string | null) {
     [socket]
   );
 
+  /** A recording in this room changed: processing progress (status, MP4, thumbnail) or its title */
+  const onRecordingUpdated = useCallback(
+    (handler: (recording: Recording) => void) => {
+      if (!socket) return () => {};
+      socket.on('recording-updated', handler);
+      return () => {
+        socket.off('recording-updated', handler);
+      };
+    },
+    [socket]
+  );
+
+  /** A recording in this room was deleted, by hand or by the retention policy */
+  const onRecordingDeleted = useCallback(
+    (handler: (recordingId: string) => void) => {
+      if (!socket) return () => {};
+      const listener = ({ id }: { id: string }) => handler(id);
+      socket.on('recording-deleted', listener);
+      return () => {
+        socket.off('recording-deleted', listener);
+      };
+    },
+    [socket]
+  );
+
   return {
     socket,
     connected,
     participants,
     pendingRequests,
+    recordingRequests,
     status,
+    lobbyInfo,
+    passcodeInvalid,
+    role,
+    handQueue,
     socketId: socket?.id ?? null,
     joinRoom,
     leaveRoom,
     acceptJoin,
     rejectJoin,
     kickUser,
+    transferHost,
+    announceRecordingStart,
+    announceRecordingStop,
+    respondToRecordingRequest,
+    onRecordingApproved,
+    onRecordingDenied,
+    addMarker,
+    onMarkerAdded,
+    onRoomUpdated,
+    onHostTransferred,
+    onHostPromoted,
+    sendMediaState,
+    muteParticipant,
+    muteAll,
+    askToUnmute,
+    onForceMuted,
+    onUnmuteRequested,
+    raiseHand,
+    lowerHand,
+    callOnNext,
+    onCalledOn,
     refreshPending,
     sendOffer,
     sendAnswer,
     sendIceCandidate,
+    sendScreenShareState,
     onOffer,
     onAnswer,
     onIceCandidate,
     onRecordingUploaded,
+    onRecordingUpdated,
+    onRecordingDeleted,
   };
 }
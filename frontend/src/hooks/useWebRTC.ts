@@ -1,5 +1,7 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import type { Participant } from './useSignaling';
+import { useAudioLevels } from './useAudioLevels';
+import type { RoomRole } from '../api/client';
 
 export type PeerStream = {
   socketId: string;
@@ -7,15 +9,31 @@ export type PeerStream = {
   displayName?: string | null;
   stream: MediaStream;
   connectionState?: RTCPeerConnectionState;
+  /** ICE restart attempt in progress (0 when the connection is healthy) */
+  reconnectAttempt?: number;
+  role?: RoomRole;
+  /** Signaled by the peer; undefined until their first media-state arrives */
+  isMuted?: boolean;
+  isVideoOff?: boolean;
+  /** Current microphone level, 0..1 */
+  audioLevel?: number;
 };
 
-const ICE_SERVERS: RTCConfiguration['iceServers'] = [
-  { urls: 'stun:stun.l.google.com:19302' },
-  { urls: 'stun:stun1.l.google.com:19302' },
-  { urls: 'stun:stun2.l.google.com:19302' },
-  { urls: 'stun:stun3.l.google.com:19302' },
-  { urls: 'stun:stun4.l.google.com:19302' },
-];
+/**
+ * Per-peer "perfect negotiation" bookkeeping.
+ * The polite peer rolls back its own offer on glare; the impolite one ignores the incoming offer.
+ */
+type PeerNegotiation = {
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  restartAttempts: number;
+  restartTimer: ReturnType<typeof setTimeout> | null;
+};
+
+// ICE restarts back off 1s, 2s, 4s, 8s, 16s before the peer is torn down
+const ICE_RESTART_BASE_DELAY_MS = 1000;
+const ICE_RESTART_MAX_ATTEMPTS = 5;
 
 export function useWebRTC(
   localStream: MediaStream | null,
@@ -25,122 +43,381 @@ export function useWebRTC(
     sendOffer: (to: string, sdp: RTCSessionDescriptionInit) => void;
     sendAnswer: (to: string, sdp: RTCSessionDescriptionInit) => void;
     sendIceCandidate: (to: string, candidate: RTCIceCandidateInit) => void;
-    onOffer: (handler: (from: string, sdp: RTCSessionDescriptionInit) => void) => void;
-    onAnswer: (handler: (from: string, sdp: RTCSessionDescriptionInit) => void) => void;
-    onIceCandidate: (handler: (from: string, candidate: RTCIceCandidateInit) => void) => void;
-  }
+    onOffer: (handler: (from: string, sdp: RTCSessionDescriptionInit) => void) => () => void;
+    onAnswer: (handler: (from: string, sdp: RTCSessionDescriptionInit) => void) => () => void;
+    onIceCandidate: (handler: (from: string, candidate: RTCIceCandidateInit) => void) => () => void;
+    sendScreenShareState: (sharing: boolean) => void;
+  },
+  iceServers: RTCIceServer[]
 ) {
   const [peerStreams, setPeerStreams] = useState<PeerStream[]>([]);
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
   const peersRef = useRef<Map<string, RTCPeerConnection>>(new Map());
+  const negotiationRef = useRef<Map<string, PeerNegotiation>>(new Map());
   const localStreamRef = useRef<MediaStream | null>(null);
+  const iceServersRef = useRef<RTCIceServer[]>(iceServers);
+  const socketIdRef = useRef<string | null>(null);
+  const screenTrackRef = useRef<MediaStreamTrack | null>(null);
+  // Senders added only for the screen (peer had no camera sender to swap)
+  const screenSendersRef = useRef<Map<string, RTCRtpSender>>(new Map());
+  // Participants we have seen in the room; a peer is dropped once they leave the list
+  const seenRef = useRef<Set<string>>(new Set());
+  // Peers torn down after exhausting ICE restarts; not re-created until they offer again
+  const droppedRef = useRef<Set<string>>(new Set());
   const setupRef = useRef(false);
 
   localStreamRef.current = localStream;
 
+  const { sendOffer, sendAnswer, sendIceCandidate, onOffer, onAnswer, onIceCandidate, sendScreenShareState } = signaling;
+
+  useEffect(() => {
+    socketIdRef.current = socketId;
+  }, [socketId]);
+
+  // Fresh TURN credentials apply to existing connections too, so later ICE restarts can use them
+  useEffect(() => {
+    iceServersRef.current = iceServers;
+    peersRef.current.forEach((pc) => {
+      try {
+        pc.setConfiguration({ ...pc.getConfiguration(), iceServers });
+      } catch (e) {
+        console.warn('Could not update ICE servers on peer connection', e);
+      }
+    });
+  }, [iceServers]);
+
+  const updatePeerStream = useCallback((remoteSocketId: string, patch: Partial<PeerStream>) => {
+    setPeerStreams((prev) => prev.map((p) => (p.socketId === remoteSocketId ? { ...p, ...patch } : p)));
+  }, []);
+
   const removePeer = useCallback((socketIdToRemove: string) => {
     const pc = peersRef.current.get(socketIdToRemove);
     if (pc) {
       pc.close();
       peersRef.current.delete(socketIdToRemove);
     }
+    const negotiation = negotiationRef.current.get(socketIdToRemove);
+    if (negotiation?.restartTimer) clearTimeout(negotiation.restartTimer);
+    negotiationRef.current.delete(socketIdToRemove);
+    screenSendersRef.current.delete(socketIdToRemove);
     setPeerStreams((prev) => prev.filter((p) => p.socketId !== socketIdToRemove));
   }, []);
 
+  /** Schedule the next ICE restart with exponential backoff, or give up after the last attempt */
+  const scheduleIceRestart = useCallback(
+    (remoteSocketId: string) => {
+      const pc = peersRef.current.get(remoteSocketId);
+      const negotiation = negotiationRef.current.get(remoteSocketId);
+      if (!pc || !negotiation || negotiation.restartTimer) return;
+
+      if (negotiation.restartAttempts >= ICE_RESTART_MAX_ATTEMPTS) {
+        console.warn('Giving up on peer after ICE restarts:', remoteSocketId);
+        droppedRef.current.add(remoteSocketId);
+        removePeer(remoteSocketId);
+        return;
+      }
+
+      const delay = ICE_RESTART_BASE_DELAY_MS * 2 ** negotiation.restartAttempts;
+      negotiation.restartTimer = setTimeout(() => {
+        negotiation.restartTimer = null;
+        if (pc.connectionState === 'connected' || pc.connectionState === 'closed') return;
+        negotiation.restartAttempts += 1;
+        updatePeerStream(remoteSocketId, { reconnectAttempt: negotiation.restartAttempts });
+        // Triggers negotiationneeded with fresh ICE credentials
+        pc.restartIce();
+        // Re-check after the next backoff window in case the restart does not recover
+        scheduleIceRestart(remoteSocketId);
+      }, delay);
+    },
+    [removePeer, updatePeerStream]
+  );
+
   const createPeer = useCallback(
-    async (
-      remoteSocketId: string,
-      userId: string,
-      displayName: string | null | undefined,
-      initiator: boolean
-    ): Promise<RTCPeerConnection> => {
-      const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS });
-
-      if (localStreamRef.current) {
-        localStreamRef.current.getTracks().forEach((track) => pc.addTrack(track, localStreamRef.current!));
+    (remoteSocketId: string): RTCPeerConnection => {
+      const pc = new RTCPeerConnection({ iceServers: iceServersRef.current });
+      const negotiation: PeerNegotiation = {
+        // Deterministic roles: both sides agree on who yields without extra signaling
+        polite: (socketIdRef.current ?? '') > remoteSocketId,
+        makingOffer: false,
+        ignoreOffer: false,
+        restartAttempts: 0,
+        restartTimer: null,
+      };
+      droppedRef.current.delete(remoteSocketId);
+
+      // Joining mid-presentation: send the screen in place of the camera
+      const stream = localStreamRef.current;
+      const screenTrack = screenTrackRef.current;
+      stream?.getTracks().forEach((track) => {
+        pc.addTrack(track.kind === 'video' && screenTrack ? screenTrack : track, stream);
+      });
+      if (screenTrack && !stream?.getVideoTracks().length) {
+        const sender = pc.addTrack(screenTrack, stream ?? new MediaStream([screenTrack]));
+        screenSendersRef.current.set(remoteSocketId, sender);
       }
 
       pc.ontrack = (e) => {
-        const stream = e.streams[0];
-        if (stream) {
+        const remoteStream = e.streams[0];
+        if (remoteStream) {
           setPeerStreams((prev) => {
+            const existing = prev.find((p) => p.socketId === remoteSocketId);
             const filtered = prev.filter((p) => p.socketId !== remoteSocketId);
-            return [...filtered, { socketId: remoteSocketId, userId, displayName, stream, connectionState: pc.connectionState }];
+            return [
+              ...filtered,
+              {
+                socketId: remoteSocketId,
+                userId: existing?.userId ?? 'unknown',
+                displayName: existing?.displayName,
+                stream: remoteStream,
+                connectionState: pc.connectionState,
+                reconnectAttempt: negotiation.restartAttempts,
+              },
+            ];
           });
         }
       };
 
+      pc.onnegotiationneeded = async () => {
+        try {
+          negotiation.makingOffer = true;
+          await pc.setLocalDescription();
+          if (pc.localDescription) sendOffer(remoteSocketId, pc.localDescription);
+        } catch (e) {
+          console.error('Negotiation failed for', remoteSocketId, e);
+        } finally {
+          negotiation.makingOffer = false;
+        }
+      };
+
       pc.onconnectionstatechange = () => {
-        setPeerStreams((prev) =>
-          prev.map((p) =>
-            p.socketId === remoteSocketId ? { ...p, connectionState: pc.connectionState } : p
-          )
-        );
-        if (pc.connectionState === 'failed' || pc.connectionState === 'disconnected') {
-          removePeer(remoteSocketId);
+        const state = pc.connectionState;
+        if (state === 'connected') {
+          if (negotiation.restartTimer) clearTimeout(negotiation.restartTimer);
+          negotiation.restartTimer = null;
+          negotiation.restartAttempts = 0;
+          updatePeerStream(remoteSocketId, { connectionState: state, reconnectAttempt: 0 });
+          return;
+        }
+        updatePeerStream(remoteSocketId, { connectionState: state });
+        // 'disconnected' often recovers on its own; the first backoff step doubles as a grace period
+        if (state === 'disconnected' || state === 'failed') {
+          scheduleIceRestart(remoteSocketId);
         }
       };
 
       pc.onicecandidate = (e) => {
-        if (e.candidate) signaling.sendIceCandidate(remoteSocketId, e.candidate);
+        if (e.candidate) sendIceCandidate(remoteSocketId, e.candidate);
       };
 
       peersRef.current.set(remoteSocketId, pc);
-
-      if (initiator) {
-        const offer = await pc.createOffer();
-        await pc.setLocalDescription(offer);
-        signaling.sendOffer(remoteSocketId, offer);
-      }
-
+      negotiationRef.current.set(remoteSocketId, negotiation);
       return pc;
     },
-    [signaling.sendOffer, signaling.sendIceCandidate, removePeer]
+    [sendOffer, sendIceCandidate, scheduleIceRestart, updatePeerStream]
   );
 
+  const stopScreenShare = useCallback(async () => {
+    const track = screenTrackRef.current;
+    if (!track) return;
+    screenTrackRef.current = null;
+    track.onended = null;
+    track.stop();
+    setScreenStream(null);
+    sendScreenShareState(false);
+
+    const cameraTrack = localStreamRef.current?.getVideoTracks()[0] ?? null;
+    await Promise.all(
+      [...peersRef.current.entries()].map(async ([remoteSocketId, pc]) => {
+        const added = screenSendersRef.current.get(remoteSocketId);
+        try {
+          if (added) {
+            // No camera to swap back to: dropping the sender triggers renegotiation
+            screenSendersRef.current.delete(remoteSocketId);
+            pc.removeTrack(added);
+          } else {
+            const sender = pc.getSenders().find((s) => s.track === track);
+            if (sender) await sender.replaceTrack(cameraTrack);
+          }
+        } catch (e) {
+          console.error('Failed to restore camera track for', remoteSocketId, e);
+        }
+      })
+    );
+  }, [sendScreenShareState]);
+
+  const startScreenShare = useCallback(async () => {
+    if (screenTrackRef.current) return;
+    if (!navigator.mediaDevices?.getDisplayMedia) {
+      throw new Error('Screen sharing is not supported in this browser');
+    }
+    const display = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+    const track = display.getVideoTracks()[0];
+    if (!track) return;
+    track.contentHint = 'detail';
+    screenTrackRef.current = track;
+    // Browser's own "Stop sharing" button ends the track without going through our UI
+    track.onended = () => {
+      stopScreenShare();
+    };
+    setScreenStream(display);
+    sendScreenShareState(true);
+
+    await Promise.all(
+      [...peersRef.current.entries()].map(async ([remoteSocketId, pc]) => {
+        try {
+          const videoSender = pc.getSenders().find((s) => s.track?.kind === 'video');
+          if (videoSender) {
+            // Swapping the camera sender's track needs no renegotiation
+            await videoSender.replaceTrack(track);
+          } else {
+            // Adding a sender fires negotiationneeded
+            const sender = pc.addTrack(track, localStreamRef.current ?? display);
+            screenSendersRef.current.set(remoteSocketId, sender);
+          }
+        } catch (e) {
+          console.error('Failed to send screen to', remoteSocketId, e);
+        }
+      })
+    );
+  }, [sendScreenShareState, stopScreenShare]);
+
   useEffect(() => {
     if (!socketId || !localStream) return;
 
     const others = participants.filter((p) => p.socketId !== socketId);
-    others.forEach(async (p) => {
-      if (peersRef.current.has(p.socketId)) return;
-      await createPeer(p.socketId, p.userId, p.displayName, true);
+    const present = new Set(others.map((p) => p.socketId));
+
+    // Tear down peers only when they actually leave the room, not on transient failures
+    seenRef.current.forEach((id) => {
+      if (!present.has(id)) {
+        seenRef.current.delete(id);
+        droppedRef.current.delete(id);
+        removePeer(id);
+      }
     });
-  }, [participants, socketId, localStream, createPeer]);
+
+    others.forEach((p) => {
+      seenRef.current.add(p.socketId);
+      if (peersRef.current.has(p.socketId) || droppedRef.current.has(p.socketId)) return;
+      // Both sides create the peer; negotiationneeded plus glare handling sorts out who offers
+      createPeer(p.socketId);
+    });
+  }, [participants, socketId, localStream, createPeer, removePeer]);
 
   useEffect(() => {
     if (!socketId) return;
 
-    signaling.onOffer(async (from, sdp) => {
-      if (peersRef.current.has(from)) return;
-      const p = participants.find((x) => x.socketId === from);
-      const pc = await createPeer(from, p?.userId ?? 'unknown', p?.displayName, false);
-      await pc.setRemoteDescription(new RTCSessionDescription(sdp));
-      const answer = await pc.createAnswer();
-      await pc.setLocalDescription(answer);
-      signaling.sendAnswer(from, answer);
-    });
+    const handleDescription = async (from: string, description: RTCSessionDescriptionInit) => {
+      let pc = peersRef.current.get(from);
+      if (!pc) {
+        // An answer for a peer we already tore down is stale
+        if (description.type !== 'offer') return;
+        pc = createPeer(from);
+      }
+      const negotiation = negotiationRef.current.get(from);
+      if (!negotiation) return;
 
-    signaling.onAnswer(async (from, sdp) => {
-      const pc = peersRef.current.get(from);
-      if (pc) await pc.setRemoteDescription(new RTCSessionDescription(sdp));
-    });
+      const offerCollision =
+        description.type === 'offer' && (negotiation.makingOffer || pc.signalingState !== 'stable');
+      negotiation.ignoreOffer = !negotiation.polite && offerCollision;
+      if (negotiation.ignoreOffer) return;
+
+      try {
+        // Polite side: setRemoteDescription rolls back our pending offer implicitly
+        await pc.setRemoteDescription(description);
+        if (description.type === 'offer') {
+          await pc.setLocalDescription();
+          if (pc.localDescription) sendAnswer(from, pc.localDescription);
+        }
+      } catch (e) {
+        console.error('Failed to apply remote description from', from, e);
+      }
+    };
 
-    signaling.onIceCandidate(async (from, candidate) => {
+    const offerUnsubscribe = onOffer(handleDescription);
+    const answerUnsubscribe = onAnswer(handleDescription);
+    const iceUnsubscribe = onIceCandidate(async (from, candidate) => {
       const pc = peersRef.current.get(from);
-      if (pc && candidate) await pc.addIceCandidate(new RTCIceCandidate(candidate));
+      if (!pc || !candidate) return;
+      try {
+        await pc.addIceCandidate(candidate);
+      } catch (e) {
+        // Candidates for an offer we deliberately ignored are expected to fail
+        if (!negotiationRef.current.get(from)?.ignoreOffer) {
+          console.error('Failed to add ICE candidate from', from, e);
+        }
+      }
     });
-  }, [socketId, signaling, createPeer, participants]);
+
+    return () => {
+      offerUnsubscribe();
+      answerUnsubscribe();
+      iceUnsubscribe();
+    };
+  }, [socketId, onOffer, onAnswer, onIceCandidate, sendAnswer, createPeer]);
 
   useEffect(() => {
     if (setupRef.current) return;
     setupRef.current = true;
+    const peers = peersRef.current;
+    const negotiations = negotiationRef.current;
 
     return () => {
-      peersRef.current.forEach((pc) => pc.close());
-      peersRef.current.clear();
+      peers.forEach((pc) => pc.close());
+      peers.clear();
+      negotiations.forEach((n) => {
+        if (n.restartTimer) clearTimeout(n.restartTimer);
+      });
+      negotiations.clear();
+      screenTrackRef.current?.stop();
+      screenTrackRef.current = null;
       setPeerStreams([]);
     };
   }, []);
 
-  return peerStreams;
+  // Peers can connect before the participant list catches up; fill in names from it
+  const namedPeerStreams = useMemo(
+    () =>
+      peerStreams.map((p) => {
+        const info = participants.find((x) => x.socketId === p.socketId);
+        return info
+          ? {
+              ...p,
+              userId: info.userId,
+              displayName: info.displayName,
+              role: info.role,
+              isMuted: info.isMuted,
+              isVideoOff: info.isVideoOff,
+            }
+          : p;
+      }),
+    [peerStreams, participants]
+  );
+
+  // Our own mic is keyed by our socket id so the active speaker can be us as well
+  const localAudioId = socketId ?? 'local';
+  const audioSources = useMemo(
+    () => [
+      ...(localStream ? [{ id: localAudioId, stream: localStream }] : []),
+      ...peerStreams.map((p) => ({ id: p.socketId, stream: p.stream })),
+    ],
+    [localStream, localAudioId, peerStreams]
+  );
+  const { levels, activeSpeakerId, speakingIds } = useAudioLevels(audioSources);
+
+  const leveledPeerStreams = useMemo(
+    () => namedPeerStreams.map((p) => ({ ...p, audioLevel: levels[p.socketId] ?? 0 })),
+    [namedPeerStreams, levels]
+  );
+
+  return {
+    peerStreams: leveledPeerStreams,
+    localAudioLevel: levels[localAudioId] ?? 0,
+    activeSpeakerId,
+    speakingIds,
+    screenStream,
+    isScreenSharing: !!screenStream,
+    startScreenShare,
+    stopScreenShare,
+  };
 }
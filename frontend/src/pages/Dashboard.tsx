@@ -1,13 +1,36 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useAuth, useClerk, useUser } from '@clerk/clerk-react';
-import { listRooms, createRoom, deleteRoom, getRoomByCode } from '../api/client';
+import { useAuth } from '../auth/context';
+import {
+  listRooms,
+  createRoom,
+  deleteRoom,
+  getRoomByCode,
+  listUpcomingRooms,
+  updateRoomSchedule,
+  clearRoomSchedule,
+  fetchRoomCalendar,
+  getCalendarFeedUrl,
+} from '../api/client';
+import type { Room } from '../api/client';
 import { ThemeToggle } from '../components/ThemeToggle';
+import { ScheduleFields } from '../components/ScheduleFields';
+import { RoomHistoryPanel } from '../components/RoomHistoryPanel';
+import { draftFromRoom, toRoomSchedule, describeRecurrence } from '../components/scheduleDraft';
+import type { ScheduleDraft } from '../components/scheduleDraft';
+
+function formatOccurrence(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
 
 export function Dashboard() {
-  const { getToken, userId } = useAuth();
-  const { signOut } = useClerk();
-  const { user } = useUser();
+  const { getToken, userId, user, signOut } = useAuth();
   const navigate = useNavigate();
   const [rooms, setRooms] = useState<Awaited<ReturnType<typeof listRooms>>>([]);
   const [loading, setLoading] = useState(true);
@@ -16,13 +39,23 @@ export function Dashboard() {
   const [newRoomName, setNewRoomName] = useState('');
   const [roomCode, setRoomCode] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [upcoming, setUpcoming] = useState<Room[]>([]);
+  // Scheduling a new meeting instead of starting it now
+  const [newSchedule, setNewSchedule] = useState<ScheduleDraft | null>(null);
+  // Inline schedule editor for one room
+  const [scheduleEdit, setScheduleEdit] = useState<{ roomId: string; draft: ScheduleDraft } | null>(null);
+  // Room whose attendance history is open
+  const [historyRoomId, setHistoryRoomId] = useState<string | null>(null);
+  const [savingSchedule, setSavingSchedule] = useState(false);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
 
   const fetchRooms = async () => {
     const token = await getToken();
     if (!token) return;
     try {
-      const data = await listRooms(token);
+      const [data, scheduled] = await Promise.all([listRooms(token), listUpcomingRooms(token)]);
       setRooms(data);
+      setUpcoming(scheduled);
     } catch (e) {
       setError('Could not load rooms. Please check your connection and try again.');
     } finally {
@@ -42,10 +75,17 @@ export function Dashboard() {
     setCreating(true);
     setError(null);
     try {
-      const room = await createRoom(name, token);
-      navigate(`/room/${room.id}`);
+      const room = await createRoom(name, token, newSchedule ? toRoomSchedule(newSchedule) : undefined);
+      if (!newSchedule) {
+        navigate(`/room/${room.id}`);
+        return;
+      }
+      // Scheduled for later: stay here so it shows up under Upcoming
+      setNewRoomName('');
+      setNewSchedule(null);
+      fetchRooms();
     } catch (e) {
-      setError('Could not create room. Please try again.');
+      setError(newSchedule && e instanceof Error ? e.message : 'Could not create room. Please try again.');
     } finally {
       setCreating(false);
     }
@@ -85,6 +125,88 @@ export function Dashboard() {
     }
   };
 
+  const handleSaveSchedule = async (clear = false) => {
+    if (!scheduleEdit) return;
+    const token = await getToken();
+    if (!token) return;
+    setSavingSchedule(true);
+    setError(null);
+    try {
+      if (clear) await clearRoomSchedule(scheduleEdit.roomId, token);
+      else await updateRoomSchedule(scheduleEdit.roomId, toRoomSchedule(scheduleEdit.draft), token);
+      setScheduleEdit(null);
+      fetchRooms();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not save the schedule.');
+    } finally {
+      setSavingSchedule(false);
+    }
+  };
+
+  const handleDownloadCalendar = async (room: Room) => {
+    const token = await getToken();
+    if (!token) return;
+    try {
+      const url = await fetchRoomCalendar(room.id, token);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${room.room_code || room.id}.ics`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch {
+      setError('Could not download the calendar file.');
+    }
+  };
+
+  const handleFeed = async (reset = false) => {
+    const token = await getToken();
+    if (!token) return;
+    if (reset && !confirm('Reset your calendar link? Calendars subscribed with the old link stop updating.')) return;
+    try {
+      const url = await getCalendarFeedUrl(token, { reset });
+      setFeedUrl(url);
+      await navigator.clipboard.writeText(url).catch(() => {});
+    } catch {
+      setError('Could not get your calendar link.');
+    }
+  };
+
+  const renderScheduleEditor = (room: Room) =>
+    scheduleEdit?.roomId === room.id && (
+      <div className="mt-3 pt-3 border-t border-surface-border space-y-3">
+        <ScheduleFields value={scheduleEdit.draft} onChange={(draft) => setScheduleEdit({ roomId: room.id, draft })} />
+        <div className="flex justify-end gap-2 text-xs">
+          {room.scheduled_start && (
+            <button
+              type="button"
+              onClick={() => handleSaveSchedule(true)}
+              disabled={savingSchedule}
+              className="mr-auto px-3 py-1.5 rounded-lg text-red-300 hover:bg-red-900/30 disabled:opacity-40 transition-colors"
+            >
+              Remove schedule
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setScheduleEdit(null)}
+            className="px-3 py-1.5 rounded-lg text-muted hover:text-secondary transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => handleSaveSchedule()}
+            disabled={savingSchedule || !scheduleEdit.draft.startsAt}
+            className="px-3 py-1.5 rounded-lg bg-brand hover:bg-brand-light disabled:opacity-40 text-white font-medium transition-colors"
+          >
+            {savingSchedule ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    );
+
   return (
     <div className="min-h-screen bg-surface-900 text-primary">
       {/* Top bar */}
@@ -97,7 +219,7 @@ export function Dashboard() {
         <div className="flex items-center gap-3">
           <ThemeToggle />
           <span className="text-sm text-muted truncate max-w-[200px]">
-            {user?.firstName || user?.username || user?.primaryEmailAddress?.emailAddress || 'User'}
+            {user?.displayName || 'User'}
           </span>
           <button
             type="button"
@@ -140,9 +262,23 @@ export function Dashboard() {
                 disabled={creating || !newRoomName.trim()}
                 className="px-6 py-3 rounded-xl bg-brand hover:bg-brand-light disabled:opacity-40 disabled:cursor-not-allowed font-semibold transition-colors shadow-lg shadow-brand/20"
               >
-                {creating ? 'Creating...' : 'Create'}
+                {creating ? 'Creating...' : newSchedule ? 'Schedule' : 'Create'}
               </button>
             </div>
+            <label className="flex items-center gap-2 mt-4 text-sm text-secondary cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!newSchedule}
+                onChange={(e) => setNewSchedule(e.target.checked ? draftFromRoom() : null)}
+                className="accent-brand"
+              />
+              Schedule for later
+            </label>
+            {newSchedule && (
+              <div className="mt-3">
+                <ScheduleFields value={newSchedule} onChange={setNewSchedule} />
+              </div>
+            )}
           </div>
 
           {/* Divider */}
@@ -189,6 +325,102 @@ export function Dashboard() {
             </div>
           )}
 
+          {/* Upcoming */}
+          <div className="bg-surface-800 rounded-2xl border border-surface-border p-6">
+            <div className="flex items-center justify-between gap-3 mb-4">
+              <h2 className="text-lg font-semibold text-primary flex items-center gap-3 font-heading">
+                <span className="w-8 h-8 rounded-lg bg-brand/15 flex items-center justify-center text-brand">
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-4 h-4">
+                    <rect x="3" y="4" width="18" height="18" rx="2" />
+                    <path d="M16 2v4M8 2v4M3 10h18" />
+                  </svg>
+                </span>
+                Upcoming
+              </h2>
+              <button
+                type="button"
+                onClick={() => handleFeed()}
+                className="px-3 py-1.5 rounded-lg bg-surface-700 hover:bg-surface-600 text-secondary text-xs transition-colors"
+                title="Copy a link that keeps your calendar app in sync with these meetings"
+              >
+                Subscribe in calendar
+              </button>
+            </div>
+            {feedUrl && (
+              <div className="mb-4 p-3 rounded-xl bg-surface-700/50 border border-surface-border text-xs space-y-2">
+                <p className="text-muted">
+                  Link copied. Add it to your calendar app as a subscription (by URL). Keep it private: anyone with it
+                  can see your meetings.
+                </p>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    readOnly
+                    value={feedUrl}
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 min-w-0 px-2 py-1.5 rounded-lg bg-surface-700 border border-surface-border text-primary font-mono"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleFeed(true)}
+                    className="px-2 py-1.5 rounded-lg text-red-300 hover:bg-red-900/30 transition-colors shrink-0"
+                  >
+                    Reset link
+                  </button>
+                </div>
+              </div>
+            )}
+            {loading ? (
+              <div className="h-16 rounded-xl bg-surface-700 animate-pulse" />
+            ) : upcoming.length === 0 ? (
+              <p className="text-muted py-4 text-center">Nothing scheduled</p>
+            ) : (
+              <ul className="space-y-2">
+                {upcoming.map((room) => (
+                  <li key={room.id} className="p-4 rounded-xl bg-surface-700/50 border border-surface-border">
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="flex-1 min-w-0">
+                        <span className="font-medium text-primary truncate block">{room.name}</span>
+                        <span className="text-xs text-muted">
+                          {room.next_occurrence && formatOccurrence(room.next_occurrence)}
+                          {room.duration_minutes && ` · ${room.duration_minutes} min`}
+                          {describeRecurrence(room) && ` · ${describeRecurrence(room)}`}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <button
+                          type="button"
+                          onClick={() => handleDownloadCalendar(room)}
+                          className="px-3 py-2 rounded-lg bg-surface-700 hover:bg-surface-600 text-secondary text-sm transition-colors"
+                          title="Download an .ics file for your calendar"
+                        >
+                          .ics
+                        </button>
+                        {room.created_by === userId && (
+                          <button
+                            type="button"
+                            onClick={() => setScheduleEdit({ roomId: room.id, draft: draftFromRoom(room) })}
+                            className="px-3 py-2 rounded-lg bg-surface-700 hover:bg-surface-600 text-secondary text-sm transition-colors"
+                          >
+                            Edit
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => navigate(`/room/${room.id}`)}
+                          className="px-4 py-2 rounded-lg bg-brand hover:bg-brand-light text-white text-sm font-medium transition-colors"
+                        >
+                          Join
+                        </button>
+                      </div>
+                    </div>
+                    {renderScheduleEditor(room)}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
           {/* Recent Meetings */}
           <div className="bg-surface-800 rounded-2xl border border-surface-border p-6">
             <h2 className="text-lg font-semibold text-primary mb-4 flex items-center gap-3 font-heading">
@@ -213,33 +445,64 @@ export function Dashboard() {
                 {rooms.map((room) => (
                   <li
                     key={room.id}
-                    className="flex items-center justify-between gap-4 p-4 rounded-xl bg-surface-700/50 border border-surface-border hover:border-brand/30 transition-colors group"
+                    className="p-4 rounded-xl bg-surface-700/50 border border-surface-border hover:border-brand/30 transition-colors group"
                   >
-                    <div className="flex-1 min-w-0">
-                      <span className="font-medium text-primary truncate block">{room.name}</span>
-                      {room.room_code && (
-                        <span className="text-xs text-muted font-mono">Code: {room.room_code}</span>
-                      )}
-                    </div>
-                    <div className="flex items-center gap-2 shrink-0">
-                      <button
-                        type="button"
-                        onClick={() => navigate(`/room/${room.id}`)}
-                        className="px-4 py-2 rounded-lg bg-brand hover:bg-brand-light text-white text-sm font-medium transition-colors"
-                      >
-                        Join
-                      </button>
-                      {room.created_by === userId && (
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="flex-1 min-w-0">
+                        <span className="font-medium text-primary truncate block">{room.name}</span>
+                        {room.room_code && (
+                          <span className="text-xs text-muted font-mono">Code: {room.room_code}</span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
                         <button
                           type="button"
-                          onClick={(e) => handleDelete(room.id, e)}
-                          className="px-3 py-2 rounded-lg bg-red-900/30 hover:bg-red-800/50 text-red-300 text-sm transition-colors opacity-0 group-hover:opacity-100"
-                          title="Delete room"
+                          onClick={() => navigate(`/room/${room.id}`)}
+                          className="px-4 py-2 rounded-lg bg-brand hover:bg-brand-light text-white text-sm font-medium transition-colors"
                         >
-                          Delete
+                          Join
                         </button>
-                      )}
+                        {room.created_by === userId && !room.scheduled_start && (
+                          <button
+                            type="button"
+                            onClick={() => setScheduleEdit({ roomId: room.id, draft: draftFromRoom(room) })}
+                            className="px-3 py-2 rounded-lg bg-surface-700 hover:bg-surface-600 text-secondary text-sm transition-colors opacity-0 group-hover:opacity-100"
+                            title="Schedule this meeting"
+                          >
+                            Schedule
+                          </button>
+                        )}
+                        {room.created_by === userId && (
+                          <button
+                            type="button"
+                            onClick={() => setHistoryRoomId(historyRoomId === room.id ? null : room.id)}
+                            className="px-3 py-2 rounded-lg bg-surface-700 hover:bg-surface-600 text-secondary text-sm transition-colors opacity-0 group-hover:opacity-100"
+                            title="Who attended and for how long"
+                          >
+                            History
+                          </button>
+                        )}
+                        {room.created_by === userId && (
+                          <button
+                            type="button"
+                            onClick={(e) => handleDelete(room.id, e)}
+                            className="px-3 py-2 rounded-lg bg-red-900/30 hover:bg-red-800/50 text-red-300 text-sm transition-colors opacity-0 group-hover:opacity-100"
+                            title="Delete room"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </div>
                     </div>
+                    {!room.scheduled_start && renderScheduleEditor(room)}
+                    {historyRoomId === room.id && (
+                      <RoomHistoryPanel
+                        roomId={room.id}
+                        fileName={`attendance-${room.room_code || room.id}.csv`}
+                        getToken={getToken}
+                        onClose={() => setHistoryRoomId(null)}
+                      />
+                    )}
                   </li>
                 ))}
               </ul>
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { useAuth } from '../auth/context';
+import { requestGuestPass } from '../api/client';
+import type { GuestPass } from '../api/client';
+import { Room } from './Room';
+
+const STORAGE_PREFIX = 'guest-pass:';
+
+// Kept for the tab's lifetime so a reload rejoins with the same name instead of asking again
+function loadPass(roomId: string): GuestPass | null {
+  try {
+    const pass = JSON.parse(sessionStorage.getItem(STORAGE_PREFIX + roomId) ?? 'null') as GuestPass | null;
+    return pass && new Date(pass.expiresAt) > new Date() ? pass : null;
+  } catch {
+    return null;
+  }
+}
+
+function savePass(roomId: string, pass: GuestPass | null) {
+  if (pass) sessionStorage.setItem(STORAGE_PREFIX + roomId, JSON.stringify(pass));
+  else sessionStorage.removeItem(STORAGE_PREFIX + roomId);
+}
+
+/** /guest/:roomId: join without an account by entering a name; guests always wait in the lobby */
+export function GuestJoin() {
+  const { roomId } = useParams<{ roomId: string }>();
+  const { isLoaded, isSignedIn } = useAuth();
+  const [pass, setPass] = useState<GuestPass | null>(() => (roomId ? loadPass(roomId) : null));
+  const [name, setName] = useState(pass?.displayName ?? '');
+  const [joining, setJoining] = useState(false);
+  const [left, setLeft] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!roomId) return <Navigate to="/" replace />;
+  // People with an account join as themselves
+  if (isLoaded && isSignedIn) return <Navigate to={`/room/${roomId}`} replace />;
+
+  if (pass && !left) {
+    return (
+      <Room
+        guestPass={pass}
+        onExit={() => {
+          savePass(roomId, null);
+          setPass(null);
+          setLeft(true);
+        }}
+      />
+    );
+  }
+
+  const handleJoin = async () => {
+    setJoining(true);
+    setError(null);
+    try {
+      const issued = await requestGuestPass(roomId, name.trim());
+      savePass(roomId, issued);
+      setPass(issued);
+      setLeft(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not join as a guest');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-surface-900 flex items-center justify-center text-primary p-4">
+      <form
+        className="w-full max-w-sm p-8 bg-surface-800 rounded-2xl border border-surface-border"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (name.trim()) handleJoin();
+        }}
+      >
+        <h1 className="text-xl font-semibold font-heading mb-2">{left ? 'You left the meeting' : 'Join as a guest'}</h1>
+        <p className="text-sm text-muted mb-6">
+          {left
+            ? 'You can ask to join again.'
+            : 'Enter the name others will see. A host lets you in from the lobby.'}
+        </p>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Your name"
+          maxLength={50}
+          autoFocus
+          className="w-full px-4 py-3 rounded-xl bg-surface-700 border border-surface-border text-primary placeholder-muted focus:outline-none focus:ring-2 focus:ring-brand mb-4"
+        />
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+        <button
+          type="submit"
+          disabled={joining || !name.trim()}
+          className="w-full px-6 py-3 rounded-xl bg-brand hover:bg-brand-light disabled:opacity-40 disabled:cursor-not-allowed text-white font-medium transition-colors"
+        >
+          {joining ? 'Joining...' : left ? 'Ask to join again' : 'Ask to join'}
+        </button>
+        <p className="text-xs text-muted text-center mt-4">
+          Have an account?{' '}
+          <Link to={`/room/${roomId}`} className="text-brand hover:text-brand-light">
+            Sign in
+          </Link>
+        </p>
+      </form>
+    </div>
+  );
+}
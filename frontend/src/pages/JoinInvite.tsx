@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '../auth/context';
+import { acceptRoomInvite } from '../api/client';
+
+/** Landing page for /join/:token invite links: redeems the link, then heads into the room */
+export function JoinInvite() {
+  const { token: inviteToken } = useParams<{ token: string }>();
+  const { getToken } = useAuth();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!inviteToken) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const token = await getToken();
+        if (!token || cancelled) return;
+        const room = await acceptRoomInvite(inviteToken, token);
+        // Replace so Back doesn't redeem the link again
+        if (!cancelled) navigate(`/room/${room.id}`, { replace: true });
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Could not open this invite');
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [inviteToken, getToken, navigate]);
+
+  return (
+    <div className="h-screen bg-surface-900 flex items-center justify-center text-primary">
+      <div className="text-center p-8 bg-surface-800 rounded-2xl border border-surface-border max-w-md">
+        {error ? (
+          <>
+            <p className="text-red-400 mb-6">{error}</p>
+            <button
+              type="button"
+              onClick={() => navigate('/')}
+              className="px-6 py-3 rounded-xl bg-surface-700 hover:bg-surface-600 text-primary text-sm transition-colors"
+            >
+              Back to Dashboard
+            </button>
+          </>
+        ) : (
+          <p className="text-muted">Opening your invite...</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,34 +1,80 @@
-import { useEffect, useState, useCallback, useRef } from 'react';
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { useAuth, useUser } from '@clerk/clerk-react';
+import { useAuth } from '../auth/context';
 import { VideoGrid } from '../components/VideoGrid';
 import { RoomControls } from '../components/RoomControls';
 import { RecordingsList } from '../components/RecordingsList';
+import { ChatPanel } from '../components/ChatPanel';
+import { HandQueuePanel } from '../components/HandQueuePanel';
+import { RoomSettingsPanel } from '../components/RoomSettingsPanel';
+import { RoomInvitePanel } from '../components/RoomInvitePanel';
 import { ThemeToggle } from '../components/ThemeToggle';
 import { Toast } from '../components/Toast';
 import { useSignaling } from '../hooks/useSignaling';
+import type { UnmuteRequest } from '../hooks/useSignaling';
 import { useWebRTC } from '../hooks/useWebRTC';
 import { useMediaRecorder } from '../hooks/useMediaRecorder';
+import { useMeetingCompositor } from '../hooks/useMeetingCompositor';
+import { useRecordingUploads } from '../hooks/useRecordingUploads';
+import type { CompositorSource } from '../hooks/useMeetingCompositor';
 import { useToast } from '../hooks/useToast';
-import { getRoom, uploadRecording, getRecordingsByRoom } from '../api/client';
-import type { Recording } from '../api/client';
+import { useChat } from '../hooks/useChat';
+import { useIceServers } from '../hooks/useIceServers';
+import {
+  getRoom,
+  updateRoom,
+  getRecordingsByRoom,
+  setMemberRole,
+  revokeMemberRole,
+  isModeratorRole,
+  listRoomInvites,
+  createRoomInviteLink,
+  getInviteUrl,
+  isGuestUserId,
+} from '../api/client';
+import type { GuestPass, Recording, RecordingMode, RoomRole, RoomSettings, Room as RoomInfo } from '../api/client';
 
-export function Room() {
+type RoomProps = {
+  /** Set when joining without an account; see GuestJoin */
+  guestPass?: GuestPass;
+  /** Where leaving goes instead of the dashboard (guests don't have one) */
+  onExit?: () => void;
+};
+
+export function Room({ guestPass, onExit }: RoomProps = {}) {
   const { roomId } = useParams<{ roomId: string }>();
   const navigate = useNavigate();
-  const { getToken, userId } = useAuth();
-  const { user } = useUser();
-  const displayName = user?.firstName || user?.username || user?.primaryEmailAddress?.emailAddress || undefined;
-  const avatarUrl = user?.imageUrl ?? null;
+  const exit = useCallback(() => (onExit ? onExit() : navigate('/')), [onExit, navigate]);
+  const exitLabel = onExit ? 'Close' : 'Back to Dashboard';
+  const { getToken: getSessionToken, userId: sessionUserId, user } = useAuth();
+  const isGuest = !!guestPass;
+  // Guests authenticate every request and the socket with their pass instead of a session token
+  const getToken = useCallback(
+    async () => (guestPass ? guestPass.token : getSessionToken()),
+    [guestPass, getSessionToken]
+  );
+  const userId = guestPass?.userId ?? sessionUserId;
+  const displayName = guestPass ? guestPass.displayName : user?.displayName || undefined;
+  const avatarUrl = guestPass ? null : (user?.imageUrl ?? null);
   const [token, setToken] = useState<string | null>(null);
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
   const [isMuted, setIsMuted] = useState(false);
   const [isVideoOff, setIsVideoOff] = useState(false);
-  const [room, setRoom] = useState<{ id: string; name: string; room_code?: string; created_by: string } | null>(null);
+  const [room, setRoom] = useState<RoomInfo | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [recordings, setRecordings] = useState<Recording[]>([]);
   const [recordingsLoading, setRecordingsLoading] = useState(false);
   const [showRecordings, setShowRecordings] = useState(false);
+  const [showChat, setShowChat] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showInvites, setShowInvites] = useState(false);
+  const [showHandQueue, setShowHandQueue] = useState(false);
+  const [layout, setLayout] = useState<'grid' | 'speaker'>('grid');
+  const [recordingMode, setRecordingMode] = useState<RecordingMode>('composite');
+  // Mode of the recording in progress, read when its upload starts
+  const activeRecordingModeRef = useRef<RecordingMode>('local');
+  const [passcode, setPasscode] = useState('');
+  const [unmuteRequest, setUnmuteRequest] = useState<UnmuteRequest | null>(null);
   const [mediaErrorType, setMediaErrorType] = useState<'media' | 'room' | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const { toast, show: showToast, hide: hideToast } = useToast();
@@ -149,7 +195,8 @@ export function Room() {
   }, [requestMedia]);
 
   const fetchRecordings = useCallback(async () => {
-    if (!roomId || !token) return;
+    // Recordings are for people with an account
+    if (!roomId || !token || isGuest) return;
     setRecordingsLoading(true);
     try {
       const list = await getRecordingsByRoom(roomId, token);
@@ -159,7 +206,7 @@ export function Room() {
     } finally {
       setRecordingsLoading(false);
     }
-  }, [roomId, token]);
+  }, [roomId, token, isGuest]);
 
   useEffect(() => {
     getToken().then(setToken);
@@ -167,56 +214,161 @@ export function Room() {
 
   const signaling = useSignaling(token);
 
-  const peerStreams = useWebRTC(
+  const chat = useChat(signaling.socket, roomId, token, userId, signaling.status === 'joined', showChat);
+
+  const iceServers = useIceServers(getToken, !!token);
+
+  const {
+    peerStreams,
+    activeSpeakerId,
+    speakingIds,
+    screenStream,
+    isScreenSharing,
+    startScreenShare,
+    stopScreenShare,
+  } = useWebRTC(
     localStream,
     signaling.participants,
     signaling.socketId,
-    signaling
+    signaling,
+    iceServers
   );
 
-  const handleRecordingComplete = useCallback(
-    async (blob: Blob, durationMs: number, startedAt: Date, endedAt: Date) => {
-      console.log('Recording complete:', { size: blob.size, durationMs, type: blob.type });
+  const handleUploadComplete = useCallback(() => {
+    showToast('Recording uploaded successfully!', 'success');
+    fetchRecordings();
+  }, [showToast, fetchRecordings]);
 
-      if (blob.size === 0) {
-        showToast('Recording too short or no data captured. Try recording a bit longer.', 'error');
-        return;
-      }
+  const handleUploadFailed = useCallback(
+    (message: string) => showToast(`Upload failed: ${message}`, 'error'),
+    [showToast]
+  );
 
-      const t = await getToken();
-      if (!t) {
-        showToast('Authentication expired. Please refresh and try again.', 'error');
-        return;
+  // Upload the recorder is currently streaming into
+  const currentUploadRef = useRef<string | null>(null);
+  // Set once the recorder exists, so running out of quota can stop it
+  const stopRecordingRef = useRef<() => void>(() => {});
+  const handleQuotaExceeded = useCallback(
+    (message: string, localId: string) => {
+      if (localId === currentUploadRef.current) {
+        // What reached the server is already saved; don't try to finish the upload again
+        currentUploadRef.current = null;
+        stopRecordingRef.current();
       }
+      showToast(`Recording stopped: ${message}`, 'error');
+    },
+    [showToast]
+  );
+
+  const {
+    begin: beginUpload,
+    append: appendUpload,
+    finish: finishUpload,
+  } = useRecordingUploads(getToken, {
+    onComplete: handleUploadComplete,
+    onFailed: handleUploadFailed,
+    onQuotaExceeded: handleQuotaExceeded,
+  });
+  const handleRecordingStart = useCallback(
+    (mimeType: string, startedAt: Date) => {
       if (!roomId) {
         showToast('Room not found. Cannot upload recording.', 'error');
+        currentUploadRef.current = null;
         return;
       }
+      currentUploadRef.current = beginUpload({ roomId, mode: activeRecordingModeRef.current, mimeType, startedAt });
+    },
+    [roomId, showToast, beginUpload]
+  );
 
-      const durationSec = Math.max(1, Math.round(durationMs / 1000));
-      showToast('Uploading recording...', 'info');
-
-      const attempt = async (retries = 2): Promise<void> => {
-        try {
-          await uploadRecording(blob, roomId, durationSec, startedAt, endedAt, t);
-          showToast('Recording uploaded successfully!', 'success');
-          fetchRecordings();
-        } catch (e: unknown) {
-          const msg = e instanceof Error ? e.message : 'Unknown error';
-          console.error('Recording upload failed:', msg, `(retries left: ${retries})`);
-          if (retries > 0) {
-            await attempt(retries - 1);
-          } else {
-            showToast(`Upload failed: ${msg}`, 'error');
-          }
-        }
-      };
-      await attempt();
+  const handleRecordingChunk = useCallback(
+    (chunk: Blob) => {
+      if (currentUploadRef.current) appendUpload(currentUploadRef.current, chunk);
+    },
+    [appendUpload]
+  );
+
+  const { announceRecordingStart, announceRecordingStop } = signaling;
+
+  const handleRecordingStop = useCallback(
+    (durationMs: number, _startedAt: Date, endedAt: Date) => {
+      announceRecordingStop();
+      const localId = currentUploadRef.current;
+      currentUploadRef.current = null;
+      if (!localId) return;
+      finishUpload(localId, durationMs, endedAt);
+      showToast('Finishing upload...', 'info');
     },
-    [getToken, roomId, showToast, fetchRecordings]
+    [announceRecordingStop, finishUpload, showToast]
   );
 
-  const recorder = useMediaRecorder(localStream, handleRecordingComplete);
+  const recorder = useMediaRecorder(localStream, {
+    onStart: handleRecordingStart,
+    onChunk: handleRecordingChunk,
+    onStop: handleRecordingStop,
+  });
+
+  // Everything visible in the call, for whole-meeting recordings
+  const presenterSocketId =
+    signaling.participants.find((p) => p.isSharingScreen && p.socketId !== signaling.socketId)?.socketId ?? null;
+  const compositorSources = useMemo(() => {
+    const sources: CompositorSource[] = [];
+    if (screenStream) {
+      sources.push({ id: 'local-screen', stream: screenStream, label: `${displayName || userId}'s screen`, fit: 'contain' });
+    }
+    if (localStream) {
+      sources.push({ id: 'local', stream: localStream, label: displayName || 'You', isVideoOff });
+    }
+    peerStreams.forEach((p) => {
+      const isPresenting = p.socketId === presenterSocketId;
+      const label = p.displayName || p.userId || 'Participant';
+      sources.push({
+        id: p.socketId,
+        stream: p.stream,
+        label: isPresenting ? `${label}'s screen` : label,
+        isVideoOff: isPresenting ? false : p.isVideoOff,
+        fit: isPresenting ? 'contain' : 'cover',
+      });
+    });
+    return sources;
+  }, [screenStream, localStream, displayName, userId, isVideoOff, peerStreams, presenterSocketId]);
+  const { start: startCompositor, stop: stopCompositor } = useMeetingCompositor(compositorSources, screenStream ? 'local-screen' : presenterSocketId);
+
+  const { startRecording, stopRecording } = recorder;
+  const beginMeetingRecording = useCallback(() => {
+    activeRecordingModeRef.current = recordingMode;
+    if (recordingMode === 'local') {
+      startRecording();
+      return;
+    }
+    const composite = startCompositor();
+    if (!composite) {
+      showToast('This browser cannot record the whole meeting. Recording your camera instead.', 'info');
+      activeRecordingModeRef.current = 'local';
+      startRecording();
+      return;
+    }
+    startRecording(composite);
+  }, [recordingMode, startCompositor, startRecording, showToast]);
+
+  // Everyone in the call is told before we record; some rooms need a host's OK first
+  const startMeetingRecording = useCallback(() => {
+    announceRecordingStart()
+      .then((result) => {
+        if (result === 'pending') showToast('Asked a host for permission to record', 'info');
+        else beginMeetingRecording();
+      })
+      .catch((err) => showToast(err instanceof Error ? err.message : 'Could not start recording', 'error'));
+  }, [announceRecordingStart, beginMeetingRecording, showToast]);
+
+  const stopMeetingRecording = useCallback(() => {
+    stopRecording();
+    stopCompositor();
+  }, [stopRecording, stopCompositor]);
+
+  useEffect(() => {
+    stopRecordingRef.current = stopMeetingRecording;
+  }, [stopMeetingRecording]);
 
   useEffect(() => {
     if (!roomId || !token) return;
@@ -245,18 +397,21 @@ export function Room() {
   useEffect(() => {
     if (signaling.status === 'rejected') {
       showToast('Your request to join was declined', 'error');
-      setTimeout(() => navigate('/'), 2000);
+      setTimeout(exit, 2000);
     }
     if (signaling.status === 'kicked') {
       showToast('You were removed from the meeting', 'error');
-      setTimeout(() => navigate('/'), 2000);
+      setTimeout(exit, 2000);
+    }
+    if (signaling.status === 'lobby-timeout' || signaling.status === 'locked') {
+      localStream?.getTracks().forEach((t) => t.stop());
     }
     if (signaling.status === 'room-deleted') {
       showToast('The host ended and deleted this meeting', 'error');
       localStream?.getTracks().forEach((t) => t.stop());
-      setTimeout(() => navigate('/'), 2500);
+      setTimeout(exit, 2500);
     }
-  }, [signaling.status, showToast, navigate, localStream]);
+  }, [signaling.status, showToast, exit, localStream]);
 
   useEffect(() => {
     fetchRecordings();
@@ -268,18 +423,136 @@ export function Room() {
     });
   }, [signaling.onRecordingUploaded, fetchRecordings]);
 
+  const {
+    onRoomUpdated,
+    onHostTransferred,
+    onHostPromoted,
+    transferHost: requestHostTransfer,
+    sendMediaState,
+    onForceMuted,
+    onUnmuteRequested,
+    onCalledOn,
+    onRecordingApproved,
+    onRecordingDenied,
+    addMarker,
+    onMarkerAdded,
+    onRecordingUpdated,
+    onRecordingDeleted,
+  } = signaling;
+
+  useEffect(() => onRoomUpdated(setRoom), [onRoomUpdated]);
+
+  useEffect(
+    () =>
+      onRecordingUpdated((updated) => {
+        setRecordings((prev) => prev.map((r) => (r.id === updated.id ? updated : r)));
+      }),
+    [onRecordingUpdated]
+  );
+
+  useEffect(
+    () =>
+      onRecordingDeleted((recordingId) => {
+        setRecordings((prev) => prev.filter((r) => r.id !== recordingId));
+      }),
+    [onRecordingDeleted]
+  );
+
+  useEffect(
+    () =>
+      onHostTransferred((transfer) => {
+        if (transfer.to === userId) showToast('You are now the host of this meeting', 'success');
+        else showToast(`${transfer.displayName || 'Someone else'} is now the host`, 'info');
+      }),
+    [onHostTransferred, userId, showToast]
+  );
+
+  useEffect(
+    () =>
+      onHostPromoted(() => {
+        showToast('The host left, so you are now hosting this meeting', 'info');
+      }),
+    [onHostPromoted, showToast]
+  );
+
   const leaveRoom = useCallback(() => {
     localStream?.getTracks().forEach((t) => t.stop());
     signaling.leaveRoom();
-    navigate('/');
-  }, [localStream, signaling, navigate]);
+    exit();
+  }, [localStream, signaling, exit]);
 
-  const toggleMute = useCallback(() => {
-    localStream?.getAudioTracks().forEach((t) => {
-      t.enabled = !t.enabled;
-    });
-    setIsMuted((m) => !m);
-  }, [localStream]);
+  const setMicMuted = useCallback(
+    (muted: boolean) => {
+      localStream?.getAudioTracks().forEach((t) => {
+        t.enabled = !muted;
+      });
+      setIsMuted(muted);
+    },
+    [localStream]
+  );
+
+  const toggleMute = useCallback(() => setMicMuted(!isMuted), [setMicMuted, isMuted]);
+
+  // Everyone else's tiles show our mic/camera icons from this, not from track inspection
+  useEffect(() => {
+    sendMediaState({ isMuted, isVideoOff });
+  }, [sendMediaState, isMuted, isVideoOff]);
+
+  useEffect(
+    () =>
+      onForceMuted(({ by }) => {
+        setMicMuted(true);
+        setUnmuteRequest(null);
+        showToast(`${by || 'A host'} muted you`, 'info');
+      }),
+    [onForceMuted, setMicMuted, showToast]
+  );
+
+  useEffect(() => onUnmuteRequested(setUnmuteRequest), [onUnmuteRequested]);
+
+  useEffect(
+    () =>
+      onCalledOn(({ by }) => {
+        showToast(`${by || 'The host'} called on you. You're up!`, 'success');
+      }),
+    [onCalledOn, showToast]
+  );
+
+  useEffect(
+    () =>
+      onRecordingApproved(({ by }) => {
+        showToast(`${by || 'A host'} allowed you to record`, 'success');
+        startMeetingRecording();
+      }),
+    [onRecordingApproved, startMeetingRecording, showToast]
+  );
+
+  useEffect(
+    () =>
+      onRecordingDenied(({ by }) => {
+        showToast(`${by || 'A host'} declined your request to record`, 'error');
+      }),
+    [onRecordingDenied, showToast]
+  );
+
+  // Shown to everyone for as long as anyone in the call is recording
+  const recorders = signaling.participants.filter((p) => p.isRecording);
+
+  const handleAddMarker = useCallback(() => {
+    const label = window.prompt('Label this moment (optional)', '');
+    if (label === null) return;
+    addMarker(label)
+      .then(() => showToast('Marked in the recording', 'success'))
+      .catch((err) => showToast(err instanceof Error ? err.message : 'Could not add marker', 'error'));
+  }, [addMarker, showToast]);
+
+  useEffect(
+    () =>
+      onMarkerAdded((marker) => {
+        if (marker.userId !== userId) showToast(`${marker.displayName || 'Someone'} marked "${marker.label}"`, 'info');
+      }),
+    [onMarkerAdded, userId, showToast]
+  );
 
   const toggleVideo = useCallback(() => {
     localStream?.getVideoTracks().forEach((t) => {
@@ -288,6 +561,97 @@ export function Room() {
     setIsVideoOff((v) => !v);
   }, [localStream]);
 
+  const toggleScreenShare = useCallback(async () => {
+    if (isScreenSharing) {
+      await stopScreenShare();
+      return;
+    }
+    try {
+      await startScreenShare();
+    } catch (e: unknown) {
+      const err = e instanceof Error ? e : new Error(String(e));
+      // User closed the browser's picker — not an error worth surfacing
+      if (err.name === 'NotAllowedError' || err.name === 'AbortError') return;
+      showToast(`Could not share screen: ${err.message}`, 'error');
+    }
+  }, [isScreenSharing, startScreenShare, stopScreenShare, showToast]);
+
+  const toggleCoHost = useCallback(
+    async (targetUserId: string, currentRole?: RoomRole) => {
+      if (!roomId) return;
+      const t = await getToken();
+      if (!t) return;
+      try {
+        if (currentRole === 'co-host') {
+          await revokeMemberRole(roomId, targetUserId, t);
+          showToast('Co-host removed', 'info');
+        } else {
+          await setMemberRole(roomId, targetUserId, 'co-host', t);
+          showToast('Co-host added', 'success');
+        }
+      } catch (e: unknown) {
+        showToast(e instanceof Error ? e.message : 'Could not update role', 'error');
+      }
+    },
+    [roomId, getToken, showToast]
+  );
+
+  const transferHost = useCallback(
+    async (targetSocketId: string, label: string) => {
+      if (!confirm(`Make ${label} the host? You will stay on as co-host.`)) return;
+      try {
+        await requestHostTransfer(targetSocketId);
+      } catch (e: unknown) {
+        showToast(e instanceof Error ? e.message : 'Could not transfer host', 'error');
+      }
+    },
+    [requestHostTransfer, showToast]
+  );
+
+  const saveSettings = useCallback(
+    async (settings: RoomSettings) => {
+      if (!roomId) return;
+      const t = await getToken();
+      if (!t) throw new Error('Authentication expired');
+      setRoom(await updateRoom(roomId, settings, t));
+      showToast('Settings saved', 'success');
+    },
+    [roomId, getToken, showToast]
+  );
+
+  // The host hands out an invite link so people skip the lobby; anyone else shares the room URL,
+  // which still goes through the lobby
+  const copyMeetingLink = useCallback(async () => {
+    try {
+      let url = window.location.href;
+      if (signaling.role === 'owner' && roomId && token) {
+        const { links } = await listRoomInvites(roomId, token);
+        const link =
+          links.find((l) => l.max_uses === null && !l.expires_at) ??
+          (await createRoomInviteLink(roomId, { maxUses: null, expiresInHours: null }, token));
+        if (link.token) url = getInviteUrl(link.token);
+      }
+      await navigator.clipboard.writeText(url);
+      showToast(signaling.role === 'owner' ? 'Invite link copied' : 'Link copied', 'success');
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : 'Could not copy the link', 'error');
+    }
+  }, [signaling.role, roomId, token, showToast]);
+
+  const toggleLock = useCallback(async () => {
+    if (!roomId || !room) return;
+    const locking = room.admission_policy !== 'locked';
+    try {
+      const t = await getToken();
+      if (!t) throw new Error('Authentication expired');
+      // Unlocking falls back to the lobby so nobody slips in unannounced
+      setRoom(await updateRoom(roomId, { admissionPolicy: locking ? 'locked' : 'lobby' }, t));
+      showToast(locking ? 'Meeting locked' : 'Meeting unlocked', 'success');
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : 'Could not change the lock', 'error');
+    }
+  }, [roomId, room, getToken, showToast]);
+
   /* ─── Error screen ─── */
   if (error) {
     return (
@@ -306,10 +670,10 @@ export function Room() {
             )}
             <button
               type="button"
-              onClick={() => navigate('/')}
+              onClick={exit}
               className="px-6 py-3 rounded-xl bg-surface-700 hover:bg-surface-600 text-primary text-sm transition-colors"
             >
-              Back to Dashboard
+              {exitLabel}
             </button>
           </div>
         </div>
@@ -329,13 +693,20 @@ export function Room() {
           </div>
           <h2 className="text-xl font-semibold text-primary mb-2 font-heading">Waiting for host</h2>
           <p className="text-muted text-sm mb-6">
-            The meeting host will admit you shortly. Please wait...
+            {signaling.lobbyInfo && !signaling.lobbyInfo.hostPresent
+              ? "The host hasn't joined yet. You'll be let in once they arrive."
+              : 'The meeting host will admit you shortly. Please wait...'}
+            {!!signaling.lobbyInfo?.timeoutSeconds && (
+              <span className="block mt-1">
+                Your request expires after {Math.round(signaling.lobbyInfo.timeoutSeconds / 60)} min.
+              </span>
+            )}
           </p>
           <button
             type="button"
             onClick={() => {
               signaling.leaveRoom();
-              navigate('/');
+              exit();
             }}
             className="px-6 py-2 rounded-xl bg-surface-700 hover:bg-surface-600 text-primary text-sm transition-colors"
           >
@@ -346,8 +717,110 @@ export function Room() {
     );
   }
 
+  /* ─── Passcode prompt ─── */
+  if (signaling.status === 'passcode-required') {
+    return (
+      <div className="h-screen bg-surface-900 flex items-center justify-center text-primary">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (roomId && passcode) signaling.joinRoom(roomId, displayName, passcode);
+          }}
+          className="text-center p-8 bg-surface-800 rounded-2xl border border-surface-border max-w-md w-full shadow-2xl"
+        >
+          <h2 className="text-xl font-semibold text-primary mb-2 font-heading">Enter meeting passcode</h2>
+          <p className="text-muted text-sm mb-6">This meeting is protected. Ask the host for the passcode.</p>
+          <input
+            type="password"
+            value={passcode}
+            onChange={(e) => setPasscode(e.target.value)}
+            autoFocus
+            placeholder="Passcode"
+            className="w-full px-4 py-3 rounded-xl bg-surface-700 border border-surface-border text-primary placeholder-muted focus:outline-none focus:ring-2 focus:ring-brand focus:border-transparent"
+          />
+          {signaling.passcodeInvalid && <p className="text-red-400 text-sm mt-2">Incorrect passcode</p>}
+          <div className="flex flex-col sm:flex-row gap-3 justify-center mt-6">
+            <button
+              type="submit"
+              disabled={!passcode}
+              className="px-6 py-2 rounded-xl bg-brand hover:bg-brand-light disabled:opacity-40 text-white text-sm font-medium transition-colors"
+            >
+              Join
+            </button>
+            <button
+              type="button"
+              onClick={exit}
+              className="px-6 py-2 rounded-xl bg-surface-700 hover:bg-surface-600 text-primary text-sm transition-colors"
+            >
+              {exitLabel}
+            </button>
+          </div>
+        </form>
+      </div>
+    );
+  }
+
+  /* ─── Meeting locked ─── */
+  if (signaling.status === 'locked') {
+    return (
+      <div className="h-screen bg-surface-900 flex items-center justify-center text-primary">
+        <div className="text-center p-8 bg-surface-800 rounded-2xl border border-surface-border max-w-md shadow-2xl">
+          <h2 className="text-xl font-semibold text-primary mb-2 font-heading">This meeting is locked</h2>
+          <p className="text-muted text-sm mb-6">The host isn&apos;t letting anyone new in right now.</p>
+          <div className="flex flex-col sm:flex-row gap-3 justify-center">
+            <button
+              type="button"
+              onClick={() => window.location.reload()}
+              className="px-6 py-2 rounded-xl bg-brand hover:bg-brand-light text-white text-sm font-medium transition-colors"
+            >
+              Try again
+            </button>
+            <button
+              type="button"
+              onClick={exit}
+              className="px-6 py-2 rounded-xl bg-surface-700 hover:bg-surface-600 text-primary text-sm transition-colors"
+            >
+              {exitLabel}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  /* ─── Lobby timed out ─── */
+  if (signaling.status === 'lobby-timeout') {
+    return (
+      <div className="h-screen bg-surface-900 flex items-center justify-center text-primary">
+        <div className="text-center p-8 bg-surface-800 rounded-2xl border border-surface-border max-w-md shadow-2xl">
+          <h2 className="text-xl font-semibold text-primary mb-2 font-heading">Nobody let you in</h2>
+          <p className="text-muted text-sm mb-6">
+            Your request to join timed out before a host admitted you. You can ask again or come back later.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-3 justify-center">
+            <button
+              type="button"
+              onClick={() => window.location.reload()}
+              className="px-6 py-2 rounded-xl bg-brand hover:bg-brand-light text-white text-sm font-medium transition-colors"
+            >
+              Ask to join again
+            </button>
+            <button
+              type="button"
+              onClick={exit}
+              className="px-6 py-2 rounded-xl bg-surface-700 hover:bg-surface-600 text-primary text-sm transition-colors"
+            >
+              {exitLabel}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   const isMediaLoading = !localStream && !error;
-  const isRoomOwner = room?.created_by === userId;
+  const isModerator = isModeratorRole(signaling.role);
+  const isHandRaised = signaling.handQueue.some((h) => h.socketId === signaling.socketId);
 
   return (
     <div className="h-screen bg-surface-900 text-primary flex flex-col overflow-hidden">
@@ -377,12 +850,51 @@ export function Room() {
           <ThemeToggle />
           <button
             type="button"
-            onClick={() => {
-              const url = window.location.href;
-              navigator.clipboard.writeText(url).then(() => showToast('Link copied', 'success'));
-            }}
+            onClick={() => setLayout((l) => (l === 'grid' ? 'speaker' : 'grid'))}
+            className="px-3 py-1.5 rounded-lg bg-surface-700 hover:bg-surface-600 text-primary text-xs transition-colors"
+            title={layout === 'grid' ? 'Enlarge whoever is speaking' : 'Show everyone the same size'}
+          >
+            {layout === 'grid' ? 'Speaker view' : 'Grid view'}
+          </button>
+          {isModerator && room && (
+            <button
+              type="button"
+              onClick={toggleLock}
+              className={`px-3 py-1.5 rounded-lg text-xs transition-colors ${
+                room.admission_policy === 'locked'
+                  ? 'bg-amber-900/40 text-amber-300 hover:bg-amber-900/60'
+                  : 'bg-surface-700 hover:bg-surface-600 text-primary'
+              }`}
+              title={room.admission_policy === 'locked' ? 'Let people ask to join again' : 'Stop anyone new from joining'}
+            >
+              {room.admission_policy === 'locked' ? 'Unlock' : 'Lock'}
+            </button>
+          )}
+          {signaling.role === 'owner' && room && (
+            <button
+              type="button"
+              onClick={() => setShowSettings((v) => !v)}
+              className="px-3 py-1.5 rounded-lg bg-surface-700 hover:bg-surface-600 text-primary text-xs transition-colors"
+              title="Meeting settings"
+            >
+              Settings
+            </button>
+          )}
+          {signaling.role === 'owner' && token && (
+            <button
+              type="button"
+              onClick={() => setShowInvites((v) => !v)}
+              className="px-3 py-1.5 rounded-lg bg-surface-700 hover:bg-surface-600 text-primary text-xs transition-colors"
+              title="Invite people so they skip the lobby"
+            >
+              Invite
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={copyMeetingLink}
             className="px-3 py-1.5 rounded-lg bg-surface-700 hover:bg-surface-600 text-primary text-xs flex items-center gap-1.5 transition-colors"
-            title="Copy invite link"
+            title={signaling.role === 'owner' ? 'Copy an invite link that skips the lobby' : 'Copy meeting link'}
           >
             <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className="w-3.5 h-3.5">
               <rect x="9" y="9" width="13" height="13" rx="2" ry="2" />
@@ -400,14 +912,33 @@ export function Room() {
         </div>
       </header>
 
+      {/* Recording notice */}
+      {signaling.status === 'joined' && recorders.length > 0 && (
+        <div
+          role="status"
+          className="mx-4 mt-3 px-3 py-2 bg-red-900/30 border border-red-700/50 rounded-xl shrink-0 flex items-center gap-2"
+        >
+          <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse shrink-0" />
+          <span className="text-xs text-red-200 truncate">
+            This meeting is being recorded by{' '}
+            {recorders
+              .map((p) => (p.socketId === signaling.socketId ? 'you' : p.displayName || p.userId))
+              .join(', ')}
+          </span>
+        </div>
+      )}
+
       {/* Pending requests banner */}
-      {signaling.status === 'joined' && isRoomOwner && signaling.pendingRequests.length > 0 && (
+      {signaling.status === 'joined' && isModerator && signaling.pendingRequests.length > 0 && (
         <div className="mx-4 mt-3 p-3 bg-amber-900/30 border border-amber-700/50 rounded-xl shrink-0">
           <h3 className="text-xs font-semibold text-amber-200 mb-2 font-heading">People waiting to join</h3>
           <div className="space-y-1.5">
             {signaling.pendingRequests.map((p) => (
               <div key={p.socketId} className="flex items-center justify-between gap-4 py-1.5">
-                <span className="text-secondary text-sm truncate">{p.displayName || p.userId}</span>
+                <span className="text-secondary text-sm truncate">
+                  {p.displayName || p.userId}
+                  {isGuestUserId(p.userId) && <span className="text-muted"> (guest, no account)</span>}
+                </span>
                 <div className="flex gap-2 shrink-0">
                   <button
                     type="button"
@@ -430,18 +961,87 @@ export function Room() {
         </div>
       )}
 
+      {/* Recording approval banner */}
+      {signaling.status === 'joined' && isModerator && signaling.recordingRequests.length > 0 && (
+        <div className="mx-4 mt-3 p-3 bg-amber-900/30 border border-amber-700/50 rounded-xl shrink-0">
+          <h3 className="text-xs font-semibold text-amber-200 mb-2 font-heading">Asking to record</h3>
+          <div className="space-y-1.5">
+            {signaling.recordingRequests.map((r) => (
+              <div key={r.socketId} className="flex items-center justify-between gap-4 py-1.5">
+                <span className="text-secondary text-sm truncate">{r.displayName || r.userId}</span>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => signaling.respondToRecordingRequest(r.socketId, true)}
+                    className="px-3 py-1 rounded-lg bg-brand hover:bg-brand-light text-white text-xs transition-colors"
+                  >
+                    Allow
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => signaling.respondToRecordingRequest(r.socketId, false)}
+                    className="px-3 py-1 rounded-lg bg-surface-600 hover:bg-surface-500 text-white text-xs transition-colors"
+                  >
+                    Decline
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Main video area — fills remaining space */}
       <main className="flex-1 min-h-0 relative overflow-hidden">
-        {/* Recordings side panel — toggled */}
-        {showRecordings && (
-          <div className="absolute top-3 right-3 z-20 w-60">
-            <RecordingsList
-              recordings={recordings}
-              loading={recordingsLoading}
-              onRefresh={fetchRecordings}
-              token={token}
-              onClose={() => setShowRecordings(false)}
-            />
+        {showSettings && room && (
+          <div className="absolute top-3 left-3 z-30 w-72">
+            <RoomSettingsPanel room={room} onSave={saveSettings} onClose={() => setShowSettings(false)} />
+          </div>
+        )}
+        {showInvites && roomId && token && (
+          <div className={`absolute top-3 z-30 w-72 ${showSettings ? 'left-[19.5rem]' : 'left-3'}`}>
+            <RoomInvitePanel roomId={roomId} token={token} onClose={() => setShowInvites(false)} />
+          </div>
+        )}
+        {/* Side panels — toggled, recordings sit next to chat when both are open */}
+        {(showRecordings || showChat || showHandQueue) && (
+          <div className="absolute top-3 right-3 bottom-3 z-20 flex items-start gap-3 pointer-events-none">
+            {showRecordings && (
+              <div className="w-60 pointer-events-auto">
+                <RecordingsList
+                  recordings={recordings}
+                  loading={recordingsLoading}
+                  onRefresh={fetchRecordings}
+                  token={token}
+                  onClose={() => setShowRecordings(false)}
+                  currentUserId={userId}
+                  canManageAll={isModerator}
+                  isRoomOwner={signaling.role === 'owner'}
+                />
+              </div>
+            )}
+            {showHandQueue && (
+              <div className="w-60 max-h-full flex pointer-events-auto">
+                <HandQueuePanel
+                  queue={signaling.handQueue}
+                  currentSocketId={signaling.socketId}
+                  canManage={isModerator}
+                  onLower={signaling.lowerHand}
+                  onCallNext={signaling.callOnNext}
+                  onClose={() => setShowHandQueue(false)}
+                />
+              </div>
+            )}
+            {showChat && (
+              <div className="w-72 h-full pointer-events-auto">
+                <ChatPanel
+                  messages={chat.messages}
+                  currentUserId={userId}
+                  onSend={chat.sendMessage}
+                  onClose={() => setShowChat(false)}
+                />
+              </div>
+            )}
           </div>
         )}
         <VideoGrid
@@ -451,11 +1051,55 @@ export function Room() {
           currentUserId={userId ?? 'You'}
           currentAvatarUrl={avatarUrl}
           isVideoOff={isVideoOff}
-          roomCreatedBy={room?.created_by}
-          onKick={isRoomOwner ? signaling.kickUser : undefined}
+          isMuted={isMuted}
+          currentRole={signaling.role}
+          onKick={isModerator ? signaling.kickUser : undefined}
+          onMute={isModerator ? signaling.muteParticipant : undefined}
+          onAskToUnmute={isModerator ? signaling.askToUnmute : undefined}
+          onToggleCoHost={toggleCoHost}
+          onTransferHost={transferHost}
+          localScreenStream={screenStream}
+          presenterSocketId={presenterSocketId}
+          currentSocketId={signaling.socketId}
+          raisedHands={signaling.handQueue.map((h) => h.socketId)}
+          recordingIds={recorders.map((p) => p.socketId)}
+          activeSpeakerId={activeSpeakerId}
+          speakingIds={speakingIds}
+          layout={layout}
         />
       </main>
 
+      {/* Unmute consent — a host can ask, only we can turn the mic back on */}
+      {unmuteRequest && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/50">
+          <div className="p-6 bg-surface-800 rounded-2xl border border-surface-border max-w-sm shadow-2xl text-center">
+            <h2 className="text-lg font-semibold text-primary mb-2 font-heading">Unmute?</h2>
+            <p className="text-muted text-sm mb-5">
+              {unmuteRequest.displayName || 'A host'} is asking you to turn your microphone on.
+            </p>
+            <div className="flex gap-3 justify-center">
+              <button
+                type="button"
+                onClick={() => {
+                  setMicMuted(false);
+                  setUnmuteRequest(null);
+                }}
+                className="px-5 py-2 rounded-xl bg-brand hover:bg-brand-light text-white text-sm font-medium transition-colors"
+              >
+                Unmute
+              </button>
+              <button
+                type="button"
+                onClick={() => setUnmuteRequest(null)}
+                className="px-5 py-2 rounded-xl bg-surface-700 hover:bg-surface-600 text-primary text-sm transition-colors"
+              >
+                Stay muted
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {toast && <Toast message={toast.message} type={toast.type} onClose={hideToast} />}
 
       {/* Controls bar — stays at bottom */}
@@ -468,12 +1112,30 @@ export function Room() {
           hasCamera={!!localStream?.getVideoTracks().length}
           onMuteToggle={toggleMute}
           onVideoToggle={toggleVideo}
-          onRecordStart={recorder.startRecording}
-          onRecordStop={recorder.stopRecording}
+          canRecord={!isGuest}
+          onRecordStart={startMeetingRecording}
+          onRecordStop={stopMeetingRecording}
+          recordingMode={recordingMode}
+          onRecordingModeChange={setRecordingMode}
+          onAddMarker={
+            recorders.length > 0 && signaling.role !== 'viewer' && !isGuest ? handleAddMarker : undefined
+          }
           onLeave={leaveRoom}
           showRecordings={showRecordings}
-          onToggleRecordings={() => setShowRecordings((v) => !v)}
+          onToggleRecordings={isGuest ? undefined : () => setShowRecordings((v) => !v)}
           recordingsCount={recordings.length}
+          showChat={showChat}
+          onToggleChat={() => setShowChat((v) => !v)}
+          unreadCount={chat.unreadCount}
+          isScreenSharing={isScreenSharing}
+          onScreenShareToggle={toggleScreenShare}
+          canScreenShare={!!navigator.mediaDevices?.getDisplayMedia}
+          onMuteAll={isModerator ? signaling.muteAll : undefined}
+          isHandRaised={isHandRaised}
+          onRaiseHandToggle={() => (isHandRaised ? signaling.lowerHand() : signaling.raiseHand())}
+          showHandQueue={showHandQueue}
+          onToggleHandQueue={() => setShowHandQueue((v) => !v)}
+          raisedHandCount={signaling.handQueue.length}
         />
       </footer>
     </div>
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { Navigate, useSearchParams } from 'react-router-dom';
+import { signInWithPassword, registerAccount } from '../api/client';
+import { useAuth, useStartLocalSession } from '../auth/context';
+
+// Only same-app paths, so the redirect parameter can't send people to another site
+function safeRedirect(value: string | null): string {
+  return value && value.startsWith('/') && !value.startsWith('//') ? value : '/';
+}
+
+/** /sign-in for VITE_AUTH_PROVIDER=local: username and password, or a new account */
+export function SignIn() {
+  const { isSignedIn } = useAuth();
+  const startSession = useStartLocalSession();
+  const [searchParams] = useSearchParams();
+  const [mode, setMode] = useState<'sign-in' | 'register'>('sign-in');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [email, setEmail] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (isSignedIn) return <Navigate to={safeRedirect(searchParams.get('redirect'))} replace />;
+
+  const handleSubmit = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const session =
+        mode === 'sign-in'
+          ? await signInWithPassword(username.trim(), password)
+          : await registerAccount({
+              username: username.trim(),
+              password,
+              email: email.trim() || undefined,
+              displayName: displayName.trim() || undefined,
+            });
+      startSession(session);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not sign in');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-3 rounded-xl bg-surface-700 border border-surface-border text-primary placeholder-muted focus:outline-none focus:ring-2 focus:ring-brand mb-4';
+
+  return (
+    <div className="min-h-screen bg-surface-900 flex items-center justify-center text-primary p-4">
+      <form
+        className="w-full max-w-sm p-8 bg-surface-800 rounded-2xl border border-surface-border"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (username.trim() && password) handleSubmit();
+        }}
+      >
+        <h1 className="text-xl font-semibold font-heading mb-6">
+          {mode === 'sign-in' ? 'Sign in' : 'Create an account'}
+        </h1>
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="Username"
+          autoComplete="username"
+          autoFocus
+          className={inputClass}
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+          className={inputClass}
+        />
+        {mode === 'register' && (
+          <>
+            <input
+              type="text"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              placeholder="Name others will see (optional)"
+              maxLength={50}
+              className={inputClass}
+            />
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email (optional)"
+              autoComplete="email"
+              className={inputClass}
+            />
+          </>
+        )}
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+        <button
+          type="submit"
+          disabled={busy || !username.trim() || !password}
+          className="w-full px-6 py-3 rounded-xl bg-brand hover:bg-brand-light disabled:opacity-40 disabled:cursor-not-allowed text-white font-medium transition-colors"
+        >
+          {busy ? 'Please wait...' : mode === 'sign-in' ? 'Sign in' : 'Create account'}
+        </button>
+        <p className="text-xs text-muted text-center mt-4">
+          {mode === 'sign-in' ? 'No account yet?' : 'Already have an account?'}{' '}
+          <button
+            type="button"
+            onClick={() => {
+              setMode(mode === 'sign-in' ? 'register' : 'sign-in');
+              setError(null);
+            }}
+            className="text-brand hover:text-brand-light"
+          >
+            {mode === 'sign-in' ? 'Create one' : 'Sign in'}
+          </button>
+        </p>
+      </form>
+    </div>
+  );
+}